@@ -1,86 +1,260 @@
-import React, { useState, useEffect, useReducer, useMemo } from 'react';
+import React, { useState, useEffect, useReducer, useMemo, useRef } from 'react';
 import Sidebar from './components/Sidebar';
 import VideoGrid from './components/VideoGrid';
 import MetadataPanel from './components/MetadataPanel';
 import PlayerOverlay from './components/PlayerOverlay';
-import { Collection, VideoAsset, VideoMetadata } from './types';
-import { generateUUID, isVideoFile, isSubtitleFile, parseNFO, generateVideoThumbnail } from './services/fileUtils';
+import RelinkDialog from './components/RelinkDialog';
+import SmartCollectionEditor from './components/SmartCollectionEditor';
+import TagManager from './components/TagManager';
+import SettingsDialog from './components/SettingsDialog';
+import BulkActionBar from './components/BulkActionBar';
+import SeriesGrid from './components/SeriesGrid';
+import MetadataReviewDialog from './components/MetadataReviewDialog';
+import { AppState, Collection, CollectionSource, FolderSelection, LibraryView, PlaybackState, Playlist, ShuffleMode, SmartCollection, SubtitleTrack, TagFilter, VideoAsset, VideoFieldFilter, VideoMetadata, VideoSort } from './types';
+import { downloadFile, generateUUID, generateVideoThumbnail, isVideoFile, nfoFileNameOf } from './services/fileUtils';
+import { generateNFOContent } from './services/nfo';
+import { fingerprintSources } from './services/fingerprint';
+import { applyProgress, continueWatching, recentlyPlayed, PlaybackProgress } from './services/watchHistory';
+import { planRelink, RelinkRow, RelinkResolution } from './services/relink';
+import { importFolder } from './services/libraryImport';
+import { computeScanDiff, sourceOf, ScanDiff } from './services/libraryScan';
+import { getBridge, openVideoSource, scanFolderSelection } from './services/electronBridge';
+import { applyBulkOperation, BulkOperation, BulkUndo, captureBulkUndo, undoBulkEdit } from './services/bulkEdit';
+import { buildShuffleQueue, createRandom, shuffle } from './services/shuffleService';
+import { matchesFieldFilter, NO_FIELD_FILTER, sortVideos } from './services/videoSort';
+import { createSmartCollection, smartCollectionVideos } from './services/smartCollections';
+import { episodesAfter, groupSeries, seriesOfVideo } from './services/series';
+import { collectTags, countTags, cycleTagFilter, deleteTagInVideos, EMPTY_TAG_FILTER, isTagOrChild, mapTagFilter, matchesTagFilter, normalizeTags, renameTagPath, renameTagsInVideos } from './services/tagService';
+import { createSearchContext, matchesQuery, parseSearchQuery } from './services/searchQuery';
+import { MetadataJobProgress, MetadataJobResult, runMetadataJob } from './services/metadataJobs';
+import { loadLibrary, scheduleLibrarySave, flushLibrarySave, serializeLibrary, parseLibraryData, createEmptyLibrary } from './services/libraryStore';
 
 // --- Reducer for complex state ---
 type Action =
   | { type: 'ADD_COLLECTION'; payload: Collection }
   | { type: 'DELETE_COLLECTION'; payload: string }
-  | { type: 'ADD_VIDEOS'; payload: VideoAsset[] }
+  | { type: 'UPDATE_COLLECTION'; payload: { id: string; changes: Partial<Omit<Collection, 'id'>> } }
+  | { type: 'APPLY_SCAN'; payload: { collectionId: string; root: string | null; source: CollectionSource; diff: ScanDiff; added: VideoAsset[] } }
   | { type: 'UPDATE_VIDEO'; payload: { id: string; metadata: Partial<VideoMetadata> } }
-  | { type: 'LOAD_STATE'; payload: { collections: Collection[]; videos: VideoAsset[] } }
-  | { type: 'UPDATE_PATHS'; payload: { files: FileList } };
-
-const initialState = {
-  collections: [] as Collection[], // Renamed from containers
-  videos: [] as VideoAsset[],
-};
-
-function reducer(state: typeof initialState, action: Action) {
+  | { type: 'UPDATE_SUBTITLE_TRACK'; payload: { videoId: string; index: number; changes: Partial<Omit<SubtitleTrack, 'fileHandle'>> } }
+  | { type: 'LOAD_STATE'; payload: AppState }
+  | { type: 'RECORD_PLAYBACK'; payload: PlaybackProgress }
+  | { type: 'SET_SHUFFLE_MODE'; payload: ShuffleMode }
+  | { type: 'MARK_SHUFFLE_PLAYED'; payload: { scopeKey: string; videoId: string } }
+  | { type: 'RESET_SHUFFLE_CYCLE'; payload: string }
+  | { type: 'CREATE_PLAYLIST'; payload: Playlist }
+  | { type: 'UPDATE_PLAYLIST'; payload: { id: string; changes: Partial<Omit<Playlist, 'id'>> } }
+  | { type: 'DELETE_PLAYLIST'; payload: string }
+  | { type: 'ADD_TO_PLAYLIST'; payload: { playlistId: string; videoIds: string[] } }
+  | { type: 'REMOVE_FROM_PLAYLIST'; payload: { playlistId: string; videoId: string } }
+  | { type: 'SAVE_SMART_COLLECTION'; payload: SmartCollection }
+  | { type: 'DELETE_SMART_COLLECTION'; payload: string }
+  | { type: 'RENAME_TAGS'; payload: { from: string[]; to: string } }
+  | { type: 'DELETE_TAG'; payload: string }
+  | { type: 'SET_TAG_ALIAS'; payload: { alias: string; tag: string | null } }
+  | { type: 'BULK_EDIT'; payload: { ids: string[]; operation: BulkOperation } }
+  | { type: 'UNDO_BULK_EDIT'; payload: BulkUndo }
+  | { type: 'UPDATE_PATHS'; payload: { root: string | null; resolutions: RelinkResolution[] } };
+
+const initialState: AppState = createEmptyLibrary();
+
+const UNDO_LIMIT = 20;
+
+const IDLE_PLAYBACK: PlaybackState = { currentVideoId: null, queue: [], scopeKey: null, playlistId: null, seriesKey: null, session: 0 };
+
+function reducer(state: AppState, action: Action): AppState {
   switch (action.type) {
     case 'ADD_COLLECTION':
       return { ...state, collections: [...state.collections, action.payload] };
-    case 'DELETE_COLLECTION':
+    case 'DELETE_COLLECTION': {
+      const removed = new Set(state.videos.filter(v => v.collectionId === action.payload).map(v => v.id));
       return {
         ...state,
         collections: state.collections.filter(c => c.id !== action.payload),
-        videos: state.videos.filter(v => v.collectionId !== action.payload)
+        videos: state.videos.filter(v => v.collectionId !== action.payload),
+        playlists: state.playlists.map(p => ({ ...p, videoIds: p.videoIds.filter(id => !removed.has(id)) }))
+      };
+    }
+    case 'UPDATE_COLLECTION':
+      return {
+        ...state,
+        collections: state.collections.map(c => c.id === action.payload.id ? { ...c, ...action.payload.changes } : c)
       };
-    case 'ADD_VIDEOS':
-      // Update collection thumbnail if needed
-      const newState = { ...state, videos: [...state.videos, ...action.payload] };
-      const collectionIds = Array.from(new Set(action.payload.map(v => v.collectionId)));
-      const updatedCollections = state.collections.map(c => {
-        if (collectionIds.includes(c.id) && !c.thumbnailUrl) {
-          const video = action.payload.find(v => v.collectionId === c.id && v.thumbnailUrl);
-          if (video) return { ...c, thumbnailUrl: video.thumbnailUrl };
+    case 'APPLY_SCAN': {
+      const { collectionId, root, source, diff, added } = action.payload;
+      const relinked = new Map([...diff.found, ...diff.moved].map(m => [m.id, m.source]));
+      const missing = new Set(diff.missingIds);
+
+      const videos = state.videos.map(v => {
+        const match = relinked.get(v.id);
+        if (match) {
+          return {
+            ...v,
+            fileName: match.name,
+            relativePath: match.relativePath,
+            libraryRoot: root,
+            fileHandle: match.file,
+            fingerprint: v.fingerprint || diff.fingerprints[match.relativePath],
+            missing: false
+          };
         }
-        return c;
+        if (missing.has(v.id)) return { ...v, fileHandle: null, missing: true };
+        return v;
       });
-      return { ...newState, collections: updatedCollections };
-    case 'UPDATE_VIDEO':
+
+      // Remember the source folder and update collection thumbnail if needed
+      const collections = state.collections.map(c => {
+        if (c.id !== collectionId) return c;
+        const sources = c.sources || [];
+        const existing = sources.find(s =>
+          s.folderName === source.folderName && (!s.folderPath || !source.folderPath || s.folderPath === source.folderPath));
+        const thumbnailUrl = c.thumbnailUrl || added.find(v => v.thumbnailUrl)?.thumbnailUrl || null;
+        return {
+          ...c,
+          thumbnailUrl,
+          sources: existing
+            ? sources.map(s => s === existing ? { ...s, folderPath: s.folderPath || source.folderPath } : s)
+            : [...sources, source]
+        };
+      });
+
+      const addedWithFingerprints = added.map(v => ({
+        ...v,
+        fingerprint: diff.fingerprints[v.relativePath],
+        metadata: { ...v.metadata, tags: normalizeTags(v.metadata.tags, state.tagAliases) }
+      }));
+      return { ...state, collections, videos: [...videos, ...addedWithFingerprints] };
+    }
+    case 'UPDATE_VIDEO': {
+      const metadata = action.payload.metadata.tags
+        ? { ...action.payload.metadata, tags: normalizeTags(action.payload.metadata.tags, state.tagAliases) }
+        : action.payload.metadata;
       return {
         ...state,
         videos: state.videos.map(v => 
-          v.id === action.payload.id ? { ...v, metadata: { ...v.metadata, ...action.payload.metadata } } : v
+          v.id === action.payload.id ? { ...v, metadata: { ...v.metadata, ...metadata } } : v
         )
       };
+    }
+    case 'UPDATE_SUBTITLE_TRACK': {
+      const { videoId, index, changes } = action.payload;
+      return {
+        ...state,
+        videos: state.videos.map(v => v.id === videoId
+          ? { ...v, subtitles: v.subtitles.map((t, i) => i === index ? { ...t, ...changes } : t) }
+          : v)
+      };
+    }
+    case 'RECORD_PLAYBACK': {
+      const progress = action.payload;
+      return {
+        ...state,
+        videos: state.videos.map(v => {
+          if (v.id !== progress.videoId) return v;
+          // The player knows the real duration, keep it for filters and progress bars
+          const metadata = progress.duration > 0 && v.metadata.duration !== progress.duration
+            ? { ...v.metadata, duration: progress.duration }
+            : v.metadata;
+          return { ...v, metadata, history: applyProgress(v.history, progress) };
+        })
+      };
+    }
+    case 'SET_SHUFFLE_MODE':
+      return { ...state, shuffleMode: action.payload };
+    case 'MARK_SHUFFLE_PLAYED': {
+      const { scopeKey, videoId } = action.payload;
+      const played = state.shuffleHistory[scopeKey] || [];
+      if (played.includes(videoId)) return state;
+      return { ...state, shuffleHistory: { ...state.shuffleHistory, [scopeKey]: [...played, videoId] } };
+    }
+    case 'RESET_SHUFFLE_CYCLE': {
+      const { [action.payload]: _reset, ...rest } = state.shuffleHistory;
+      return { ...state, shuffleHistory: rest };
+    }
+    case 'CREATE_PLAYLIST':
+      return { ...state, playlists: [...state.playlists, action.payload] };
+    case 'UPDATE_PLAYLIST':
+      return {
+        ...state,
+        playlists: state.playlists.map(p => p.id === action.payload.id ? { ...p, ...action.payload.changes } : p)
+      };
+    case 'DELETE_PLAYLIST':
+      return { ...state, playlists: state.playlists.filter(p => p.id !== action.payload) };
+    case 'SAVE_SMART_COLLECTION': {
+      // Creates or replaces
+      const smart = action.payload;
+      const exists = state.smartCollections.some(s => s.id === smart.id);
+      return {
+        ...state,
+        smartCollections: exists
+          ? state.smartCollections.map(s => s.id === smart.id ? smart : s)
+          : [...state.smartCollections, smart]
+      };
+    }
+    case 'DELETE_SMART_COLLECTION':
+      return { ...state, smartCollections: state.smartCollections.filter(s => s.id !== action.payload) };
+    case 'RENAME_TAGS': {
+      // Also used for merging. The old names become aliases so re-imports don't bring them back.
+      const { from, to } = action.payload;
+      const renamed = from.filter(f => f !== to);
+      const tagAliases = Object.fromEntries(
+        Object.entries(state.tagAliases).map(([alias, tag]) => [alias, renamed.includes(tag) ? to : tag])
+      );
+      renamed.forEach(f => { tagAliases[f] = to; });
+      return {
+        ...state,
+        videos: renameTagsInVideos(state.videos, renamed, to),
+        tagAliases,
+        smartCollections: state.smartCollections.map(smart => ({
+          ...smart,
+          rules: smart.rules.map(r => r.field === 'tag' && renamed.includes(r.value) ? { ...r, value: to } : r)
+        }))
+      };
+    }
+    case 'DELETE_TAG':
+      return {
+        ...state,
+        videos: deleteTagInVideos(state.videos, action.payload),
+        tagAliases: Object.fromEntries(Object.entries(state.tagAliases).filter(([, tag]) => !isTagOrChild(tag, action.payload)))
+      };
+    case 'BULK_EDIT':
+      return applyBulkOperation(state, action.payload.ids, action.payload.operation);
+    case 'UNDO_BULK_EDIT':
+      return undoBulkEdit(state, action.payload);
+    case 'SET_TAG_ALIAS': {
+      const { alias, tag } = action.payload;
+      const tagAliases = { ...state.tagAliases };
+      if (tag) tagAliases[alias] = tag;
+      else delete tagAliases[alias];
+      return { ...state, tagAliases };
+    }
+    case 'ADD_TO_PLAYLIST': {
+      const { playlistId, videoIds } = action.payload;
+      return {
+        ...state,
+        playlists: state.playlists.map(p => p.id === playlistId
+          ? { ...p, videoIds: [...p.videoIds, ...videoIds.filter(id => !p.videoIds.includes(id))] }
+          : p)
+      };
+    }
+    case 'REMOVE_FROM_PLAYLIST': {
+      const { playlistId, videoId } = action.payload;
+      return {
+        ...state,
+        playlists: state.playlists.map(p => p.id === playlistId ? { ...p, videoIds: p.videoIds.filter(id => id !== videoId) } : p)
+      };
+    }
     case 'LOAD_STATE':
       return action.payload;
     case 'UPDATE_PATHS': {
-      // Re-linking logic: Match existing videos by relativePath to new Files
-      // Note: Browsers using webkitdirectory give relativePath in file.webkitRelativePath
-      const fileMap = new Map<string, File>();
-      Array.from(action.payload.files).forEach(f => {
-         // Normalized key: try to match end of path or full relative path
-         fileMap.set(f.webkitRelativePath || f.name, f);
-      });
-      
+      // Apply a relink plan the user reviewed in RelinkDialog
+      const { root, resolutions } = action.payload;
+      const byVideo = new Map(resolutions.map(r => [r.videoId, r]));
       const relinkedVideos = state.videos.map(v => {
-        // Try exact match
-        let handle = fileMap.get(v.relativePath);
-        // Loose match if exact fail (e.g. if root folder name changed)
-        if (!handle) {
-           const fileName = v.relativePath.split('/').pop();
-           for(const [path, file] of fileMap.entries()) {
-             if (path.endsWith(fileName || '')) {
-               handle = file;
-               break;
-             }
-           }
-        }
-        
-        // Also re-link subtitles if possible (VideoAsset structure implies internal file storage, but we store File objects which are lost on refresh)
-        // For simple re-linking, we might miss new subtitles unless we re-scan. 
-        // Current implementation just re-links the main video file handle.
-        // To properly re-link subtitles, we'd need to store their relative paths too.
-        // For this version, let's assume relink main video is priority.
-        
-        return handle ? { ...v, fileHandle: handle } : v;
+        const resolution = byVideo.get(v.id);
+        if (!resolution) return v;
+        const { source, subtitles } = resolution;
+        return { ...v, fileName: source.name, relativePath: source.relativePath, libraryRoot: root, fileHandle: source.file, subtitles, missing: false };
       });
 
       return { ...state, videos: relinkedVideos };
@@ -92,36 +266,147 @@ function reducer(state: typeof initialState, action: Action) {
 
 export default function App() {
   const [state, dispatch] = useReducer(reducer, initialState);
-  const [selectedCollectionId, setSelectedCollectionId] = useState<string | null>(null);
+  const [view, setView] = useState<LibraryView>({ kind: 'all' });
+  const selectedCollectionId = view.kind === 'collection' ? view.id : null;
   const [selectedVideo, setSelectedVideo] = useState<VideoAsset | null>(null);
-  const [playerVideo, setPlayerVideo] = useState<VideoAsset | null>(null);
-  const [playQueue, setPlayQueue] = useState<VideoAsset[]>([]);
+  const [playback, setPlayback] = useState<PlaybackState>(IDLE_PLAYBACK);
+  const playerVideo = state.videos.find(v => v.id === playback.currentVideoId) || null;
+  const activePlaylist = state.playlists.find(p => p.id === playback.playlistId) || null;
   
-  // Tag Filter State
-  const [selectedTags, setSelectedTags] = useState<string[]>([]);
-
-  // Derived state: Visible Videos (Unfiltered by search/tags, but filtered by collection)
+  // Filter State
+  const [tagFilter, setTagFilter] = useState<TagFilter>(EMPTY_TAG_FILTER);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [sort, setSort] = useState<VideoSort | null>(null);
+  const [fieldFilter, setFieldFilter] = useState<VideoFieldFilter>(NO_FIELD_FILTER);
+
+  // Persistence: restore the saved library once, then autosave (debounced) on every change.
+  // Saving is held back until the restore finished so an empty initial state never overwrites the stored library.
+  const [isHydrated, setIsHydrated] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadLibrary()
+      .then(saved => {
+        if (saved && !cancelled) dispatch({ type: 'LOAD_STATE', payload: saved });
+      })
+      .catch(e => console.error("Failed to restore library:", e))
+      .finally(() => { if (!cancelled) setIsHydrated(true); });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    if (isHydrated) scheduleLibrarySave(state);
+  }, [state, isHydrated]);
+
+  useEffect(() => {
+    const handleBeforeUnload = () => { flushLibrarySave(); };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, []);
+
+  // Series are derived from episode metadata (or paths) over the whole library
+  const allSeries = useMemo(() => groupSeries(state.videos), [state.videos]);
+  const currentSeries = view.kind === 'show' ? allSeries.find(s => s.key === view.id) : undefined;
+
+  // Derived state: Visible Videos (Unfiltered by search/tags, but filtered by the current view)
   const visibleVideos = useMemo(() => {
-     return selectedCollectionId 
-      ? state.videos.filter(v => v.collectionId === selectedCollectionId)
-      : state.videos;
-  }, [state.videos, selectedCollectionId]);
-
-  // Derived state: All available tags in the current view
-  const allTags = useMemo(() => {
-    const tags = new Set<string>();
-    visibleVideos.forEach(v => v.metadata.tags.forEach(t => tags.add(t)));
-    return Array.from(tags).sort();
-  }, [visibleVideos]);
+    switch (view.kind) {
+      case 'collection': return state.videos.filter(v => v.collectionId === view.id);
+      case 'smart': {
+        const smart = state.smartCollections.find(s => s.id === view.id);
+        return smart ? smartCollectionVideos(state.videos, smart, state.collections) : [];
+      }
+      case 'recent': return recentlyPlayed(state.videos);
+      case 'continue': return continueWatching(state.videos);
+      case 'playlist': {
+        const byId = new Map(state.videos.map(v => [v.id, v]));
+        const playlist = state.playlists.find(p => p.id === view.id);
+        return (playlist?.videoIds || []).map(id => byId.get(id)).filter((v): v is VideoAsset => !!v);
+      }
+      case 'series': return allSeries.flatMap(s => s.episodes);
+      case 'show': return allSeries.find(s => s.key === view.id)?.episodes || [];
+      default: return state.videos;
+    }
+  }, [state.videos, state.playlists, state.smartCollections, state.collections, allSeries, view]);
+
+  // What the grid lists: the view narrowed by the field filter, in the chosen order
+  const displayedVideos = useMemo(
+    () => sortVideos(visibleVideos.filter(v => matchesFieldFilter(v, fieldFilter)), sort),
+    [visibleVideos, fieldFilter, sort]
+  );
+
+  // Derived state: All available tags in the current view (parents of hierarchical tags included)
+  const allTags = useMemo(() => collectTags(visibleVideos), [visibleVideos]);
+
+  const parsedQuery = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+  const searchContext = useMemo(() => createSearchContext(state.collections), [state.collections]);
+  const searchedVideos = useMemo(
+    () => displayedVideos.filter(v => matchesQuery(v, parsedQuery, searchContext)),
+    [displayedVideos, parsedQuery, searchContext]
+  );
+
+  // Final list: what the grid shows and what play/shuffle/next draw from, so they can never disagree
+  const filteredVideos = useMemo(
+    () => searchedVideos.filter(v => matchesTagFilter(v.metadata.tags, tagFilter)),
+    [searchedVideos, tagFilter]
+  );
+
+  // Chip counts. With "all", a chip shows what adding it would leave; with "any", what it would add.
+  const tagCounts = useMemo(
+    () => countTags(tagFilter.mode === 'all' ? filteredVideos : searchedVideos),
+    [tagFilter.mode, filteredVideos, searchedVideos]
+  );
+  const excludedTagCounts = useMemo(() => countTags(searchedVideos), [searchedVideos]);
+
+  // Series overview: every series with at least one episode left by the filters
+  const filteredSeries = useMemo(() => {
+    if (view.kind !== 'series') return [];
+    const visible = new Set(filteredVideos.map(v => v.id));
+    return allSeries.filter(s => s.episodes.some(v => visible.has(v.id)));
+  }, [view.kind, allSeries, filteredVideos]);
+
+  // Multi-select. Only videos still in the filtered list count, so hidden videos are never bulk-edited.
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const selection = useMemo(() => {
+    const visible = new Set(filteredVideos.map(v => v.id));
+    return selectedIds.filter(id => visible.has(id));
+  }, [selectedIds, filteredVideos]);
 
   const currentCollection = state.collections.find(c => c.id === selectedCollectionId);
+  const currentPlaylist = view.kind === 'playlist' ? state.playlists.find(p => p.id === view.id) : undefined;
+  const currentSmartCollection = view.kind === 'smart' ? state.smartCollections.find(s => s.id === view.id) : undefined;
+  const viewTitle = view.kind === 'recent' ? "Recently Played"
+    : view.kind === 'continue' ? "Continue Watching"
+    : view.kind === 'series' ? "TV Series"
+    : currentSeries?.title || currentPlaylist?.name || currentSmartCollection?.name || currentCollection?.name || "All Videos";
+
+  // Smart collection being created or edited in the rule editor
+  const [editingSmartCollection, setEditingSmartCollection] = useState<SmartCollection | null>(null);
+  const libraryTags = useMemo(() => collectTags(state.videos), [state.videos]);
+  const [isTagManagerOpen, setIsTagManagerOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
 
   // --- Handlers ---
 
-  const handleToggleTag = (tag: string) => {
-    setSelectedTags(prev => 
-      prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]
-    );
+  const handleSelectView = (next: LibraryView) => {
+    setView(next);
+    setTagFilter(prev => ({ ...EMPTY_TAG_FILTER, mode: prev.mode }));
+    setSelectedIds([]);
+  };
+
+  const handleCycleTag = (tag: string) => {
+    setTagFilter(prev => cycleTagFilter(prev, tag));
+  };
+
+  // Library-wide tag edits; the tag filter follows renamed tags and forgets deleted ones
+  const handleRenameTags = (from: string[], to: string) => {
+    dispatch({ type: 'RENAME_TAGS', payload: { from, to } });
+    setTagFilter(prev => mapTagFilter(prev, t => from.reduce((tag, f) => renameTagPath(tag, f, to), t)));
+  };
+
+  const handleDeleteTag = (tag: string) => {
+    dispatch({ type: 'DELETE_TAG', payload: tag });
+    setTagFilter(prev => mapTagFilter(prev, t => isTagOrChild(t, tag) ? null : t));
   };
 
   const handleCreateCollection = (name: string) => {
@@ -131,160 +416,120 @@ export default function App() {
     });
   };
 
-  const handleImportFiles = async (fileList: FileList) => {
+  // Latest state for async flows (watcher callbacks, queued scans) that outlive a render
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const scanQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  // Diffs a folder against the collection and applies the result. Importing and rescanning are the
+  // same operation, so re-importing a folder never duplicates videos that are already there.
+  // Scans are queued so two overlapping ones can't both add the same new file.
+  const scanIntoCollection = (collectionId: string, selection: FolderSelection) => {
+    const run = async () => {
+      const diff = await computeScanDiff(stateRef.current.videos, collectionId, selection);
+      const added = diff.added.length > 0
+        ? await importFolder(selection, collectionId, new Set(diff.added.map(f => f.relativePath)))
+        : [];
+      dispatch({ type: 'APPLY_SCAN', payload: { collectionId, root: selection.root, source: sourceOf(selection), diff, added } });
+      return { added: added.length, missing: diff.missingIds.length, moved: diff.moved.length, duplicates: diff.duplicates.length };
+    };
+    const result = scanQueueRef.current.then(run);
+    scanQueueRef.current = result.catch(() => {});
+    return result;
+  };
+
+  const handleImportFiles = async (selection: FolderSelection) => {
     if (!selectedCollectionId) return;
+    const result = await scanIntoCollection(selectedCollectionId, selection);
+    if (result.duplicates > 0) {
+      alert(`${result.duplicates} video(s) were already in the library and were skipped.`);
+    }
+  };
 
-    const files = Array.from(fileList);
-    
-    // Maps for sidecar files
-    const folderImages = new Map<string, Array<{name: string, url: string}>>();
-    const folderSubtitles = new Map<string, Array<File>>();
-
-    // 1. Index images and subtitles
-    for (const file of files) {
-      const pathParts = file.webkitRelativePath.split('/');
-      const dir = pathParts.slice(0, -1).join('/');
-      const nameWithoutExt = file.name.substring(0, file.name.lastIndexOf('.')).toLowerCase();
-
-      if (file.type.startsWith('image/')) {
-        const url = URL.createObjectURL(file);
-        if (!folderImages.has(dir)) folderImages.set(dir, []);
-        folderImages.get(dir)?.push({ name: nameWithoutExt, url });
-      } else if (isSubtitleFile(file)) {
-        if (!folderSubtitles.has(dir)) folderSubtitles.set(dir, []);
-        folderSubtitles.get(dir)?.push(file);
+  // selection is null when the collection's folders can be rescanned in place (Electron)
+  const handleRescanCollection = async (collectionId: string, selection: FolderSelection | null) => {
+    try {
+      let selections = selection ? [selection] : [];
+      if (!selection) {
+        const collection = state.collections.find(c => c.id === collectionId);
+        const folderPaths = (collection?.sources || []).map(s => s.folderPath).filter((p): p is string => !!p);
+        selections = await Promise.all(folderPaths.map(scanFolderSelection));
       }
+      const totals = { added: 0, missing: 0, moved: 0, duplicates: 0 };
+      for (const sel of selections) {
+        const result = await scanIntoCollection(collectionId, sel);
+        totals.added += result.added;
+        totals.missing += result.missing;
+        totals.moved += result.moved;
+        totals.duplicates += result.duplicates;
+      }
+      alert(`Rescan complete: ${totals.added} added, ${totals.moved} moved, ${totals.missing} missing, ${totals.duplicates} duplicates skipped.`);
+    } catch (e) {
+      console.error(e);
+      alert("Rescan failed.");
     }
+  };
 
-    // 2. Process Videos
-    const newVideos: VideoAsset[] = [];
-    
-    for (const file of files) {
-      if (isVideoFile(file)) {
-        const pathParts = file.webkitRelativePath.split('/');
-        const dir = pathParts.slice(0, -1).join('/');
-        const videoNameWithoutExt = file.name.substring(0, file.name.lastIndexOf('.')).toLowerCase();
-
-        // Determine Thumbnail
-        let thumbUrl: string | undefined = undefined;
-        const assetsInFolder = folderImages.get(dir) || [];
-
-        // Priority 1: Specific filenames
-        const priorityNames = ['poster', 'cover', 'folder', 'default'];
-        const priorityMatch = assetsInFolder.find(asset => priorityNames.includes(asset.name));
-        if (priorityMatch) thumbUrl = priorityMatch.url;
-
-        // Priority 2: "poster" in name
-        if (!thumbUrl) {
-          const posterMatch = assetsInFolder.find(asset => asset.name.includes('poster'));
-          if (posterMatch) thumbUrl = posterMatch.url;
-        }
-
-        // Priority 3: Exact name match
-        if (!thumbUrl) {
-          const exactMatch = assetsInFolder.find(asset => asset.name === videoNameWithoutExt);
-          if (exactMatch) thumbUrl = exactMatch.url;
-        }
-
-        // Fallback: Generate
-        if (!thumbUrl) {
-          thumbUrl = await generateVideoThumbnail(file);
-        }
-
-        // Determine Subtitles
-        const subsInFolder = folderSubtitles.get(dir) || [];
-        const matchedSubs = subsInFolder.filter(sub => {
-           const subName = sub.name.toLowerCase();
-           // Exact match base name OR contains base name (e.g. movie.en.srt)
-           return subName.startsWith(videoNameWithoutExt);
-        });
-
-        const subtitleTracks = matchedSubs.map(sub => {
-           // Guess language from filename
-           const parts = sub.name.toLowerCase().split('.');
-           let lang = 'en'; // default
-           if (parts.length > 2) {
-               const possibleLang = parts[parts.length - 2];
-               if (possibleLang.length === 2) lang = possibleLang;
-           }
-           return {
-               label: sub.name,
-               language: lang,
-               fileHandle: sub
-           };
-        });
-
-        // Try to find NFO
-        const nfoFile = files.find(f => {
-            const fName = f.name.toLowerCase();
-            return f.webkitRelativePath.toLowerCase().startsWith(`${dir.toLowerCase()}/${videoNameWithoutExt}`) && fName.endsWith('.nfo');
-        });
-
-        let metadata: VideoMetadata = {
-          title: file.name.substring(0, file.name.lastIndexOf('.')),
-          plot: '',
-          tags: []
-        };
-
-        if (nfoFile) {
-          const nfoData = await parseNFO(nfoFile);
-          metadata = { ...metadata, ...nfoData };
-        }
-
-        newVideos.push({
-          id: generateUUID(),
-          collectionId: selectedCollectionId,
-          fileName: file.name,
-          relativePath: file.webkitRelativePath,
-          fileHandle: file,
-          thumbnailUrl: thumbUrl || null,
-          metadata,
-          size: file.size,
-          subtitles: subtitleTracks
-        });
+  // Watch every source folder we have an absolute path for (Electron only)
+  const watchedFolders = state.collections
+    .flatMap(c => (c.sources || []).map(s => s.folderPath))
+    .filter((p): p is string => !!p);
+  const watchedFoldersKey = Array.from(new Set(watchedFolders)).sort().join('\n');
+
+  useEffect(() => {
+    const bridge = getBridge();
+    if (!bridge || !watchedFoldersKey) return;
+    const folderPaths = watchedFoldersKey.split('\n');
+    folderPaths.forEach(p => bridge.watchFolder(p));
+    return () => folderPaths.forEach(p => { bridge.unwatchFolder(p); });
+  }, [watchedFoldersKey]);
+
+  useEffect(() => {
+    const bridge = getBridge();
+    if (!bridge) return;
+    return bridge.onFolderChanged(async folderPath => {
+      const owners = stateRef.current.collections.filter(c => c.sources?.some(s => s.folderPath === folderPath));
+      if (owners.length === 0) return;
+      try {
+        const selection = await scanFolderSelection(folderPath);
+        for (const c of owners) await scanIntoCollection(c.id, selection);
+      } catch (e) {
+        console.error(`Automatic rescan of ${folderPath} failed:`, e);
       }
-    }
+    });
+  }, []);
 
-    dispatch({ type: 'ADD_VIDEOS', payload: newVideos });
+  // Relinking is a dry run first: build a plan and let the user review it in RelinkDialog
+  const [relinkPlan, setRelinkPlan] = useState<{ selection: FolderSelection; rows: RelinkRow[] } | null>(null);
+
+  const handleUpdatePaths = async (selection: FolderSelection) => {
+    // Only pay for hashing when some video can actually be matched by content
+    const fingerprints = state.videos.some(v => v.fingerprint)
+      ? await fingerprintSources(selection.files.filter(f => isVideoFile(f)), selection.root)
+      : new Map<string, string>();
+    setRelinkPlan({ selection, rows: planRelink(state.videos, selection, fingerprints) });
   };
 
-  const handleUpdatePaths = (files: FileList) => {
-    dispatch({ type: 'UPDATE_PATHS', payload: { files } });
-    alert("Paths updated. Please verify playback.");
+  const handleApplyRelink = (resolutions: RelinkResolution[]) => {
+    if (relinkPlan) {
+      dispatch({ type: 'UPDATE_PATHS', payload: { root: relinkPlan.selection.root, resolutions } });
+    }
+    setRelinkPlan(null);
   };
 
-  const handleExportData = () => {
-    // Strip fileHandles
-    const dataToSave = {
-      collections: state.collections,
-      videos: state.videos.map(v => ({ ...v, fileHandle: null }))
-    };
-    const blob = new Blob([JSON.stringify(dataToSave)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'vidmanager_index.json';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
+  const handleExportData = async () => {
+    // Backup / portability copy of the library; day-to-day persistence is automatic
+    const dataToSave = await serializeLibrary(state);
+    downloadFile('vidmanager_index.json', JSON.stringify(dataToSave), 'application/json');
   };
 
   const handleImportData = async (file: File) => {
     try {
       const text = await file.text();
-      const data = JSON.parse(text);
-      if (data.collections && data.videos) { // Check for legacy 'containers' if strictly renaming? 
-        // Support loading legacy files if needed, but assuming fresh start based on prompt "Change current app"
+      const data = parseLibraryData(JSON.parse(text));
+      if (data) {
         dispatch({ type: 'LOAD_STATE', payload: data });
         alert("Index loaded. Please use 'Update Paths' to re-link video files.");
-      } else if (data.containers) {
-         // Migration for legacy saves if user has old file
-         const migrated = {
-             collections: data.containers.map((c: any) => ({...c, id: c.id})),
-             videos: data.videos.map((v: any) => ({...v, collectionId: v.containerId, subtitles: []}))
-         };
-         dispatch({ type: 'LOAD_STATE', payload: migrated });
-         alert("Legacy Index loaded & migrated. Please use 'Update Paths' to re-link video files.");
       } else {
         alert("Invalid file format.");
       }
@@ -295,95 +540,346 @@ export default function App() {
 
   // --- Playback Logic ---
 
-  const shuffleArray = <T,>(array: T[]): T[] => {
-    return [...array].sort(() => Math.random() - 0.5);
+  // Everything playable right now: exactly what the grid shows (view, field, search and tag filters).
+  // Shared by "play", "shuffle" and "next" so they can never disagree.
+  const playbackScope = filteredVideos;
+
+  // Identifies a scope across sessions for the no-repeat cycle
+  const scopeKey = [
+    'id' in view ? `${view.kind}:${view.id}` : view.kind,
+    [...tagFilter.include].sort().join(','),
+    [...tagFilter.exclude].sort().map(t => `-${t}`).join(','),
+    tagFilter.include.length > 1 ? tagFilter.mode : '',
+    `${fieldFilter.favouritesOnly ? 'fav' : ''}${fieldFilter.minRating || ''}`,
+    searchQuery.trim()
+  ].join('|');
+
+  const buildQueue = (scope: VideoAsset[]): string[] => {
+    const { queue, exhausted } = buildShuffleQueue(scope, {
+      mode: state.shuffleMode,
+      random: createRandom(),
+      played: state.shuffleHistory[scopeKey]
+    });
+    if (exhausted) dispatch({ type: 'RESET_SHUFFLE_CYCLE', payload: scopeKey });
+    return queue.map(v => v.id);
+  };
+
+  const markPlayed = (videoId: string, key: string | null) => {
+    if (key && state.shuffleMode === 'noRepeat') {
+      dispatch({ type: 'MARK_SHUFFLE_PLAYED', payload: { scopeKey: key, videoId } });
+    }
+  };
+
+  const play = (next: Omit<PlaybackState, 'session'>) => setPlayback(prev => ({ ...next, session: prev.session + 1 }));
+
+  const playScopeQueue = ([first, ...rest]: string[]) => {
+    if (!first) {
+      setPlayback(IDLE_PLAYBACK);
+      return;
+    }
+    markPlayed(first, scopeKey);
+    play({ currentVideoId: first, queue: rest, scopeKey, playlistId: null, seriesKey: null });
+  };
+
+  // Playlist play order, optionally starting at a given video (shuffled playlists put it first)
+  const playlistOrder = (playlist: Playlist, startId?: string): string[] => {
+    const known = new Set(state.videos.map(v => v.id));
+    const ids = playlist.videoIds.filter(id => known.has(id));
+    if (playlist.shuffle) {
+      const rest = shuffle(ids.filter(id => id !== startId), createRandom());
+      return startId ? [startId, ...rest] : rest;
+    }
+    return startId ? ids.slice(Math.max(0, ids.indexOf(startId))) : ids;
+  };
+
+  const startPlaylist = (playlistId: string, startId?: string) => {
+    const playlist = state.playlists.find(p => p.id === playlistId);
+    if (!playlist) return;
+    const [first, ...rest] = playlistOrder(playlist, startId);
+    if (!first) return;
+    play({ currentVideoId: first, queue: rest, scopeKey: null, playlistId, seriesKey: null });
   };
 
   const startPlayback = (startVideo: VideoAsset) => {
-    let scope = selectedCollectionId 
-      ? state.videos.filter(v => v.collectionId === selectedCollectionId)
-      : state.videos;
-    
-    if (selectedTags.length > 0) {
-      scope = scope.filter(v => selectedTags.every(t => v.metadata.tags.includes(t)));
-    }
-
-    const others = scope.filter(v => v.id !== startVideo.id);
-    const shuffled = shuffleArray(others);
-    
-    setPlayQueue(shuffled);
-    setPlayerVideo(startVideo);
+    if (view.kind === 'playlist') {
+      startPlaylist(view.id, startVideo.id);
+      return;
+    }
+    // Episodes continue with the rest of their series, in order
+    const series = seriesOfVideo(allSeries, startVideo.id);
+    if (series) {
+      const queue = episodesAfter(series, startVideo.id).map(v => v.id);
+      play({ currentVideoId: startVideo.id, queue, scopeKey: null, playlistId: null, seriesKey: series.key });
+      return;
+    }
+    const others = playbackScope.filter(v => v.id !== startVideo.id);
+    playScopeQueue([startVideo.id, ...buildQueue(others)]);
   };
 
   const startShuffle = () => {
-    let scope = selectedCollectionId 
-      ? state.videos.filter(v => v.collectionId === selectedCollectionId)
-      : state.videos;
-    
-    if (selectedTags.length > 0) {
-      scope = scope.filter(v => selectedTags.every(t => v.metadata.tags.includes(t)));
+    if (view.kind === 'playlist') {
+      startPlaylist(view.id);
+      return;
+    }
+    if (playbackScope.length === 0) return;
+    playScopeQueue(buildQueue(playbackScope));
+  };
+
+  const handleNext = () => {
+    if (playback.queue.length > 0) {
+      const [next, ...rest] = playback.queue;
+      markPlayed(next, playback.scopeKey);
+      play({ ...playback, currentVideoId: next, queue: rest });
+      return;
+    }
+
+    // Last episode of a series
+    if (playback.seriesKey) {
+      setPlayback(IDLE_PLAYBACK);
+      return;
+    }
+
+    // End of a playlist: wrap around for repeat-all, otherwise stop
+    if (activePlaylist) {
+      if (activePlaylist.repeat === 'all') startPlaylist(activePlaylist.id);
+      else setPlayback(IDLE_PLAYBACK);
+      return;
+    }
+
+    // Random queue ran dry: start a fresh round over the current scope
+    if (playbackScope.length > 0) playScopeQueue(buildQueue(playbackScope));
+    else setPlayback(IDLE_PLAYBACK);
+  };
+
+  // --- Bulk Editing ---
+
+  const [undoStack, setUndoStack] = useState<BulkUndo[]>([]);
+  const [bulkProgress, setBulkProgress] = useState<string | null>(null);
+
+  const runBulkOperation = (ids: string[], operation: BulkOperation) => {
+    if (ids.length === 0) return;
+    const undo = captureBulkUndo(stateRef.current, ids, operation);
+    setUndoStack(prev => [...prev.slice(-(UNDO_LIMIT - 1)), undo]);
+    dispatch({ type: 'BULK_EDIT', payload: { ids, operation } });
+    if (operation.kind === 'remove') {
+      setSelectedIds([]);
+      if (selectedVideo && ids.includes(selectedVideo.id)) setSelectedVideo(null);
+    }
+  };
+
+  const handleUndo = () => {
+    const last = undoStack[undoStack.length - 1];
+    if (!last) return;
+    dispatch({ type: 'UNDO_BULK_EDIT', payload: last });
+    setUndoStack(prev => prev.slice(0, -1));
+  };
+
+  const handleRegenerateThumbnails = async () => {
+    const targets = state.videos.filter(v => selection.includes(v.id));
+    const thumbnails: Record<string, string> = {};
+    let unavailable = 0;
+    try {
+      for (let i = 0; i < targets.length; i++) {
+        setBulkProgress(`Generating thumbnails ${i + 1}/${targets.length}…`);
+        const source = openVideoSource(targets[i]);
+        if (!source) {
+          unavailable++;
+          continue;
+        }
+        try {
+          const thumbnail = await generateVideoThumbnail(source.url);
+          if (thumbnail) thumbnails[targets[i].id] = thumbnail;
+        } finally {
+          source.release();
+        }
+      }
+    } finally {
+      setBulkProgress(null);
+    }
+    runBulkOperation(Object.keys(thumbnails), { kind: 'setThumbnails', thumbnails });
+    if (unavailable > 0) {
+      alert(`${unavailable} video(s) were skipped because their files are not available. Use 'Update Paths' to re-link them.`);
+    }
+  };
+
+  const handleExportSelectedNFOs = async () => {
+    const targets = state.videos.filter(v => selection.includes(v.id));
+    for (const video of targets) {
+      downloadFile(nfoFileNameOf(video.fileName), generateNFOContent(video.metadata), 'text/xml');
+      // Browsers drop downloads that are started in the same tick
+      await new Promise(resolve => setTimeout(resolve, 150));
     }
+  };
 
-    if (scope.length === 0) return;
+  // --- Batch Metadata Generation ---
 
-    const shuffled = shuffleArray(scope);
-    const first = shuffled[0];
-    const rest = shuffled.slice(1);
+  const [metadataJob, setMetadataJob] = useState<{ progress: MetadataJobProgress; controller: AbortController } | null>(null);
+  const [metadataReview, setMetadataReview] = useState<MetadataJobResult[] | null>(null);
+
+  // Runs in the background; results wait in the review dialog until the user applies them
+  const startMetadataJob = async (targets: VideoAsset[], refresh = false) => {
+    if (targets.length === 0) return;
+    if (metadataJob) {
+      alert("Metadata generation is already running. Cancel it or wait for it to finish.");
+      return;
+    }
+    const controller = new AbortController();
+    setMetadataJob({ progress: { total: targets.length, done: 0, failed: 0 }, controller });
+    try {
+      const results = await runMetadataJob(targets, {
+        collections: state.collections,
+        refresh,
+        signal: controller.signal,
+        onProgress: (progress) => setMetadataJob({ progress, controller })
+      });
+      if (results.length > 0) setMetadataReview(results);
+    } finally {
+      setMetadataJob(null);
+    }
+  };
 
-    setPlayerVideo(first);
-    setPlayQueue(rest);
+  const handleApplyMetadataReview = (updates: { id: string; metadata: Partial<VideoMetadata> }[]) => {
+    for (const update of updates) {
+      dispatch({ type: 'UPDATE_VIDEO', payload: update });
+    }
+    setMetadataReview(null);
   };
 
-  const handleNextRandom = () => {
-    if (playQueue.length === 0) {
-       let scope = selectedCollectionId 
-          ? state.videos.filter(v => v.collectionId === selectedCollectionId)
-          : state.videos;
-       if (selectedTags.length > 0) {
-          scope = scope.filter(v => selectedTags.every(t => v.metadata.tags.includes(t)));
-       }
-
-       if (scope.length > 0) {
-         const shuffled = shuffleArray(scope);
-         setPlayerVideo(shuffled[0]);
-         setPlayQueue(shuffled.slice(1));
-       } else {
-         setPlayerVideo(null);
-       }
-       return;
-    }
-
-    const next = playQueue[0];
-    setPlayQueue(prev => prev.slice(1));
-    setPlayerVideo(next);
+  // Keyboard: Ctrl/Cmd+A selects everything in the current filter, Escape clears, Ctrl/Cmd+Z undoes a bulk edit
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select') || playback.currentVideoId || view.kind === 'series') return;
+      const mod = e.ctrlKey || e.metaKey;
+      if (mod && e.key.toLowerCase() === 'a') {
+        e.preventDefault();
+        setSelectedIds(filteredVideos.map(v => v.id));
+      } else if (mod && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        handleUndo();
+      } else if (e.key === 'Escape') {
+        setSelectedIds([]);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const handleCreatePlaylist = (name: string) => {
+    dispatch({
+      type: 'CREATE_PLAYLIST',
+      payload: { id: generateUUID(), name, videoIds: [], repeat: 'off', shuffle: false }
+    });
   };
 
   return (
     <div className="flex h-screen w-screen bg-black overflow-hidden relative">
       <Sidebar 
         collections={state.collections}
-        selectedCollectionId={selectedCollectionId}
-        onSelectCollection={(id) => { setSelectedCollectionId(id); setSelectedTags([]); }}
+        view={view}
+        onSelectView={handleSelectView}
         onCreateCollection={handleCreateCollection}
         onDeleteCollection={(id) => dispatch({ type: 'DELETE_COLLECTION', payload: id })}
+        onGenerateCollectionMetadata={(id) => startMetadataJob(state.videos.filter(v => v.collectionId === id))}
         onImportFiles={handleImportFiles}
+        onRescanCollection={handleRescanCollection}
         onExportData={handleExportData}
         onImportData={handleImportData}
         onRelinkFiles={handleUpdatePaths}
+        playlists={state.playlists}
+        onCreatePlaylist={handleCreatePlaylist}
+        onRenamePlaylist={(id, name) => dispatch({ type: 'UPDATE_PLAYLIST', payload: { id, changes: { name } } })}
+        onDeletePlaylist={(id) => {
+          dispatch({ type: 'DELETE_PLAYLIST', payload: id });
+          if (view.kind === 'playlist' && view.id === id) setView({ kind: 'all' });
+        }}
+        onPlayPlaylist={(id) => startPlaylist(id)}
+        smartCollections={state.smartCollections}
+        onEditSmartCollection={(id) => setEditingSmartCollection(
+          id ? state.smartCollections.find(s => s.id === id) || null : createSmartCollection('')
+        )}
+        onDeleteSmartCollection={(id) => {
+          dispatch({ type: 'DELETE_SMART_COLLECTION', payload: id });
+          if (view.kind === 'smart' && view.id === id) setView({ kind: 'all' });
+        }}
         allTags={allTags}
-        selectedTags={selectedTags}
-        onToggleTag={handleToggleTag}
+        tagFilter={tagFilter}
+        tagCounts={tagCounts}
+        excludedTagCounts={excludedTagCounts}
+        onCycleTag={handleCycleTag}
+        onTagFilterChange={setTagFilter}
+        onManageTags={() => setIsTagManagerOpen(true)}
+        onOpenSettings={() => setIsSettingsOpen(true)}
       />
       
       <div className="flex-1 flex flex-col min-w-0 relative">
-        <VideoGrid 
-          videos={visibleVideos}
-          collectionName={currentCollection?.name || "All Videos"}
-          onPlay={startPlayback}
-          onSelect={setSelectedVideo}
-          onShuffle={startShuffle}
-          selectedTags={selectedTags}
+        {view.kind === 'series' ? (
+          <SeriesGrid
+            series={filteredSeries}
+            onOpen={(key) => handleSelectView({ kind: 'show', id: key })}
+            onPlay={(series) => series.nextUp && startPlayback(series.nextUp)}
+          />
+        ) : (
+          <VideoGrid 
+            videos={filteredVideos}
+            collections={state.collections}
+            collectionName={viewTitle}
+            onPlay={startPlayback}
+            onSelect={setSelectedVideo}
+            onShuffle={startShuffle}
+            shuffleMode={state.shuffleMode}
+            onShuffleModeChange={(mode) => dispatch({ type: 'SET_SHUFFLE_MODE', payload: mode })}
+            playlist={currentPlaylist}
+            onUpdatePlaylist={(id, changes) => dispatch({ type: 'UPDATE_PLAYLIST', payload: { id, changes } })}
+            onRemoveFromPlaylist={(playlistId, videoId) => dispatch({ type: 'REMOVE_FROM_PLAYLIST', payload: { playlistId, videoId } })}
+            series={currentSeries}
+            sort={sort}
+            onSortChange={setSort}
+            fieldFilter={fieldFilter}
+            onFieldFilterChange={setFieldFilter}
+            searchQuery={searchQuery}
+            onSearchChange={setSearchQuery}
+            searchErrors={parsedQuery.errors}
+            allTags={allTags}
+            selectedIds={selection}
+            onSelectionChange={setSelectedIds}
+          />
+        )}
+        <BulkActionBar
+          count={selection.length}
+          totalCount={filteredVideos.length}
+          selectionTags={collectTags(state.videos.filter(v => selection.includes(v.id)))}
+          allTags={allTags}
+          collections={state.collections}
+          progress={bulkProgress}
+          undoLabel={undoStack[undoStack.length - 1]?.label || null}
+          onSelectAll={() => setSelectedIds(filteredVideos.map(v => v.id))}
+          onClear={() => setSelectedIds([])}
+          onEdit={(operation) => {
+            if (operation.kind === 'remove' && !confirm(`Remove ${selection.length} video(s) from the library? Files on disk are not touched.`)) return;
+            runBulkOperation(selection, operation);
+          }}
+          onRegenerateThumbnails={handleRegenerateThumbnails}
+          onExportNFOs={handleExportSelectedNFOs}
+          onGenerateMetadata={(refresh) => startMetadataJob(state.videos.filter(v => selection.includes(v.id)), refresh)}
+          onUndo={handleUndo}
         />
+        {metadataJob && (
+          <div className="absolute bottom-20 right-4 z-30 flex items-center gap-3 bg-gray-900 border border-gray-700 rounded-full shadow-2xl px-4 py-2 text-xs text-gray-300">
+            <span className="animate-pulse">
+              Generating info {metadataJob.progress.done}/{metadataJob.progress.total}
+              {metadataJob.progress.failed > 0 && ` (${metadataJob.progress.failed} failed)`}…
+            </span>
+            <button
+              onClick={() => metadataJob.controller.abort()}
+              disabled={metadataJob.controller.signal.aborted}
+              className="text-red-400 hover:text-white transition disabled:opacity-50"
+              title="Stop after the requests already sent; finished results can still be reviewed"
+            >
+              Cancel
+            </button>
+          </div>
+        )}
       </div>
 
       {selectedVideo && (
@@ -391,15 +887,77 @@ export default function App() {
           video={selectedVideo}
           onClose={() => setSelectedVideo(null)}
           onUpdate={(id, meta) => dispatch({ type: 'UPDATE_VIDEO', payload: { id, metadata: meta } })}
+          collections={state.collections}
+          playlists={state.playlists}
+          onAddToPlaylist={(playlistId, videoId) => dispatch({ type: 'ADD_TO_PLAYLIST', payload: { playlistId, videoIds: [videoId] } })}
+        />
+      )}
+
+      {relinkPlan && (
+        <RelinkDialog
+          videos={state.videos}
+          selection={relinkPlan.selection}
+          rows={relinkPlan.rows}
+          onApply={handleApplyRelink}
+          onClose={() => setRelinkPlan(null)}
+        />
+      )}
+
+      {editingSmartCollection && (
+        <SmartCollectionEditor
+          smartCollection={editingSmartCollection}
+          videos={state.videos}
+          collections={state.collections}
+          allTags={libraryTags}
+          onSave={(smart) => {
+            dispatch({ type: 'SAVE_SMART_COLLECTION', payload: smart });
+            setEditingSmartCollection(null);
+            setView({ kind: 'smart', id: smart.id });
+          }}
+          onClose={() => setEditingSmartCollection(null)}
+        />
+      )}
+
+      {isTagManagerOpen && (
+        <TagManager
+          tags={libraryTags}
+          counts={countTags(state.videos)}
+          aliases={state.tagAliases}
+          onRename={handleRenameTags}
+          onDelete={handleDeleteTag}
+          onSetAlias={(alias, tag) => dispatch({ type: 'SET_TAG_ALIAS', payload: { alias, tag } })}
+          onClose={() => setIsTagManagerOpen(false)}
+        />
+      )}
+
+      {metadataReview && (
+        <MetadataReviewDialog
+          videos={state.videos}
+          results={metadataReview}
+          onApply={handleApplyMetadataReview}
+          onClose={() => setMetadataReview(null)}
+        />
+      )}
+
+      {isSettingsOpen && (
+        <SettingsDialog
+          collections={state.collections}
+          onUpdateCollection={(id, changes) => dispatch({ type: 'UPDATE_COLLECTION', payload: { id, changes } })}
+          onClose={() => setIsSettingsOpen(false)}
         />
       )}
 
       {playerVideo && (
         <PlayerOverlay 
           video={playerVideo} 
-          onClose={() => setPlayerVideo(null)} 
-          onNextRandom={handleNextRandom}
-          hasQueue={true}
+          session={playback.session}
+          onClose={() => setPlayback(IDLE_PLAYBACK)} 
+          onNext={handleNext}
+          nextLabel={activePlaylist ? "Next" : playback.seriesKey ? "Next Episode" : "Next Random"}
+          loop={activePlaylist?.repeat === 'one'}
+          onProgress={(progress) => dispatch({ type: 'RECORD_PLAYBACK', payload: progress })}
+          onUpdateSubtitleTrack={(index, changes) => dispatch({ type: 'UPDATE_SUBTITLE_TRACK', payload: { videoId: playerVideo.id, index, changes } })}
+          hasQueue={activePlaylist ? playback.queue.length > 0 || activePlaylist.repeat === 'all' : !playback.seriesKey || playback.queue.length > 0}
         />
       )}
     </div>
@@ -0,0 +1,168 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AssEvent, AssScript, AssSpan, cssColour, fadeOpacityAt, positionAt } from '../services/assParser';
+import { useVideoRect } from './useVideoRect';
+
+interface AssSubtitleLayerProps {
+  script: AssScript;
+  videoRef: React.RefObject<HTMLVideoElement>;
+}
+
+// Numpad alignment -> column 0-2 (left to right) and row 0-2 (bottom to top)
+const columnOf = (alignment: number) => (alignment - 1) % 3;
+const rowOf = (alignment: number) => Math.floor((alignment - 1) / 3);
+
+const OUTLINE_DIRECTIONS = [[1, 0], [0.71, 0.71], [0, 1], [-0.71, 0.71], [-1, 0], [-0.71, -0.71], [0, -1], [0.71, -0.71]];
+
+const spanStyleOf = (span: AssSpan, event: AssEvent, time: number, scale: number): React.CSSProperties => {
+  const s = span.style;
+  // Karaoke: syllables still to come use the secondary colour
+  const sung = !span.karaoke || time - event.start >= span.karaoke.start;
+  const fill = sung ? s.primaryColour : s.secondaryColour;
+  const outline = s.outline * scale;
+  const shadow = s.shadow * scale;
+  const blur = s.blur * scale;
+  const shadows: string[] = [];
+  if (event.borderStyle !== 3 && outline > 0) {
+    OUTLINE_DIRECTIONS.forEach(([x, y]) => shadows.push(`${(x * outline).toFixed(1)}px ${(y * outline).toFixed(1)}px ${blur}px ${cssColour(s.outlineColour)}`));
+  }
+  if (shadow > 0) shadows.push(`${shadow}px ${shadow}px ${blur}px ${cssColour(s.backColour)}`);
+  return {
+    fontFamily: `"${s.fontName}", sans-serif`,
+    fontSize: `${s.fontSize * scale}px`,
+    fontWeight: s.bold,
+    fontStyle: s.italic ? 'italic' : 'normal',
+    textDecoration: [s.underline && 'underline', s.strikeOut && 'line-through'].filter(Boolean).join(' ') || 'none',
+    letterSpacing: s.spacing ? `${s.spacing * scale}px` : undefined,
+    color: cssColour(fill),
+    textShadow: shadows.join(', ') || 'none',
+    // Opaque box style draws the outline colour behind the text
+    ...(event.borderStyle === 3 ? {
+      backgroundColor: cssColour(s.outlineColour),
+      padding: `0 ${outline}px`,
+      boxDecorationBreak: 'clone' as const,
+      WebkitBoxDecorationBreak: 'clone' as const
+    } : {}),
+    ...(s.scaleX !== 100 || s.scaleY !== 100 ? {
+      display: 'inline-block',
+      transform: `scale(${s.scaleX / 100}, ${s.scaleY / 100})`
+    } : {})
+  };
+};
+
+const renderSpans = (event: AssEvent, time: number, scale: number) =>
+  event.spans.map((span, i) => <span key={i} style={spanStyleOf(span, event, time, scale)}>{span.text}</span>);
+
+// Renders styled ASS/SSA subtitles over the video as positioned DOM, synced to the video clock.
+// Positioned lines (\pos, \move) are placed absolutely; the rest stack per alignment so
+// overlapping dialogue does not pile up on top of itself.
+const AssSubtitleLayer: React.FC<AssSubtitleLayerProps> = ({ script, videoRef }) => {
+  const [time, setTime] = useState(0);
+  const [active, setActive] = useState<AssEvent[]>([]);
+  const rect = useVideoRect(videoRef);
+  const activeKeyRef = useRef('');
+
+  // Redraw only when the set of visible lines changes, or every frame while one is animated
+  useEffect(() => {
+    let frame = 0;
+    const tick = () => {
+      const el = videoRef.current;
+      if (el) {
+        const t = el.currentTime;
+        const visible = script.events.filter(e => e.start <= t && t < e.end);
+        const key = visible.map(e => script.events.indexOf(e)).join(',');
+        if (key !== activeKeyRef.current || visible.some(e => e.animated)) {
+          activeKeyRef.current = key;
+          setActive(visible);
+          setTime(t);
+        }
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [script, videoRef]);
+
+  const { positioned, stacked } = useMemo(() => {
+    const positioned: AssEvent[] = [];
+    const stacked = new Map<number, AssEvent[]>();
+    for (const event of active) {
+      if (event.pos || event.move) positioned.push(event);
+      else stacked.set(event.alignment, [...(stacked.get(event.alignment) || []), event]);
+    }
+    return { positioned: positioned.sort((a, b) => a.layer - b.layer), stacked };
+  }, [active]);
+
+  if (!rect || active.length === 0) return null;
+
+  const scaleX = rect.width / script.playResX;
+  const scaleY = rect.height / script.playResY;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none overflow-hidden" style={{ lineHeight: 1.2 }}>
+      {Array.from(stacked.entries()).map(([alignment, events]) => {
+        const row = rowOf(alignment);
+        const column = columnOf(alignment);
+        const marginV = events[0].marginV * scaleY;
+        return (
+          <div
+            key={alignment}
+            className="absolute flex"
+            style={{
+              left: rect.left,
+              width: rect.width,
+              flexDirection: row === 0 ? 'column-reverse' : 'column',
+              ...(row === 0 ? { bottom: rect.bottom + marginV } : row === 2 ? { top: rect.top + marginV } : { top: rect.top, height: rect.height, justifyContent: 'center' })
+            }}
+          >
+            {events.map(event => (
+              <div
+                key={script.events.indexOf(event)}
+                style={{
+                  alignSelf: ['flex-start', 'center', 'flex-end'][column],
+                  textAlign: (['left', 'center', 'right'] as const)[column],
+                  marginLeft: event.marginL * scaleX,
+                  marginRight: event.marginR * scaleX,
+                  maxWidth: rect.width - (event.marginL + event.marginR) * scaleX,
+                  whiteSpace: event.wrap ? 'pre-wrap' : 'pre',
+                  opacity: fadeOpacityAt(event, time),
+                  transform: event.angle ? `rotate(${-event.angle}deg)` : undefined
+                }}
+              >
+                {renderSpans(event, time, scaleY)}
+              </div>
+            ))}
+          </div>
+        );
+      })}
+
+      {positioned.map(event => {
+        const point = positionAt(event, time)!;
+        const row = rowOf(event.alignment);
+        const column = columnOf(event.alignment);
+        // Anchor the alignment point of the box on the given position, and rotate around it
+        const originX = [0, 50, 100][column];
+        const originY = [100, 50, 0][row];
+        return (
+          <div
+            key={script.events.indexOf(event)}
+            className="absolute"
+            style={{
+              left: rect.left + point.x * scaleX,
+              top: rect.top + point.y * scaleY,
+              zIndex: event.layer + 1,
+              whiteSpace: 'pre',
+              textAlign: (['left', 'center', 'right'] as const)[column],
+              opacity: fadeOpacityAt(event, time),
+              transformOrigin: `${originX}% ${originY}%`,
+              transform: `translate(${-originX}%, ${-originY}%)${event.angle ? ` rotate(${-event.angle}deg)` : ''}`
+            }}
+          >
+            {renderSpans(event, time, scaleY)}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AssSubtitleLayer;
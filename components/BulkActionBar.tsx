@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Collection } from '../types';
+import { BulkOperation } from '../services/bulkEdit';
+import { X, Tag as TagIcon, Star, Heart, FolderInput, Image as ImageIcon, Download, Trash2, Undo2, CheckSquare, Wand2, RefreshCw } from 'lucide-react';
+
+interface BulkActionBarProps {
+  count: number;
+  totalCount: number; // Videos in the current filter
+  selectionTags: string[]; // Tags carried by at least one selected video
+  allTags: string[];
+  collections: Collection[];
+  progress: string | null; // Long-running action in progress
+  undoLabel: string | null;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onEdit: (operation: BulkOperation) => void;
+  onRegenerateThumbnails: () => void;
+  onExportNFOs: () => void;
+  onGenerateMetadata: (refresh: boolean) => void;
+  onUndo: () => void;
+}
+
+const selectClass = "bg-gray-800 border border-gray-700 rounded px-2 py-1.5 text-xs text-gray-200 focus:border-primary focus:outline-none";
+const buttonClass = "flex items-center gap-1.5 px-2.5 py-1.5 text-xs text-gray-200 bg-gray-800 hover:bg-gray-700 rounded transition disabled:opacity-50";
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  count, totalCount, selectionTags, allTags, collections, progress, undoLabel,
+  onSelectAll, onClear, onEdit, onRegenerateThumbnails, onExportNFOs, onGenerateMetadata, onUndo
+}) => {
+  const [newTag, setNewTag] = useState('');
+
+  const addTag = () => {
+    if (newTag.trim()) {
+      onEdit({ kind: 'addTags', tags: [newTag.trim()] });
+      setNewTag('');
+    }
+  };
+
+  // Nothing selected: only offer to undo the last bulk edit
+  if (count === 0) {
+    if (!undoLabel) return null;
+    return (
+      <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20 flex items-center gap-3 bg-gray-900 border border-gray-700 rounded-full shadow-2xl px-4 py-2 text-xs text-gray-300">
+        <span className="truncate max-w-xs">{undoLabel}</span>
+        <button onClick={onUndo} className="flex items-center gap-1 text-primary hover:text-white transition">
+          <Undo2 size={14} /> Undo
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="absolute bottom-4 left-4 right-4 z-20 bg-gray-900/95 backdrop-blur border border-gray-700 rounded-xl shadow-2xl p-3 flex flex-wrap items-center gap-2">
+      <div className="flex items-center gap-2 pr-2 mr-1 border-r border-gray-700">
+        <span className="text-sm font-semibold text-white">{count} selected</span>
+        {count < totalCount && (
+          <button onClick={onSelectAll} className="flex items-center gap-1 text-xs text-primary hover:text-white transition" title="Ctrl+A">
+            <CheckSquare size={12} /> All {totalCount}
+          </button>
+        )}
+        <button onClick={onClear} className="text-gray-500 hover:text-white transition" title="Clear selection (Esc)">
+          <X size={16} />
+        </button>
+      </div>
+
+      {progress ? (
+        <span className="text-xs text-gray-400 animate-pulse">{progress}</span>
+      ) : (
+        <>
+          <div className="flex items-center gap-1">
+            <input
+              type="text"
+              list="bulk-tag-suggestions"
+              value={newTag}
+              onChange={e => setNewTag(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && addTag()}
+              placeholder="Add tag..."
+              className={`${selectClass} w-28`}
+            />
+            <datalist id="bulk-tag-suggestions">
+              {allTags.map(t => <option key={t} value={t} />)}
+            </datalist>
+            <button onClick={addTag} disabled={!newTag.trim()} className={buttonClass} title="Add tag to all selected">
+              <TagIcon size={12} />
+            </button>
+          </div>
+
+          {selectionTags.length > 0 && (
+            <select
+              value=""
+              onChange={e => e.target.value && onEdit({ kind: 'removeTags', tags: [e.target.value] })}
+              className={selectClass}
+            >
+              <option value="">Remove tag…</option>
+              {selectionTags.map(t => <option key={t} value={t}>{t}</option>)}
+            </select>
+          )}
+
+          <div className="flex items-center gap-1">
+            <Star size={12} className="text-yellow-400" />
+            <select
+              value=""
+              onChange={e => e.target.value && onEdit({ kind: 'setRating', rating: Number(e.target.value) || undefined })}
+              className={selectClass}
+            >
+              <option value="">Rate…</option>
+              {[5, 4, 3, 2, 1].map(n => <option key={n} value={n}>{'★'.repeat(n)}</option>)}
+              <option value="0">No rating</option>
+            </select>
+          </div>
+
+          <button onClick={() => onEdit({ kind: 'setFavourite', favourite: true })} className={buttonClass} title="Mark as favourites">
+            <Heart size={12} className="text-red-400" />
+          </button>
+
+          <div className="flex items-center gap-1">
+            <FolderInput size={12} className="text-gray-400" />
+            <select
+              value=""
+              onChange={e => e.target.value && onEdit({ kind: 'move', collectionId: e.target.value })}
+              className={selectClass}
+            >
+              <option value="">Move to…</option>
+              {collections.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+          </div>
+
+          <button onClick={onRegenerateThumbnails} className={buttonClass}>
+            <ImageIcon size={12} /> Thumbnails
+          </button>
+          <button onClick={onExportNFOs} className={buttonClass}>
+            <Download size={12} /> NFOs
+          </button>
+          <button onClick={() => onGenerateMetadata(false)} className={buttonClass} title="Generate title, plot and tags, then review before applying">
+            <Wand2 size={12} /> Generate info
+          </button>
+          <button onClick={() => onGenerateMetadata(true)} className={buttonClass} title="Regenerate (ignore cache): ask the provider again even for videos it has already answered">
+            <RefreshCw size={12} /> Regenerate
+          </button>
+          <button onClick={() => onEdit({ kind: 'remove' })} className={`${buttonClass} hover:bg-red-900 text-red-300`}>
+            <Trash2 size={12} /> Remove
+          </button>
+        </>
+      )}
+
+      {undoLabel && !progress && (
+        <button onClick={onUndo} className="ml-auto flex items-center gap-1 text-xs text-gray-400 hover:text-white transition" title={`Undo: ${undoLabel} (Ctrl+Z)`}>
+          <Undo2 size={14} /> Undo
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default BulkActionBar;
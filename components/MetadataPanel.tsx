@@ -1,19 +1,25 @@
 import React, { useState, useEffect } from 'react';
-import { VideoAsset } from '../types';
-import { X, Wand2, Save, Download, Plus, Tag as TagIcon, Image as ImageIcon } from 'lucide-react';
-import { generateVideoMetadata } from '../services/geminiService';
-import { generateNFOContent } from '../services/fileUtils';
+import { Collection, Playlist, VideoAsset } from '../types';
+import { X, Wand2, Save, Download, Plus, Tag as TagIcon, Image as ImageIcon, ListPlus, Heart, Star } from 'lucide-react';
+import { generateVideoMetadata } from '../services/metadataProvider';
+import { mergedTagsOf } from '../services/metadataJobs';
+import { downloadFile, nfoFileNameOf } from '../services/fileUtils';
+import { generateNFOContent } from '../services/nfo';
+import { describeRelease } from '../services/filenameParser';
 
 interface MetadataPanelProps {
   video: VideoAsset | null;
   onClose: () => void;
   onUpdate: (id: string, updates: Partial<VideoAsset['metadata']>) => void;
+  collections: Collection[];
+  playlists: Playlist[];
+  onAddToPlaylist: (playlistId: string, videoId: string) => void;
 }
 
-const MetadataPanel: React.FC<MetadataPanelProps> = ({ video, onClose, onUpdate }) => {
+const MetadataPanel: React.FC<MetadataPanelProps> = ({ video, onClose, onUpdate, collections, playlists, onAddToPlaylist }) => {
   const [isGenerating, setIsGenerating] = useState(false);
-  const [formData, setFormData] = useState<{title: string, plot: string, tags: string[]}>({
-    title: '', plot: '', tags: []
+  const [formData, setFormData] = useState<{title: string, plot: string, tags: string[], year?: number, rating?: number, favourite: boolean, note: string, showTitle?: string, season?: number, episode?: number}>({
+    title: '', plot: '', tags: [], favourite: false, note: ''
   });
   const [newTag, setNewTag] = useState('');
 
@@ -22,24 +28,35 @@ const MetadataPanel: React.FC<MetadataPanelProps> = ({ video, onClose, onUpdate
       setFormData({
         title: video.metadata.title || video.fileName,
         plot: video.metadata.plot,
-        tags: [...video.metadata.tags]
+        tags: [...video.metadata.tags],
+        year: video.metadata.year,
+        rating: video.metadata.rating,
+        favourite: !!video.metadata.favourite,
+        note: video.metadata.note || '',
+        showTitle: video.metadata.showTitle,
+        season: video.metadata.season,
+        episode: video.metadata.episode
       });
     }
   }, [video]);
 
   if (!video) return null;
 
-  const handleAI = async () => {
+  const handleAI = async (refresh: boolean) => {
     setIsGenerating(true);
     try {
-      const result = await generateVideoMetadata(video.fileName);
-      setFormData({
-        title: result.title,
-        plot: result.plot,
-        tags: result.tags
+      const result = await generateVideoMetadata(video, undefined, {
+        refresh,
+        collection: collections.find(c => c.id === video.collectionId)
       });
+      setFormData(prev => ({
+        ...prev,
+        title: result.title,
+        plot: result.plot || prev.plot,
+        tags: mergedTagsOf(prev.tags, result.tags)
+      }));
     } catch (e) {
-      alert("Failed to generate metadata. Ensure API Key is set.");
+      alert(`Failed to generate metadata: ${e instanceof Error ? e.message : e}`);
     } finally {
       setIsGenerating(false);
     }
@@ -50,16 +67,7 @@ const MetadataPanel: React.FC<MetadataPanelProps> = ({ video, onClose, onUpdate
   };
 
   const handleExportNFO = () => {
-    const content = generateNFOContent({ ...video.metadata, ...formData });
-    const blob = new Blob([content], { type: 'text/xml' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${video.fileName.substring(0, video.fileName.lastIndexOf('.')) || video.fileName}.nfo`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadFile(nfoFileNameOf(video.fileName), generateNFOContent({ ...video.metadata, ...formData }), 'text/xml');
   };
 
   const addTag = () => {
@@ -101,14 +109,24 @@ const MetadataPanel: React.FC<MetadataPanelProps> = ({ video, onClose, onUpdate
         </div>
 
         {/* AI Action */}
-        <button 
-          onClick={handleAI}
-          disabled={isGenerating}
-          className="w-full py-2 bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-500 hover:to-blue-500 text-white rounded-lg font-medium flex items-center justify-center gap-2 transition disabled:opacity-50"
-        >
-          <Wand2 size={16} className={isGenerating ? "animate-spin" : ""} />
-          {isGenerating ? "Generating..." : "Auto-Generate Info"}
-        </button>
+        <div className="space-y-1">
+          <button 
+            onClick={() => handleAI(false)}
+            disabled={isGenerating}
+            title="Uses the provider chosen in Settings"
+            className="w-full py-2 bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-500 hover:to-blue-500 text-white rounded-lg font-medium flex items-center justify-center gap-2 transition disabled:opacity-50"
+          >
+            <Wand2 size={16} className={isGenerating ? "animate-spin" : ""} />
+            {isGenerating ? "Generating..." : "Auto-Generate Info"}
+          </button>
+          <button
+            onClick={() => handleAI(true)}
+            disabled={isGenerating}
+            className="w-full text-xs text-gray-500 hover:text-gray-300 transition disabled:opacity-50"
+          >
+            Regenerate (ignore cache)
+          </button>
+        </div>
 
         {/* Fields */}
         <div className="space-y-4">
@@ -122,6 +140,70 @@ const MetadataPanel: React.FC<MetadataPanelProps> = ({ video, onClose, onUpdate
             />
           </div>
 
+          <div>
+            <label className="block text-xs font-semibold text-gray-500 uppercase mb-1">Year</label>
+            <input 
+              type="number" 
+              value={formData.year ?? ''}
+              onChange={e => setFormData({...formData, year: e.target.value ? parseInt(e.target.value) : undefined})}
+              placeholder="e.g. 1999"
+              className="w-28 bg-gray-800 border border-gray-700 rounded p-2 text-sm text-white focus:border-primary focus:outline-none"
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-gray-500 uppercase mb-1">Series / Season / Episode</label>
+            <div className="flex gap-2">
+              <input 
+                type="text" 
+                value={formData.showTitle || ''}
+                onChange={e => setFormData({...formData, showTitle: e.target.value || undefined})}
+                placeholder="Not an episode"
+                className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded p-2 text-sm text-white focus:border-primary focus:outline-none"
+              />
+              <input 
+                type="number" 
+                min={0}
+                value={formData.season ?? ''}
+                onChange={e => setFormData({...formData, season: e.target.value ? parseInt(e.target.value) : undefined})}
+                placeholder="S"
+                className="w-14 bg-gray-800 border border-gray-700 rounded p-2 text-sm text-white focus:border-primary focus:outline-none"
+              />
+              <input 
+                type="number" 
+                min={0}
+                value={formData.episode ?? ''}
+                onChange={e => setFormData({...formData, episode: e.target.value ? parseInt(e.target.value) : undefined})}
+                placeholder="E"
+                className="w-14 bg-gray-800 border border-gray-700 rounded p-2 text-sm text-white focus:border-primary focus:outline-none"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-gray-500 uppercase mb-1">Rating</label>
+            <div className="flex items-center gap-1">
+              {[1, 2, 3, 4, 5].map(n => (
+                <button
+                  key={n}
+                  // Clicking the current rating again clears it
+                  onClick={() => setFormData({...formData, rating: formData.rating === n ? undefined : n})}
+                  className="text-yellow-400 hover:scale-110 transition"
+                  title={`${n} star${n === 1 ? '' : 's'}`}
+                >
+                  <Star size={18} fill={(formData.rating || 0) >= n - 0.5 ? 'currentColor' : 'none'} />
+                </button>
+              ))}
+              <button
+                onClick={() => setFormData({...formData, favourite: !formData.favourite})}
+                className={`ml-auto p-1 rounded transition ${formData.favourite ? 'text-red-400' : 'text-gray-600 hover:text-gray-300'}`}
+                title={formData.favourite ? 'Remove from favourites' : 'Mark as favourite'}
+              >
+                <Heart size={18} fill={formData.favourite ? 'currentColor' : 'none'} />
+              </button>
+            </div>
+          </div>
+
           <div>
             <label className="block text-xs font-semibold text-gray-500 uppercase mb-1">Plot</label>
             <textarea 
@@ -157,6 +239,38 @@ const MetadataPanel: React.FC<MetadataPanelProps> = ({ video, onClose, onUpdate
             </div>
           </div>
           
+          <div>
+            <label className="block text-xs font-semibold text-gray-500 uppercase mb-1">Personal Note</label>
+            <textarea 
+              rows={2}
+              value={formData.note}
+              onChange={e => setFormData({...formData, note: e.target.value})}
+              placeholder="Only stored in your library index"
+              className="w-full bg-gray-800 border border-gray-700 rounded p-2 text-sm text-white focus:border-primary focus:outline-none resize-none"
+            />
+          </div>
+
+          {playlists.length > 0 && (
+            <div>
+              <label className="block text-xs font-semibold text-gray-500 uppercase mb-1">Playlists</label>
+              <div className="flex items-center gap-2">
+                <ListPlus size={16} className="text-gray-500 shrink-0" />
+                <select
+                  value=""
+                  onChange={e => e.target.value && onAddToPlaylist(e.target.value, video.id)}
+                  className="flex-1 bg-gray-800 border border-gray-700 rounded p-2 text-sm text-white focus:border-primary focus:outline-none"
+                >
+                  <option value="">Add to playlist…</option>
+                  {playlists.map(p => (
+                    <option key={p.id} value={p.id} disabled={p.videoIds.includes(video.id)}>
+                      {p.name}{p.videoIds.includes(video.id) ? ' (added)' : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
           <div className="pt-4 border-t border-gray-800 space-y-3">
              <div className="text-xs text-gray-500 break-all font-mono">
                Path: {video.relativePath}
@@ -164,6 +278,30 @@ const MetadataPanel: React.FC<MetadataPanelProps> = ({ video, onClose, onUpdate
              <div className="text-xs text-gray-500">
                Size: {(video.size / (1024 * 1024)).toFixed(2)} MB
              </div>
+             {video.metadata.dateAdded && (
+               <div className="text-xs text-gray-500">
+                 Added: {new Date(video.metadata.dateAdded).toLocaleString()}
+               </div>
+             )}
+             {video.metadata.release && describeRelease(video.metadata.release) && (
+               <div className="text-xs text-gray-500">
+                 Release: <span className="text-gray-400">{describeRelease(video.metadata.release)}</span>
+               </div>
+             )}
+             {/* Read from the NFO, written back unchanged on export */}
+             {[
+               ['Original title', video.metadata.originalTitle],
+               ['Director', video.metadata.directors?.join(', ')],
+               ['Studio', video.metadata.studios?.join(', ')],
+               ['Set', video.metadata.set],
+               ['Runtime', video.metadata.runtime && `${video.metadata.runtime} min`],
+               ['Cast', video.metadata.actors?.slice(0, 8).map(a => a.role ? `${a.name} (${a.role})` : a.name).join(', ')],
+               ['IDs', video.metadata.uniqueIds?.map(id => `${id.type}: ${id.value}`).join(', ')]
+             ].filter(([, value]) => value).map(([label, value]) => (
+               <div key={label as string} className="text-xs text-gray-500">
+                 {label}: <span className="text-gray-400">{value}</span>
+               </div>
+             ))}
           </div>
         </div>
       </div>
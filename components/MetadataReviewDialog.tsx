@@ -0,0 +1,166 @@
+import React, { useMemo, useState } from 'react';
+import { VideoAsset, VideoMetadata } from '../types';
+import { FieldChange, MetadataJobResult, ReviewField, diffGeneratedMetadata, metadataUpdateOf } from '../services/metadataJobs';
+import { X, Wand2, AlertTriangle } from 'lucide-react';
+
+interface MetadataReviewDialogProps {
+  videos: VideoAsset[];
+  results: MetadataJobResult[];
+  onApply: (updates: { id: string; metadata: Partial<VideoMetadata> }[]) => void;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<ReviewField, string> = { title: 'Title', plot: 'Plot', tags: 'Tags' };
+
+const renderValue = (change: FieldChange, side: 'before' | 'after') => {
+  const value = change[side];
+  if (!Array.isArray(value)) {
+    return value || <span className="italic text-gray-600">empty</span>;
+  }
+  const before = change.before as string[];
+  return (
+    <div className="flex flex-wrap gap-1">
+      {value.map(tag => (
+        <span
+          key={tag}
+          className={`px-1.5 py-0.5 rounded text-[11px] ${side === 'after' && !before.includes(tag) ? 'bg-green-900/60 text-green-300' : 'bg-gray-800 text-gray-400'}`}
+        >
+          {tag}
+        </span>
+      ))}
+      {value.length === 0 && <span className="italic text-gray-600">none</span>}
+    </div>
+  );
+};
+
+const MetadataReviewDialog: React.FC<MetadataReviewDialogProps> = ({ videos, results, onApply, onClose }) => {
+  const videosById = useMemo(() => new Map(videos.map(v => [v.id, v])), [videos]);
+
+  // Diffed against the library as it is now, not as it was when the job started
+  const rows = useMemo(() => results.flatMap(result => {
+    const video = videosById.get(result.videoId);
+    if (!video || !result.generated) return [];
+    const changes = diffGeneratedMetadata(video.metadata, result.generated);
+    return changes.length > 0 ? [{ video, changes }] : [];
+  }), [results, videosById]);
+  const failures = results.filter(r => r.error);
+  const unchangedCount = results.length - failures.length - rows.length;
+
+  // Accepted fields per video; everything starts accepted
+  const [accepted, setAccepted] = useState<Record<string, Set<ReviewField>>>(() => Object.fromEntries(
+    rows.map(row => [row.video.id, new Set(row.changes.map(c => c.field))])
+  ));
+
+  const acceptedCount = Object.values(accepted).reduce((sum, fields) => sum + fields.size, 0);
+
+  const toggleField = (videoId: string, field: ReviewField) => {
+    setAccepted(prev => {
+      const fields = new Set(prev[videoId]);
+      if (fields.has(field)) fields.delete(field); else fields.add(field);
+      return { ...prev, [videoId]: fields };
+    });
+  };
+
+  const setAll = (on: boolean) => {
+    setAccepted(Object.fromEntries(rows.map(row => [row.video.id, new Set(on ? row.changes.map(c => c.field) : [])])));
+  };
+
+  const handleApply = () => {
+    onApply(rows
+      .map(row => ({ id: row.video.id, metadata: metadataUpdateOf(row.changes, accepted[row.video.id] || new Set()) }))
+      .filter(update => Object.keys(update.metadata).length > 0));
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/70 flex items-center justify-center p-8">
+      <div className="bg-gray-900 border border-gray-700 rounded-xl shadow-2xl w-full max-w-5xl max-h-full flex flex-col">
+        <div className="p-4 border-b border-gray-800 flex items-center justify-between">
+          <div>
+            <h3 className="font-bold text-white flex items-center gap-2"><Wand2 size={18} /> Review Generated Metadata</h3>
+            <p className="text-xs text-gray-500 mt-1">
+              {rows.length} video{rows.length === 1 ? '' : 's'} with changes, {unchangedCount} unchanged, {failures.length} failed.
+              Nothing changes until you apply. New tags are added, existing ones are kept.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition">
+            <X size={20} />
+          </button>
+        </div>
+
+        {rows.length > 0 && (
+          <div className="px-4 py-2 border-b border-gray-800 flex items-center gap-3 text-xs">
+            <button onClick={() => setAll(true)} className="text-primary hover:text-white transition">Select all</button>
+            <button onClick={() => setAll(false)} className="text-gray-400 hover:text-white transition">Select none</button>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="text-xs text-gray-500 uppercase sticky top-0 bg-gray-900">
+              <tr>
+                <th className="w-8" />
+                <th className="text-left font-semibold px-4 py-2 w-20">Field</th>
+                <th className="text-left font-semibold px-4 py-2">Current</th>
+                <th className="text-left font-semibold px-4 py-2">Generated</th>
+              </tr>
+            </thead>
+            {rows.map(({ video, changes }) => (
+              <tbody key={video.id} className="border-t border-gray-700">
+                <tr>
+                  <td colSpan={4} className="px-4 pt-3 pb-1 text-xs text-gray-500 font-mono break-all">{video.relativePath}</td>
+                </tr>
+                {changes.map(change => {
+                  const isAccepted = !!accepted[video.id]?.has(change.field);
+                  return (
+                    <tr key={change.field} className={`align-top ${isAccepted ? '' : 'opacity-50'}`}>
+                      <td className="pl-4 py-1.5">
+                        <input
+                          type="checkbox"
+                          checked={isAccepted}
+                          onChange={() => toggleField(video.id, change.field)}
+                          className="accent-primary"
+                        />
+                      </td>
+                      <td className="px-4 py-1.5 text-xs text-gray-400">{FIELD_LABELS[change.field]}</td>
+                      <td className="px-4 py-1.5 text-gray-400 line-through decoration-gray-600">{renderValue(change, 'before')}</td>
+                      <td className="px-4 py-1.5 text-gray-200">{renderValue(change, 'after')}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            ))}
+          </table>
+          {rows.length === 0 && (
+            <div className="p-8 text-center text-gray-500 text-sm">No changes to review.</div>
+          )}
+          {failures.length > 0 && (
+            <div className="p-4 border-t border-gray-800 space-y-1">
+              {failures.map(f => (
+                <div key={f.videoId} className="flex items-start gap-2 text-xs text-orange-400">
+                  <AlertTriangle size={12} className="mt-0.5 shrink-0" />
+                  <span className="font-mono text-gray-500 break-all">{videosById.get(f.videoId)?.relativePath || f.videoId}</span>
+                  <span>{f.error}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-800 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm rounded transition">
+            Discard
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={acceptedCount === 0}
+            className="px-4 py-2 bg-primary hover:bg-primary-hover text-white text-sm rounded transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Apply {acceptedCount} change{acceptedCount === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MetadataReviewDialog;
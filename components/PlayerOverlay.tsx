@@ -1,15 +1,83 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { VideoAsset } from '../types';
-import { X, SkipForward, Play, Pause, Volume2, VolumeX, Settings, Subtitles, Mic, Maximize, Minimize, Info } from 'lucide-react';
-import { srtToVtt, assToVtt } from '../services/fileUtils';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { SubtitleTiming, SubtitleTrack, VideoAsset } from '../types';
+import { X, SkipForward, Play, Pause, Volume2, VolumeX, Settings, Subtitles, Mic, Maximize, Minimize, Info, RotateCcw, AlertTriangle } from 'lucide-react';
+import { AssScript, assEventText, parseAss } from '../services/assParser';
+import { cleanCueText, cuesToSrt, parseSrt, parseVtt, SubtitleCue, SubtitleParseError } from '../services/srtParser';
+import { decodeText, encodingLabelOf, SUBTITLE_ENCODINGS } from '../services/textEncoding';
+import { describeTiming, isDefaultTiming, NO_TIMING, retimeAssScript, retimeCues } from '../services/subtitleTiming';
+import { downloadFile } from '../services/fileUtils';
+import { loadSubtitleDisplay, saveSubtitleDisplay, SUBTITLE_COLOURS, SUBTITLE_SIZES, SubtitleAppearance, SubtitleDisplaySettings, SubtitleSlot } from '../services/subtitleDisplay';
+import { audioLanguageOf, languageLabelOf, loadSubtitlePreferences, pickDefaultSubtitle, UNKNOWN_LANGUAGE } from '../services/subtitleLanguage';
+import AssSubtitleLayer from './AssSubtitleLayer';
+import TextSubtitleLayer from './TextSubtitleLayer';
+import SubtitleTimingPanel from './SubtitleTimingPanel';
+import { openVideoSource, readSubtitleBytes } from '../services/electronBridge';
+import { PlaybackProgress, resumePositionOf } from '../services/watchHistory';
 
 interface PlayerOverlayProps {
   video: VideoAsset | null;
+  session: number; // Changes on every start, also when the same video plays again
   onClose: () => void;
-  onNextRandom: () => void;
+  onNext: () => void;
+  nextLabel: string;
+  loop: boolean; // Repeat the current video
+  onProgress: (progress: PlaybackProgress) => void;
   hasQueue: boolean;
+  onUpdateSubtitleTrack: (index: number, changes: Partial<Omit<SubtitleTrack, 'fileHandle'>>) => void;
 }
 
+// ASS/SSA tracks are drawn by AssSubtitleLayer, everything else by TextSubtitleLayer
+interface LoadedSubtitle {
+  trackIndex: number; // Into video.subtitles; unreadable tracks are skipped
+  label: string;
+  lang: string;
+  ass?: AssScript;
+  encoding: string; // What the text was decoded with
+  errors: SubtitleParseError[]; // Cues that could not be parsed
+  cues: SubtitleCue[]; // Original times, for syncing and export
+  timing: SubtitleTiming;
+}
+
+const loadSubtitle = async (video: VideoAsset, track: SubtitleTrack, trackIndex: number): Promise<LoadedSubtitle | null> => {
+  let bytes: Uint8Array | null = null;
+  try {
+    bytes = await readSubtitleBytes(video, track);
+  } catch (e) {
+    console.error(`Could not read subtitle ${track.label}:`, e);
+  }
+  if (bytes === null) return null;
+
+  const { text, encoding } = decodeText(bytes, track.encoding);
+  const fileName = track.label.toLowerCase();
+  const timing = track.timing || NO_TIMING;
+  const loaded = { trackIndex, label: track.label, lang: track.language, encoding, timing };
+
+  // Styled formats keep their styling, positions and effects
+  if (fileName.endsWith('.ass') || fileName.endsWith('.ssa')) {
+    const ass = parseAss(text);
+    const cues = ass.events
+      .map(e => ({ start: e.start, end: e.end, text: cleanCueText(assEventText(e)).text }))
+      .filter(c => c.text);
+    return { ...loaded, ass, cues, errors: [] };
+  }
+
+  // Assume VTT unless it is SRT
+  const { cues, errors } = fileName.endsWith('.srt') ? parseSrt(text) : parseVtt(text);
+  if (errors.length > 0) console.warn(`${errors.length} cue(s) in ${track.label} could not be parsed:`, errors);
+  return { ...loaded, cues, errors };
+};
+
+// "Brazilian Portuguese (forced)"; the file name when the language is unknown
+const trackLabelOf = (track: SubtitleTrack) => {
+  const flags = [track.forced && 'forced', track.sdh && 'SDH'].filter(Boolean);
+  const name = track.language === UNKNOWN_LANGUAGE ? track.label : languageLabelOf(track.language);
+  return flags.length > 0 ? `${name} (${flags.join(', ')})` : name;
+};
+
+// Watch history is reported every few seconds of actual playback, and on pause/end/close
+const REPORT_EVERY_SECONDS = 5;
+const RESUME_PROMPT_MS = 10000;
+
 const formatTime = (seconds: number) => {
   if (!seconds || isNaN(seconds)) return "00:00";
   const h = Math.floor(seconds / 3600);
@@ -22,7 +90,7 @@ const formatTime = (seconds: number) => {
   return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
 };
 
-const PlayerOverlay: React.FC<PlayerOverlayProps> = ({ video, onClose, onNextRandom, hasQueue }) => {
+const PlayerOverlay: React.FC<PlayerOverlayProps> = ({ video, session, onClose, onNext, nextLabel, loop, onProgress, hasQueue, onUpdateSubtitleTrack }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -36,28 +104,64 @@ const PlayerOverlay: React.FC<PlayerOverlayProps> = ({ video, onClose, onNextRan
   const controlsTimeoutRef = useRef<number | null>(null);
 
   // Tracks State
-  const [subtitles, setSubtitles] = useState<{label: string, url: string, lang: string}[]>([]);
+  const [subtitles, setSubtitles] = useState<LoadedSubtitle[]>([]);
   const [audioTracks, setAudioTracks] = useState<{id: string, label: string}[]>([]);
   const [activeSubtitleIndex, setActiveSubtitleIndex] = useState<number>(-1); // -1 is off
+  const [secondarySubtitleIndex, setSecondarySubtitleIndex] = useState<number>(-1); // Shown together with the active one
+  const [editingSlot, setEditingSlot] = useState<SubtitleSlot>('primary'); // Which one the settings below adjust
+  const [display, setDisplay] = useState<SubtitleDisplaySettings>(loadSubtitleDisplay);
   const [showSettings, setShowSettings] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const noticeTimeoutRef = useRef<number | null>(null);
+  // Set every render so the keyboard handler (bound once) sees the current tracks
+  const shiftSubtitlesRef = useRef((_delta: number) => {});
+
+  // Watch history tracking
+  const [resumeAt, setResumeAt] = useState<number | null>(null);
+  const onProgressRef = useRef(onProgress);
+  onProgressRef.current = onProgress;
+  const trackerRef = useRef({ lastTime: 0, unreported: 0, started: false });
+
+  const reportProgress = (el: HTMLVideoElement, videoId: string, started = false) => {
+    const tracker = trackerRef.current;
+    if (!tracker.started && !started) return;
+    onProgressRef.current({
+      videoId,
+      position: el.currentTime,
+      duration: isNaN(el.duration) ? 0 : el.duration,
+      watchedDelta: tracker.unreported,
+      started
+    });
+    tracker.unreported = 0;
+  };
+
+  useEffect(() => {
+    if (resumeAt === null) return;
+    const timer = window.setTimeout(() => setResumeAt(null), RESUME_PROMPT_MS);
+    return () => clearTimeout(timer);
+  }, [resumeAt]);
 
   useEffect(() => {
     // Reset state on video change
     setSubtitles([]);
     setAudioTracks([]);
     setActiveSubtitleIndex(-1);
+    setSecondarySubtitleIndex(-1);
+    setEditingSlot('primary');
     setIsPlaying(false);
     setProgress(0);
     setCurrentTime(0);
     setDuration(0);
     setShowSettings(false);
+    trackerRef.current = { lastTime: 0, unreported: 0, started: false };
+    setResumeAt(video ? resumePositionOf(video) : null);
 
     if (video && videoRef.current) {
+      const el = videoRef.current;
       // 1. Load Video
-      let objectUrl = '';
-      if (video.fileHandle) {
-        objectUrl = URL.createObjectURL(video.fileHandle);
-        videoRef.current.src = objectUrl;
+      const source = openVideoSource(video);
+      if (source) {
+        videoRef.current.src = source.url;
         videoRef.current.play().then(() => setIsPlaying(true)).catch(console.error);
       } else {
         alert("Video file not accessible. Please use 'Update Paths' to re-link files.");
@@ -65,51 +169,31 @@ const PlayerOverlay: React.FC<PlayerOverlayProps> = ({ video, onClose, onNextRan
         return;
       }
 
-      // 2. Load Subtitles
+      // 2. Load Subtitles (dropped if the player moved on to another video meanwhile)
+      let cancelled = false;
       const loadSubs = async () => {
-         const subs: {label: string, url: string, lang: string}[] = [];
-         
-         for (const subFile of video.subtitles) {
-            let url = '';
-            const fileName = subFile.fileHandle.name.toLowerCase();
-            const text = await subFile.fileHandle.text();
-            let vttText = "";
-
-            // Convert formats
-            if (fileName.endsWith('.srt')) {
-               vttText = srtToVtt(text);
-            } else if (fileName.endsWith('.ass') || fileName.endsWith('.ssa')) {
-               vttText = assToVtt(text);
-            } else {
-               // Assume VTT
-               url = URL.createObjectURL(subFile.fileHandle);
-            }
-
-            if (vttText) {
-               const blob = new Blob([vttText], { type: 'text/vtt' });
-               url = URL.createObjectURL(blob);
-            } else if (!url) {
-               // Fallback if assumption matched nothing but should have been VTT
-               url = URL.createObjectURL(subFile.fileHandle);
-            }
-            
-            subs.push({
-               label: subFile.label,
-               lang: subFile.language,
-               url
-            });
+         const subs: LoadedSubtitle[] = [];
+         for (const [index, subFile] of video.subtitles.entries()) {
+            const loaded = await loadSubtitle(video, subFile, index);
+            if (loaded) subs.push(loaded);
          }
+         if (cancelled) return;
          setSubtitles(subs);
+         // Turn one on from the language preferences (Settings)
+         const tracks = subs.map(s => video.subtitles[s.trackIndex]);
+         setActiveSubtitleIndex(pickDefaultSubtitle(tracks, loadSubtitlePreferences(), audioLanguageOf(video, el)));
       };
       loadSubs();
 
       return () => {
-        if (objectUrl) URL.revokeObjectURL(objectUrl);
-        // Revoke subtitle URLs
-        subtitles.forEach(s => URL.revokeObjectURL(s.url));
+        cancelled = true;
+        // Final report for the session being closed or replaced
+        reportProgress(el, video.id);
+        source.release();
       };
     }
-  }, [video]);
+    // Keyed by id and session: the asset object is replaced whenever its watch history updates mid-playback
+  }, [video?.id, session]);
 
   // Audio Tracks Detection (Browser Support Dependent)
   useEffect(() => {
@@ -129,8 +213,9 @@ const PlayerOverlay: React.FC<PlayerOverlayProps> = ({ video, onClose, onNextRan
   // Keyboard controls
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      // Don't capture keys if specific inputs are focused (future proofing)
-      
+      // Don't capture keys while typing in the delay field or another form control
+      if ((e.target as HTMLElement).closest('input, textarea, select')) return;
+
       switch(e.key) {
         case ' ':
         case 'k':
@@ -159,6 +244,14 @@ const PlayerOverlay: React.FC<PlayerOverlayProps> = ({ video, onClose, onNextRan
         case 'f':
           toggleFullscreen();
           break;
+        case 'g':
+        case 'G':
+          shiftSubtitlesRef.current(e.shiftKey ? -1 : -0.1);
+          break;
+        case 'h':
+        case 'H':
+          shiftSubtitlesRef.current(e.shiftKey ? 1 : 0.1);
+          break;
       }
     };
 
@@ -202,6 +295,14 @@ const PlayerOverlay: React.FC<PlayerOverlayProps> = ({ video, onClose, onNextRan
     if (videoRef.current) {
       const curr = videoRef.current.currentTime;
       const dur = videoRef.current.duration;
+
+      // Count only continuous playback as watched time; seeks jump by more than a couple of seconds
+      const tracker = trackerRef.current;
+      const delta = curr - tracker.lastTime;
+      if (!videoRef.current.paused && delta > 0 && delta < 2) tracker.unreported += delta;
+      tracker.lastTime = curr;
+      if (video && tracker.unreported >= REPORT_EVERY_SECONDS) reportProgress(videoRef.current, video.id);
+
       setCurrentTime(curr);
       setDuration(dur);
       if (dur > 0) {
@@ -210,6 +311,38 @@ const PlayerOverlay: React.FC<PlayerOverlayProps> = ({ video, onClose, onNextRan
     }
   };
 
+  const handlePlaying = () => {
+    if (video && videoRef.current && !trackerRef.current.started) {
+      trackerRef.current.started = true;
+      reportProgress(videoRef.current, video.id, true);
+    }
+  };
+
+  const handlePause = () => {
+    if (video && videoRef.current) reportProgress(videoRef.current, video.id);
+  };
+
+  const handleEnded = () => {
+    handlePause();
+    // Repeat-one starts over as a new play; the native loop attribute would never fire "ended"
+    if (loop && videoRef.current) {
+      videoRef.current.currentTime = 0;
+      trackerRef.current = { lastTime: 0, unreported: 0, started: false };
+      videoRef.current.play().catch(console.error);
+      return;
+    }
+    if (hasQueue) onNext();
+    else onClose();
+  };
+
+  const handleResume = () => {
+    if (videoRef.current && resumeAt !== null) {
+      videoRef.current.currentTime = resumeAt;
+      trackerRef.current.lastTime = resumeAt;
+    }
+    setResumeAt(null);
+  };
+
   const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (videoRef.current) {
       const time = (parseFloat(e.target.value) / 100) * videoRef.current.duration;
@@ -236,6 +369,54 @@ const PlayerOverlay: React.FC<PlayerOverlayProps> = ({ video, onClose, onNextRan
 
   const toggleSubtitle = (index: number) => {
       setActiveSubtitleIndex(index);
+      if (index === -1 || index === secondarySubtitleIndex) setSecondarySubtitleIndex(-1);
+      setEditingSlot('primary');
+  };
+
+  const updateDisplay = (changes: Partial<SubtitleDisplaySettings>) => {
+    const next = { ...display, ...changes };
+    setDisplay(next);
+    saveSubtitleDisplay(next);
+  };
+
+  const updateAppearance = (slot: SubtitleSlot, changes: Partial<SubtitleAppearance>) =>
+    updateDisplay({ [slot]: { ...display[slot], ...changes } });
+
+  // Re-decodes the track right away and remembers the choice for next time ('' is auto-detect)
+  const handleEncodingChange = async (subIndex: number, encoding: string) => {
+    if (!video) return;
+    const current = subtitles[subIndex];
+    const track = { ...video.subtitles[current.trackIndex], encoding: encoding || undefined };
+    onUpdateSubtitleTrack(current.trackIndex, { encoding: encoding || undefined });
+    const reloaded = await loadSubtitle(video, track, current.trackIndex);
+    if (!reloaded) return;
+    setSubtitles(subs => subs.map((s, i) => i === subIndex ? reloaded : s));
+  };
+
+  const flashNotice = (message: string) => {
+    setNotice(message);
+    if (noticeTimeoutRef.current) clearTimeout(noticeTimeoutRef.current);
+    noticeTimeoutRef.current = window.setTimeout(() => setNotice(null), 1500);
+  };
+
+  // Applied right away and saved with the track
+  const handleTimingChange = (subIndex: number, timing: SubtitleTiming) => {
+    const current = subtitles[subIndex];
+    onUpdateSubtitleTrack(current.trackIndex, { timing: isDefaultTiming(timing) ? undefined : timing });
+    setSubtitles(subs => subs.map((s, i) => i === subIndex ? { ...s, timing } : s));
+  };
+
+  shiftSubtitlesRef.current = (delta: number) => {
+    const current = subtitles[activeSubtitleIndex];
+    if (!current) return;
+    const timing = { ...current.timing, offset: Math.round((current.timing.offset + delta) * 1000) / 1000 };
+    handleTimingChange(activeSubtitleIndex, timing);
+    flashNotice(`Subtitle delay ${describeTiming(timing)}`);
+  };
+
+  const handleExportSubtitle = (sub: LoadedSubtitle) => {
+    const baseName = sub.label.substring(0, sub.label.lastIndexOf('.')) || sub.label;
+    downloadFile(`${baseName}.synced.srt`, cuesToSrt(retimeCues(sub.cues, sub.timing)), 'application/x-subrip');
   };
 
   const toggleAudio = (index: number) => {
@@ -250,6 +431,46 @@ const PlayerOverlay: React.FC<PlayerOverlayProps> = ({ video, onClose, onNextRan
      }
   };
 
+  const activeSubtitle = subtitles[activeSubtitleIndex];
+  const secondarySubtitle = subtitles[secondarySubtitleIndex];
+  const editingIndex = editingSlot === 'secondary' && secondarySubtitle ? secondarySubtitleIndex : activeSubtitleIndex;
+
+  const { textTracks, assScripts } = useMemo(() => {
+    const shown = [
+      { sub: activeSubtitle, appearance: display.primary },
+      { sub: secondarySubtitle, appearance: display.secondary }
+    ].filter(s => s.sub);
+    return {
+      textTracks: shown.filter(s => !s.sub!.ass).map(s => ({ cues: retimeCues(s.sub!.cues, s.sub!.timing), appearance: s.appearance })),
+      assScripts: shown.filter(s => s.sub!.ass).map(s => retimeAssScript(s.sub!.ass!, s.sub!.timing))
+    };
+  }, [activeSubtitle, secondarySubtitle, display]);
+
+  // Study mode: pause as each line of the active track ends, so it can be read (or replayed)
+  useEffect(() => {
+    if (!display.studyMode || !activeSubtitle) return;
+    const cues = retimeCues(activeSubtitle.cues, activeSubtitle.timing);
+    let current: SubtitleCue | undefined;
+    let frame = 0;
+    const tick = () => {
+      const el = videoRef.current;
+      if (el && !el.paused) {
+        const t = el.currentTime;
+        // Only when playback runs off the end of the line, not after a seek past it
+        if (current && t >= current.end && t < current.end + 0.5) {
+          el.pause();
+          setIsPlaying(false);
+          current = undefined;
+        } else {
+          current = cues.find(c => c.start <= t && t < c.end);
+        }
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [display.studyMode, activeSubtitle]);
+
   if (!video) return null;
 
   return (
@@ -264,27 +485,23 @@ const PlayerOverlay: React.FC<PlayerOverlayProps> = ({ video, onClose, onNextRan
             ref={videoRef}
             className="max-w-full max-h-full w-full h-full object-contain"
             onTimeUpdate={handleTimeUpdate}
-            onEnded={hasQueue ? onNextRandom : undefined}
+            onPlaying={handlePlaying}
+            onPause={handlePause}
+            onEnded={handleEnded}
             onClick={togglePlay}
             crossOrigin="anonymous" 
           >
-              {subtitles.map((sub, idx) => (
-                  <track 
-                    key={sub.url} 
-                    kind="subtitles" 
-                    label={sub.label} 
-                    src={sub.url} 
-                    srcLang={sub.lang} 
-                    default={idx === activeSubtitleIndex}
-                    ref={el => {
-                        if(el && el.track) {
-                            el.track.mode = (idx === activeSubtitleIndex) ? 'showing' : 'hidden';
-                        }
-                    }}
-                  />
-              ))}
           </video>
 
+          {assScripts.map((script, i) => <AssSubtitleLayer key={i} script={script} videoRef={videoRef} />)}
+          {textTracks.length > 0 && <TextSubtitleLayer tracks={textTracks} videoRef={videoRef} />}
+
+          {notice && (
+            <div className="absolute top-16 left-1/2 -translate-x-1/2 px-3 py-1 bg-black/70 text-white text-sm rounded pointer-events-none">
+              {notice}
+            </div>
+          )}
+
           {/* Top Bar - Header (Keep as overlay for cleaner look, fades out) */}
           <div className={`absolute top-0 left-0 right-0 p-4 flex justify-between items-start bg-gradient-to-b from-black/80 to-transparent transition-opacity duration-300 pointer-events-none ${controlsVisible ? 'opacity-100' : 'opacity-0'}`}>
             <div className="text-white drop-shadow-md pointer-events-auto">
@@ -295,9 +512,27 @@ const PlayerOverlay: React.FC<PlayerOverlayProps> = ({ video, onClose, onNextRan
             </button>
           </div>
 
+          {/* Resume prompt */}
+          {resumeAt !== null && (
+            <div className="absolute bottom-6 left-6 flex items-center gap-2 bg-gray-900/90 border border-gray-700 rounded-lg p-2 shadow-2xl z-40">
+              <button
+                onClick={handleResume}
+                className="flex items-center gap-2 px-3 py-1.5 bg-primary hover:bg-primary-hover text-white text-sm font-medium rounded transition"
+              >
+                <Play size={14} fill="white" /> Resume from {formatTime(resumeAt)}
+              </button>
+              <button
+                onClick={() => setResumeAt(null)}
+                className="flex items-center gap-2 px-3 py-1.5 text-gray-300 hover:bg-gray-800 text-sm rounded transition"
+              >
+                <RotateCcw size={14} /> Start over
+              </button>
+            </div>
+          )}
+
           {/* Settings Modal (Anchored to bottom right of video area) */}
           {showSettings && (
-              <div className="absolute bottom-4 right-4 bg-gray-900 border border-gray-700 p-4 rounded-xl shadow-2xl w-72 text-sm text-gray-200 z-50">
+              <div className="absolute bottom-4 right-4 bg-gray-900 border border-gray-700 p-4 rounded-xl shadow-2xl w-72 max-h-[calc(100%-2rem)] overflow-y-auto text-sm text-gray-200 z-50">
                 <div className="mb-4">
                     <div className="flex items-center gap-2 mb-2 font-semibold text-white border-b border-gray-700 pb-1">
                       <Subtitles size={16} /> Subtitles
@@ -323,11 +558,137 @@ const PlayerOverlay: React.FC<PlayerOverlayProps> = ({ video, onClose, onNextRan
                             key={idx}
                             onClick={() => toggleSubtitle(idx)} 
                             className={`w-full text-left px-2 py-1 rounded hover:bg-gray-800 ${activeSubtitleIndex === idx ? 'text-primary' : ''}`}
+                            title={sub.label}
                           >
-                            {sub.label}
+                            {trackLabelOf(video.subtitles[sub.trackIndex])}
                           </button>
                       ))}
                     </div>
+
+                    {activeSubtitle && subtitles.length > 1 && (
+                      <label className="mt-2 flex items-center justify-between gap-2 text-xs text-gray-400">
+                        Second subtitle
+                        <select
+                          value={secondarySubtitleIndex}
+                          onChange={e => {
+                            setSecondarySubtitleIndex(Number(e.target.value));
+                            setEditingSlot(Number(e.target.value) === -1 ? 'primary' : 'secondary');
+                          }}
+                          className="bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-gray-200 max-w-[10rem]"
+                        >
+                          <option value={-1}>Off</option>
+                          {subtitles.map((sub, idx) => idx !== activeSubtitleIndex && <option key={idx} value={idx}>{trackLabelOf(video.subtitles[sub.trackIndex])}</option>)}
+                        </select>
+                      </label>
+                    )}
+
+                    {activeSubtitle && (
+                      <label className="mt-2 flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={display.studyMode}
+                          onChange={e => updateDisplay({ studyMode: e.target.checked })}
+                          className="accent-primary"
+                        />
+                        Study mode: pause after each line
+                      </label>
+                    )}
+
+                    {subtitles[editingIndex] && (() => {
+                      const active = subtitles[editingIndex];
+                      const slot: SubtitleSlot = editingIndex === activeSubtitleIndex ? 'primary' : 'secondary';
+                      const appearance = display[slot];
+                      const override = video.subtitles[active.trackIndex]?.encoding || '';
+                      return (
+                        <div className="mt-2 pt-2 border-t border-gray-800 space-y-2">
+                          {secondarySubtitle && (
+                            <div className="flex rounded overflow-hidden border border-gray-700 text-xs">
+                              {(['primary', 'secondary'] as const).map(s => (
+                                <button
+                                  key={s}
+                                  onClick={() => setEditingSlot(s)}
+                                  className={`flex-1 px-2 py-1 truncate ${slot === s ? 'bg-gray-700 text-white' : 'text-gray-400 hover:bg-gray-800'}`}
+                                >
+                                  {trackLabelOf(video.subtitles[(s === 'primary' ? activeSubtitle : secondarySubtitle).trackIndex])}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                          {active.ass ? (
+                            <div className="text-xs text-gray-500 italic">Styled by the subtitle file</div>
+                          ) : (
+                            <div className="space-y-2 text-xs text-gray-400">
+                              <div className="flex items-center justify-between gap-2">
+                                Position
+                                <div className="flex rounded overflow-hidden border border-gray-700">
+                                  {(['top', 'bottom'] as const).map(p => (
+                                    <button
+                                      key={p}
+                                      onClick={() => updateAppearance(slot, { position: p })}
+                                      className={`px-2 py-0.5 capitalize ${appearance.position === p ? 'bg-gray-700 text-white' : 'hover:bg-gray-800'}`}
+                                    >
+                                      {p}
+                                    </button>
+                                  ))}
+                                </div>
+                              </div>
+                              <label className="flex items-center justify-between gap-2">
+                                Size
+                                <select
+                                  value={appearance.size}
+                                  onChange={e => updateAppearance(slot, { size: Number(e.target.value) })}
+                                  className="bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-gray-200"
+                                >
+                                  {SUBTITLE_SIZES.map(size => <option key={size} value={size}>{size}%</option>)}
+                                </select>
+                              </label>
+                              <div className="flex items-center justify-between gap-2">
+                                Colour
+                                <div className="flex gap-1">
+                                  {SUBTITLE_COLOURS.map(c => (
+                                    <button
+                                      key={c.value}
+                                      onClick={() => updateAppearance(slot, { colour: c.value })}
+                                      title={c.label}
+                                      className={`w-5 h-5 rounded-full border-2 ${appearance.colour === c.value ? 'border-primary' : 'border-gray-700'}`}
+                                      style={{ backgroundColor: c.value }}
+                                    />
+                                  ))}
+                                </div>
+                              </div>
+                            </div>
+                          )}
+                          <label className="flex items-center justify-between gap-2 text-xs text-gray-400">
+                            Encoding
+                            <select
+                              value={override}
+                              onChange={e => handleEncodingChange(editingIndex, e.target.value)}
+                              className="bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-gray-200 max-w-[10rem]"
+                            >
+                              <option value="">Auto ({override ? 'detect' : `detected: ${encodingLabelOf(active.encoding)}`})</option>
+                              {SUBTITLE_ENCODINGS.map(e => <option key={e.id} value={e.id}>{e.label}</option>)}
+                            </select>
+                          </label>
+                          {active.errors.length > 0 && (
+                            <div
+                              className="flex items-start gap-2 p-2 bg-yellow-900/30 text-yellow-500 rounded text-xs border border-yellow-900/50"
+                              title={active.errors.map(e => `Line ${e.line}: ${e.reason} (${e.text})`).join('\n')}
+                            >
+                              <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+                              <span>{active.errors.length} cue{active.errors.length === 1 ? '' : 's'} could not be parsed (first at line {active.errors[0].line})</span>
+                            </div>
+                          )}
+                          <SubtitleTimingPanel
+                            key={editingIndex}
+                            cues={active.cues}
+                            timing={active.timing}
+                            currentTime={currentTime}
+                            onChange={timing => handleTimingChange(editingIndex, timing)}
+                            onExport={() => handleExportSubtitle(active)}
+                          />
+                        </div>
+                      );
+                    })()}
                 </div>
 
                 <div>
@@ -412,10 +773,10 @@ const PlayerOverlay: React.FC<PlayerOverlayProps> = ({ video, onClose, onNextRan
           <div className="flex items-center gap-4">
             {hasQueue && (
               <button 
-                onClick={onNextRandom} 
+                onClick={onNext} 
                 className="flex items-center gap-2 px-3 py-1.5 bg-gray-800 hover:bg-gray-700 rounded-lg text-gray-200 text-sm font-medium transition"
               >
-                <span>Next Random</span>
+                <span>{nextLabel}</span>
                 <SkipForward size={16} />
               </button>
             )}
@@ -0,0 +1,165 @@
+import React, { useMemo, useState } from 'react';
+import { FolderSelection, VideoAsset } from '../types';
+import { RelinkRow, RelinkResolution, RelinkMatchKind, relinkSubtitles } from '../services/relink';
+import { isVideoFile } from '../services/fileUtils';
+import { X, Link2, CheckCircle2, AlertTriangle, HelpCircle, XCircle } from 'lucide-react';
+
+interface RelinkDialogProps {
+  videos: VideoAsset[];
+  selection: FolderSelection;
+  rows: RelinkRow[];
+  onApply: (resolutions: RelinkResolution[]) => void;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<RelinkMatchKind, { label: string; className: string; icon: React.ReactNode }> = {
+  content: { label: 'Content match', className: 'text-green-400', icon: <CheckCircle2 size={14} /> },
+  path: { label: 'Exact path', className: 'text-green-400', icon: <CheckCircle2 size={14} /> },
+  filename: { label: 'Filename only', className: 'text-yellow-400', icon: <HelpCircle size={14} /> },
+  none: { label: 'No match', className: 'text-gray-500', icon: <XCircle size={14} /> },
+};
+
+const NO_LINK = '';
+const SHOW_ALL = '__show_all__';
+
+const RelinkDialog: React.FC<RelinkDialogProps> = ({ videos, selection, rows, onApply, onClose }) => {
+  // Chosen relativePath per video ('' = leave as is). Confident matches are pre-accepted,
+  // ambiguous ones start unselected so the user decides.
+  const [choices, setChoices] = useState<Record<string, string>>(() => Object.fromEntries(
+    rows.map(row => [row.videoId, row.candidates.length > 0 && !row.ambiguous ? row.candidates[0].relativePath : NO_LINK])
+  ));
+  const [onlyProblems, setOnlyProblems] = useState(false);
+  // Rows whose picker lists every file in the folder; kept opt-in so big libraries stay responsive
+  const [expandedRows, setExpandedRows] = useState<Set<string>>(() => new Set(
+    rows.filter(r => r.ambiguous).map(r => r.videoId)
+  ));
+
+  const videosById = useMemo(() => new Map(videos.map(v => [v.id, v])), [videos]);
+  const allVideoFiles = useMemo(() => selection.files.filter(f => isVideoFile(f)), [selection]);
+  const filesByPath = useMemo(() => new Map(allVideoFiles.map(f => [f.relativePath, f])), [allVideoFiles]);
+
+  const visibleRows = onlyProblems ? rows.filter(r => r.kind === 'none' || r.kind === 'filename' || r.ambiguous) : rows;
+  const acceptedCount = Object.values(choices).filter(c => c !== NO_LINK).length;
+
+  const counts = rows.reduce((acc, r) => ({ ...acc, [r.kind]: (acc[r.kind] || 0) + 1 }), {} as Record<string, number>);
+
+  const handleApply = () => {
+    const resolutions: RelinkResolution[] = [];
+    for (const row of rows) {
+      const video = videosById.get(row.videoId);
+      const source = filesByPath.get(choices[row.videoId]);
+      if (video && source) {
+        resolutions.push({ videoId: video.id, source, subtitles: relinkSubtitles(video, source, selection) });
+      }
+    }
+    onApply(resolutions);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/70 flex items-center justify-center p-8">
+      <div className="bg-gray-900 border border-gray-700 rounded-xl shadow-2xl w-full max-w-5xl max-h-full flex flex-col">
+        <div className="p-4 border-b border-gray-800 flex items-center justify-between">
+          <div>
+            <h3 className="font-bold text-white flex items-center gap-2"><Link2 size={18} /> Relink Preview</h3>
+            <p className="text-xs text-gray-500 mt-1">
+              {counts.content || 0} by content, {counts.path || 0} by path, {counts.filename || 0} by filename only, {counts.none || 0} unmatched.
+              Nothing changes until you apply.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-4 py-2 border-b border-gray-800 flex items-center gap-2 text-xs text-gray-400">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={onlyProblems} onChange={e => setOnlyProblems(e.target.checked)} className="accent-primary" />
+            Only show rows that need attention
+          </label>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="text-xs text-gray-500 uppercase sticky top-0 bg-gray-900">
+              <tr>
+                <th className="text-left font-semibold px-4 py-2">Video</th>
+                <th className="text-left font-semibold px-4 py-2 w-40">Match</th>
+                <th className="text-left font-semibold px-4 py-2">Link to</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleRows.map(row => {
+                const video = videosById.get(row.videoId);
+                if (!video) return null;
+                const kind = KIND_LABELS[row.kind];
+                const isExpanded = expandedRows.has(row.videoId);
+                const others = isExpanded ? allVideoFiles.filter(f => !row.candidates.includes(f)) : [];
+                return (
+                  <tr key={row.videoId} className="border-t border-gray-800 align-top">
+                    <td className="px-4 py-2">
+                      <div className="text-gray-200 truncate max-w-xs">{video.metadata.title || video.fileName}</div>
+                      <div className="text-xs text-gray-500 font-mono break-all">{video.relativePath}</div>
+                    </td>
+                    <td className="px-4 py-2">
+                      <div className={`flex items-center gap-1 text-xs ${kind.className}`}>{kind.icon} {kind.label}</div>
+                      {row.ambiguous && (
+                        <div className="flex items-center gap-1 text-xs text-orange-400 mt-1">
+                          <AlertTriangle size={12} /> {row.candidates.length} candidates
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-2">
+                      <select
+                        value={choices[row.videoId]}
+                        onChange={e => {
+                          const value = e.target.value;
+                          if (value === SHOW_ALL) {
+                            setExpandedRows(prev => new Set(prev).add(row.videoId));
+                          } else {
+                            setChoices(prev => ({ ...prev, [row.videoId]: value }));
+                          }
+                        }}
+                        className="w-full bg-gray-800 border border-gray-700 rounded p-1.5 text-xs text-gray-200 font-mono focus:border-primary focus:outline-none"
+                      >
+                        <option value={NO_LINK}>— Leave unchanged —</option>
+                        {row.candidates.length > 0 && (
+                          <optgroup label="Candidates">
+                            {row.candidates.map(f => <option key={f.relativePath} value={f.relativePath}>{f.relativePath}</option>)}
+                          </optgroup>
+                        )}
+                        {others.length > 0 && (
+                          <optgroup label="Other files">
+                            {others.map(f => <option key={f.relativePath} value={f.relativePath}>{f.relativePath}</option>)}
+                          </optgroup>
+                        )}
+                        {!isExpanded && <option value={SHOW_ALL}>Pick another file…</option>}
+                      </select>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {visibleRows.length === 0 && (
+            <div className="p-8 text-center text-gray-500 text-sm">Nothing needs attention.</div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-800 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm rounded transition">
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={acceptedCount === 0}
+            className="px-4 py-2 bg-primary hover:bg-primary-hover text-white text-sm rounded transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Relink {acceptedCount} video{acceptedCount === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RelinkDialog;
@@ -0,0 +1,87 @@
+import React, { useMemo, useState } from 'react';
+import { Search, AlertTriangle } from 'lucide-react';
+import { suggestCompletions } from '../services/searchQuery';
+
+interface SearchBoxProps {
+  value: string;
+  onChange: (value: string) => void;
+  tags: string[];
+  collectionNames: string[];
+  errors: string[]; // Terms the query parser could not understand
+}
+
+const SearchBox: React.FC<SearchBoxProps> = ({ value, onChange, tags, collectionNames, errors }) => {
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const suggestions = useMemo(
+    () => suggestCompletions(value, tags, collectionNames),
+    [value, tags, collectionNames]
+  );
+  const isOpen = isFocused && !dismissed && suggestions.length > 0;
+
+  const handleChange = (next: string) => {
+    onChange(next);
+    setHighlighted(0);
+    setDismissed(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted(h => (h + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(h => (h - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      handleChange(suggestions[Math.min(highlighted, suggestions.length - 1)].value);
+    } else if (e.key === 'Escape') {
+      setDismissed(true);
+    }
+  };
+
+  return (
+    <div className="relative flex-1">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" size={18} />
+      <input
+        type="text"
+        placeholder='Search videos... e.g. tag:Action -tag:Kids duration:>30m year:1990..1999'
+        value={value}
+        onChange={(e) => handleChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsFocused(true)}
+        // Delay so a click on a suggestion lands before the list disappears
+        onBlur={() => setTimeout(() => setIsFocused(false), 150)}
+        className="w-full pl-10 pr-10 py-2 bg-gray-900 border border-gray-800 rounded-lg text-gray-200 focus:outline-none focus:border-primary placeholder-gray-600"
+        spellCheck={false}
+      />
+      {errors.length > 0 && (
+        <div className="absolute right-3 top-1/2 -translate-y-1/2 text-yellow-500" title={`Ignored: ${errors.join(', ')}`}>
+          <AlertTriangle size={16} />
+        </div>
+      )}
+
+      {isOpen && (
+        <div className="absolute left-0 right-0 top-full mt-1 bg-gray-900 border border-gray-700 rounded-lg shadow-xl z-30 overflow-hidden">
+          {suggestions.map((s, i) => (
+            <button
+              key={s.value}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => handleChange(s.value)}
+              onMouseEnter={() => setHighlighted(i)}
+              className={`w-full text-left px-3 py-1.5 text-sm flex items-center justify-between gap-4 ${i === highlighted ? 'bg-gray-800 text-white' : 'text-gray-300'}`}
+            >
+              <span className="font-mono truncate">{s.label}</span>
+              {s.detail && <span className="text-xs text-gray-500 truncate">{s.detail}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchBox;
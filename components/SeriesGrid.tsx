@@ -0,0 +1,83 @@
+import React from 'react';
+import { Series, episodeInfoOf, episodeLabel } from '../services/series';
+import { Play, Tv, CheckCircle2 } from 'lucide-react';
+
+interface SeriesGridProps {
+  series: Series[];
+  onOpen: (key: string) => void;
+  onPlay: (series: Series) => void; // Plays the series' next up episode
+}
+
+const SeriesGrid: React.FC<SeriesGridProps> = ({ series, onOpen, onPlay }) => {
+  return (
+    <div className="flex-1 flex flex-col h-full bg-gray-950 overflow-hidden">
+      <div className="p-6 pb-2 shrink-0">
+        <h2 className="text-2xl font-bold text-white flex items-center gap-3">
+          TV Series <span className="text-sm font-normal text-gray-500">({series.length} series)</span>
+        </h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 pt-2">
+        {series.length === 0 ? (
+          <div className="h-full flex flex-col items-center justify-center text-gray-500 text-center">
+            <Tv size={64} className="mb-4 opacity-20" />
+            <p>No series found.</p>
+            <p className="text-xs mt-1">Episodes are detected from names like Show.S01E02.mkv, 1x02 or Show/Season 1/Episode 2.mkv.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 pb-20">
+            {series.map(s => {
+              const nextInfo = s.nextUp && episodeInfoOf(s.nextUp);
+              return (
+                <div
+                  key={s.key}
+                  onClick={() => onOpen(s.key)}
+                  className="group bg-gray-900 rounded-xl overflow-hidden border border-gray-800 hover:border-gray-600 transition-all duration-300 hover:shadow-xl hover:shadow-black/50 hover:-translate-y-1 cursor-pointer"
+                >
+                  <div className="relative aspect-video bg-gray-950">
+                    {s.thumbnailUrl ? (
+                      <img src={s.thumbnailUrl} alt={s.title} className="w-full h-full object-cover" loading="lazy" />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center text-gray-700">
+                        <Tv size={40} />
+                      </div>
+                    )}
+                    <div className="absolute bottom-0 left-0 right-0 h-1 bg-black/60">
+                      <div className="h-full bg-primary" style={{ width: `${(s.watched / s.episodes.length) * 100}%` }} />
+                    </div>
+                    {s.nextUp && (
+                      <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
+                        <button
+                          onClick={(e) => { e.stopPropagation(); onPlay(s); }}
+                          className="bg-primary hover:bg-primary-hover text-white p-3 rounded-full shadow-lg transform transition hover:scale-110"
+                          title="Play next up"
+                        >
+                          <Play size={24} fill="white" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  <div className="p-3 space-y-1">
+                    <div className="font-semibold text-white truncate" title={s.title}>{s.title}</div>
+                    <div className="text-xs text-gray-500">
+                      {s.seasons.length} season{s.seasons.length === 1 ? '' : 's'} · {s.watched}/{s.episodes.length} watched
+                    </div>
+                    {s.nextUp && nextInfo ? (
+                      <div className="text-xs text-gray-300 truncate">
+                        <span className="text-primary font-semibold">Next up</span> {episodeLabel(nextInfo)} · {s.nextUp.metadata.title}
+                      </div>
+                    ) : (
+                      <div className="text-xs text-green-400 flex items-center gap-1"><CheckCircle2 size={12} /> All watched</div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SeriesGrid;
@@ -0,0 +1,267 @@
+import React, { useState } from 'react';
+import { Collection } from '../types';
+import { PROMPT_PRESETS, MetadataContextOptions } from '../services/metadataContext';
+import { METADATA_PROVIDERS, MetadataProviderSettings, clearMetadataCache, loadProviderSettings, metadataCacheSize, providerOf, saveProviderSettings } from '../services/metadataProvider';
+import { ForcedSubtitlePolicy, SubtitlePreferences, languageLabelOf, loadSubtitlePreferences, parseLanguageList, saveSubtitlePreferences } from '../services/subtitleLanguage';
+import { X, Settings, Trash2, Save } from 'lucide-react';
+
+interface SettingsDialogProps {
+  collections: Collection[];
+  onUpdateCollection: (id: string, changes: Partial<Omit<Collection, 'id'>>) => void;
+  onClose: () => void;
+}
+
+const CONTEXT_LABELS: { key: Exclude<keyof MetadataContextOptions, 'frames'>; label: string }[] = [
+  { key: 'folder', label: 'Folder path' },
+  { key: 'collection', label: 'Collection name' },
+  { key: 'nfo', label: 'Existing metadata (NFO)' },
+  { key: 'subtitles', label: 'Subtitle excerpt' }
+];
+
+const FORCED_POLICIES: { value: ForcedSubtitlePolicy; label: string }[] = [
+  { value: 'native-audio', label: 'Only when the audio is in a preferred language' },
+  { value: 'always', label: 'Also when there is no full track' },
+  { value: 'never', label: 'Never' }
+];
+
+const SettingsDialog: React.FC<SettingsDialogProps> = ({ collections, onUpdateCollection, onClose }) => {
+  const [draft, setDraft] = useState<MetadataProviderSettings>(loadProviderSettings);
+  // Prompt instructions per collection id, '' = general preset
+  const [templates, setTemplates] = useState<Record<string, string>>(() => Object.fromEntries(
+    collections.map(c => [c.id, c.promptTemplate || ''])
+  ));
+  const [templateCollectionId, setTemplateCollectionId] = useState(collections[0]?.id || '');
+  const [cacheSize, setCacheSize] = useState(metadataCacheSize);
+  const [subtitlePrefs, setSubtitlePrefs] = useState<SubtitlePreferences>(loadSubtitlePreferences);
+  const [languagesText, setLanguagesText] = useState(() => subtitlePrefs.languages.join(', '));
+  const provider = providerOf(draft.provider);
+  const parsedLanguages = parseLanguageList(languagesText);
+
+  const handleSave = () => {
+    if (parsedLanguages.unknown.length > 0) {
+      alert(`Unknown subtitle language: ${parsedLanguages.unknown.join(', ')}`);
+      return;
+    }
+    saveSubtitlePreferences({ ...subtitlePrefs, languages: parsedLanguages.languages });
+    saveProviderSettings(draft);
+    for (const collection of collections) {
+      const template = templates[collection.id].trim();
+      if (template !== (collection.promptTemplate || '')) {
+        onUpdateCollection(collection.id, { promptTemplate: template || undefined });
+      }
+    }
+    onClose();
+  };
+
+  const handleClearCache = () => {
+    if (confirm(`Forget ${cacheSize} generated result${cacheSize === 1 ? '' : 's'}? They will be requested again next time.`)) {
+      clearMetadataCache();
+      setCacheSize(0);
+    }
+  };
+
+  const setContext = (changes: Partial<MetadataContextOptions>) => setDraft({ ...draft, context: { ...draft.context, ...changes } });
+  const template = templates[templateCollectionId] ?? '';
+  const presetId = PROMPT_PRESETS.find(p => p.instructions === (template || PROMPT_PRESETS[0].instructions))?.id || 'custom';
+
+  const inputClass = "w-full bg-gray-800 border border-gray-700 rounded p-2 text-sm text-white focus:border-primary focus:outline-none";
+  const labelClass = "block text-xs font-semibold text-gray-500 uppercase mb-1";
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/70 flex items-center justify-center p-8">
+      <div className="bg-gray-900 border border-gray-700 rounded-xl shadow-2xl w-full max-w-lg max-h-full flex flex-col">
+        <div className="p-4 border-b border-gray-800 flex items-center justify-between">
+          <div>
+            <h3 className="font-bold text-white flex items-center gap-2"><Settings size={18} /> Settings</h3>
+            <p className="text-xs text-gray-500 mt-1">
+              Stored on this machine only. Keys are never written to the library index or its exports.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div className="text-sm font-semibold text-gray-300">Metadata generation</div>
+
+          <div>
+            <label className={labelClass}>Provider</label>
+            <select
+              value={draft.provider}
+              onChange={e => setDraft({ ...draft, provider: e.target.value as MetadataProviderSettings['provider'], model: '' })}
+              className={inputClass}
+            >
+              {METADATA_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+          </div>
+
+          {provider.usesBaseUrl && (
+            <div>
+              <label className={labelClass}>Endpoint URL</label>
+              <input
+                type="text"
+                value={draft.baseUrl}
+                onChange={e => setDraft({ ...draft, baseUrl: e.target.value })}
+                placeholder="http://localhost:11434/v1"
+                className={`${inputClass} font-mono`}
+              />
+              <p className="text-[11px] text-gray-500 mt-1">Ollama: http://localhost:11434/v1 · llama.cpp: http://localhost:8080/v1</p>
+            </div>
+          )}
+
+          {draft.provider !== 'mock' && (
+            <>
+              <div>
+                <label className={labelClass}>Model</label>
+                <input
+                  type="text"
+                  value={draft.model}
+                  onChange={e => setDraft({ ...draft, model: e.target.value })}
+                  placeholder={provider.defaultModel}
+                  className={inputClass}
+                />
+              </div>
+
+              <div>
+                <label className={labelClass}>API key</label>
+                <input
+                  type="password"
+                  value={draft.apiKey}
+                  onChange={e => setDraft({ ...draft, apiKey: e.target.value })}
+                  placeholder={provider.usesBaseUrl ? 'Not needed for most local servers' : 'Required'}
+                  autoComplete="off"
+                  className={inputClass}
+                />
+              </div>
+            </>
+          )}
+
+          <div>
+            <label className={labelClass}>Context sent with each request</label>
+            <div className="grid grid-cols-2 gap-2 text-sm text-gray-300">
+              {CONTEXT_LABELS.map(({ key, label }) => (
+                <label key={key} className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={draft.context[key]}
+                    onChange={e => setContext({ [key]: e.target.checked })}
+                    className="accent-primary"
+                  />
+                  {label}
+                </label>
+              ))}
+              <label className="flex items-center gap-2 col-span-2">
+                Video frames
+                <select
+                  value={draft.context.frames}
+                  onChange={e => setContext({ frames: Number(e.target.value) })}
+                  disabled={!provider.supportsImages}
+                  className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-white focus:border-primary focus:outline-none disabled:opacity-50"
+                >
+                  {[0, 1, 2, 3, 4, 6].map(n => <option key={n} value={n}>{n === 0 ? 'None' : n}</option>)}
+                </select>
+                <span className="text-[11px] text-gray-500">
+                  {provider.supportsImages ? 'Needs a model that accepts images' : 'Not supported by this provider'}
+                </span>
+              </label>
+            </div>
+          </div>
+
+          {collections.length > 0 && (
+            <div>
+              <label className={labelClass}>Instructions per collection</label>
+              <div className="flex gap-2 mb-2">
+                <select value={templateCollectionId} onChange={e => setTemplateCollectionId(e.target.value)} className={inputClass}>
+                  {collections.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+                <select
+                  value={presetId}
+                  onChange={e => {
+                    const preset = PROMPT_PRESETS.find(p => p.id === e.target.value);
+                    if (preset) setTemplates({ ...templates, [templateCollectionId]: preset.id === 'default' ? '' : preset.instructions });
+                  }}
+                  className={`${inputClass} w-40`}
+                >
+                  {PROMPT_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                  {presetId === 'custom' && <option value="custom">Custom</option>}
+                </select>
+              </div>
+              <textarea
+                rows={5}
+                value={template || PROMPT_PRESETS[0].instructions}
+                onChange={e => setTemplates({ ...templates, [templateCollectionId]: e.target.value === PROMPT_PRESETS[0].instructions ? '' : e.target.value })}
+                className={`${inputClass} font-mono text-xs resize-y`}
+              />
+              <p className="text-[11px] text-gray-500 mt-1">The context above and the JSON answer format are added automatically.</p>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between pt-4 border-t border-gray-800 text-xs text-gray-500">
+            <span>{cacheSize} cached result{cacheSize === 1 ? '' : 's'} (reused for the same file, prompt and model)</span>
+            <button
+              onClick={handleClearCache}
+              disabled={cacheSize === 0}
+              className="flex items-center gap-1 px-2 py-1 text-gray-400 hover:text-red-400 disabled:opacity-40 transition"
+            >
+              <Trash2 size={14} /> Clear
+            </button>
+          </div>
+
+          <div className="pt-4 border-t border-gray-800 text-sm font-semibold text-gray-300">Subtitles</div>
+
+          <div>
+            <label className={labelClass}>Preferred languages</label>
+            <input
+              type="text"
+              value={languagesText}
+              onChange={e => setLanguagesText(e.target.value)}
+              placeholder="e.g. zh-Hans, en"
+              className={inputClass}
+            />
+            <p className="text-[11px] text-gray-500 mt-1">
+              {parsedLanguages.unknown.length > 0
+                ? <span className="text-red-400">Unknown: {parsedLanguages.unknown.join(', ')}</span>
+                : parsedLanguages.languages.length > 0
+                  ? `Turned on in this order: ${parsedLanguages.languages.map(languageLabelOf).join(', then ')}`
+                  : 'Codes (en, pt-BR, zh-Hans) or names, in order. Empty: only tracks marked default turn on.'}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Forced subtitles</label>
+              <select
+                value={subtitlePrefs.forced}
+                onChange={e => setSubtitlePrefs({ ...subtitlePrefs, forced: e.target.value as ForcedSubtitlePolicy })}
+                className={inputClass}
+              >
+                {FORCED_POLICIES.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+              </select>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer mt-5">
+              <input
+                type="checkbox"
+                checked={subtitlePrefs.sdh}
+                onChange={e => setSubtitlePrefs({ ...subtitlePrefs, sdh: e.target.checked })}
+                className="accent-primary"
+              />
+              Prefer SDH tracks
+            </label>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-800 flex justify-end gap-3">
+          <button onClick={onClose} className="px-3 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm rounded transition">
+            Cancel
+          </button>
+          <button onClick={handleSave} className="flex items-center gap-2 px-3 py-2 bg-primary hover:bg-primary-hover text-white text-sm rounded transition">
+            <Save size={16} /> Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsDialog;
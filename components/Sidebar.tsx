@@ -1,40 +1,77 @@
 import React, { useState, useRef } from 'react';
-import { Collection } from '../types';
-import { FolderPlus, FolderOpen, Save, Upload, RefreshCw, Trash2, Box, Database, Video, Tag as TagIcon, Layers } from 'lucide-react';
+import { Collection, FolderSelection, LibraryView, Playlist, SmartCollection, TagFilter } from '../types';
+import { EMPTY_TAG_FILTER, isTagFilterActive, tagFilterStateOf } from '../services/tagService';
+import { getBridge, fileListToSelection, pickAndScanFolder } from '../services/electronBridge';
+import { FolderPlus, FolderOpen, Save, Upload, RefreshCw, Trash2, Box, Database, Video, Tag as TagIcon, Layers, History, PlayCircle, ListVideo, ListPlus, Play, Sparkles, Pencil, Plus, Minus, Tv, Settings, Wand2 } from 'lucide-react';
 
 interface SidebarProps {
   collections: Collection[];
-  selectedCollectionId: string | null;
-  onSelectCollection: (id: string | null) => void;
+  view: LibraryView;
+  onSelectView: (view: LibraryView) => void;
   onCreateCollection: (name: string) => void;
   onDeleteCollection: (id: string) => void;
-  onImportFiles: (files: FileList) => void;
+  onGenerateCollectionMetadata: (id: string) => void;
+  onImportFiles: (selection: FolderSelection) => void;
+  onRescanCollection: (id: string, selection: FolderSelection | null) => void;
   onExportData: () => void;
   onImportData: (file: File) => void;
-  onRelinkFiles: (files: FileList) => void;
+  onRelinkFiles: (selection: FolderSelection) => void;
+  playlists: Playlist[];
+  onCreatePlaylist: (name: string) => void;
+  onRenamePlaylist: (id: string, name: string) => void;
+  onDeletePlaylist: (id: string) => void;
+  onPlayPlaylist: (id: string) => void;
+  smartCollections: SmartCollection[];
+  onEditSmartCollection: (id: string | null) => void; // null = create a new one
+  onDeleteSmartCollection: (id: string) => void;
   allTags: string[];
-  selectedTags: string[];
-  onToggleTag: (tag: string) => void;
+  tagFilter: TagFilter;
+  tagCounts: Map<string, number>; // Videos in the current results per tag
+  excludedTagCounts: Map<string, number>; // Same, before tag filtering (what an excluded chip hides)
+  onCycleTag: (tag: string) => void;
+  onTagFilterChange: (filter: TagFilter) => void;
+  onManageTags: () => void;
+  onOpenSettings: () => void;
 }
 
 const Sidebar: React.FC<SidebarProps> = ({
   collections,
-  selectedCollectionId,
-  onSelectCollection,
+  view,
+  onSelectView,
   onCreateCollection,
   onDeleteCollection,
+  onGenerateCollectionMetadata,
   onImportFiles,
+  onRescanCollection,
   onExportData,
   onImportData,
   onRelinkFiles,
+  playlists,
+  onCreatePlaylist,
+  onRenamePlaylist,
+  onDeletePlaylist,
+  onPlayPlaylist,
+  smartCollections,
+  onEditSmartCollection,
+  onDeleteSmartCollection,
   allTags,
-  selectedTags,
-  onToggleTag
+  tagFilter,
+  tagCounts,
+  excludedTagCounts,
+  onCycleTag,
+  onTagFilterChange,
+  onManageTags,
+  onOpenSettings
 }) => {
   const [newCollectionName, setNewCollectionName] = useState('');
+  const selectedCollectionId = view.kind === 'collection' ? view.id : null;
+  const [newPlaylistName, setNewPlaylistName] = useState('');
+  const [renamingPlaylist, setRenamingPlaylist] = useState<{ id: string; name: string } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const dataInputRef = useRef<HTMLInputElement>(null);
   const relinkInputRef = useRef<HTMLInputElement>(null);
+  const rescanInputRef = useRef<HTMLInputElement>(null);
+  const rescanTargetRef = useRef<string | null>(null);
 
   const handleCreate = () => {
     if (newCollectionName.trim()) {
@@ -43,9 +80,38 @@ const Sidebar: React.FC<SidebarProps> = ({
     }
   };
 
+  // Electron uses the native dialog + folder scan, the browser falls back to the webkitdirectory input
+  const pickFolder = async (input: HTMLInputElement | null, onPicked: (selection: FolderSelection) => void) => {
+    if (!getBridge()) {
+      input?.click();
+      return;
+    }
+    try {
+      const selection = await pickAndScanFolder();
+      if (selection) onPicked(selection);
+    } catch (e) {
+      console.error(e);
+      alert("Could not read the selected folder.");
+    }
+  };
+
+  const handleCreatePlaylist = () => {
+    if (newPlaylistName.trim()) {
+      onCreatePlaylist(newPlaylistName.trim());
+      setNewPlaylistName('');
+    }
+  };
+
+  const commitRename = () => {
+    if (renamingPlaylist && renamingPlaylist.name.trim()) {
+      onRenamePlaylist(renamingPlaylist.id, renamingPlaylist.name.trim());
+    }
+    setRenamingPlaylist(null);
+  };
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      onImportFiles(e.target.files);
+      onImportFiles(fileListToSelection(e.target.files));
     }
     // Reset input
     e.target.value = '';
@@ -60,11 +126,29 @@ const Sidebar: React.FC<SidebarProps> = ({
 
   const handleRelinkSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      onRelinkFiles(e.target.files);
+      onRelinkFiles(fileListToSelection(e.target.files));
     }
     e.target.value = '';
   }
 
+  // Collections with a known absolute folder rescan in place, others ask for the folder again
+  const handleRescanClick = (collection: Collection) => {
+    if (getBridge() && collection.sources?.some(s => s.folderPath)) {
+      onRescanCollection(collection.id, null);
+      return;
+    }
+    rescanTargetRef.current = collection.id;
+    pickFolder(rescanInputRef.current, selection => onRescanCollection(collection.id, selection));
+  };
+
+  const handleRescanSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0 && rescanTargetRef.current) {
+      onRescanCollection(rescanTargetRef.current, fileListToSelection(e.target.files));
+    }
+    rescanTargetRef.current = null;
+    e.target.value = '';
+  };
+
   return (
     <div className="w-64 bg-gray-900 border-r border-gray-800 flex flex-col h-full shrink-0">
       <div className="p-4 border-b border-gray-800 flex items-center gap-2">
@@ -74,16 +158,22 @@ const Sidebar: React.FC<SidebarProps> = ({
 
       {/* Persistence Controls */}
       <div className="p-4 space-y-2 border-b border-gray-800">
-        <div className="text-xs font-semibold text-gray-500 uppercase mb-2">System</div>
-        <button onClick={onExportData} className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-300 hover:bg-gray-800 rounded-md transition">
-          <Save size={16} /> Save Index
+        <div className="text-xs font-semibold text-gray-500 uppercase mb-2 flex justify-between items-center">
+          <span>System</span>
+          <span className="text-[10px] normal-case font-normal text-gray-600">Autosaved</span>
+        </div>
+        <button onClick={onExportData} className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-300 hover:bg-gray-800 rounded-md transition" title="Download a backup copy of the library index">
+          <Save size={16} /> Export Index
         </button>
-        <button onClick={() => dataInputRef.current?.click()} className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-300 hover:bg-gray-800 rounded-md transition">
-          <Upload size={16} /> Load Index
+        <button onClick={() => dataInputRef.current?.click()} className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-300 hover:bg-gray-800 rounded-md transition" title="Replace the library with a backup copy">
+          <Upload size={16} /> Import Index
         </button>
-         <button onClick={() => relinkInputRef.current?.click()} className="w-full flex items-center gap-2 px-3 py-2 text-sm text-blue-400 hover:bg-gray-800 rounded-md transition" title="Update paths for moved folders">
+         <button onClick={() => pickFolder(relinkInputRef.current, onRelinkFiles)} className="w-full flex items-center gap-2 px-3 py-2 text-sm text-blue-400 hover:bg-gray-800 rounded-md transition" title="Update paths for moved folders">
           <RefreshCw size={16} /> Update Paths
         </button>
+        <button onClick={onOpenSettings} className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-300 hover:bg-gray-800 rounded-md transition" title="Metadata provider, model and API key">
+          <Settings size={16} /> Settings
+        </button>
         <input 
           type="file" 
           ref={dataInputRef} 
@@ -122,17 +212,38 @@ const Sidebar: React.FC<SidebarProps> = ({
 
           <div className="space-y-1">
             <button
-              onClick={() => onSelectCollection(null)}
-              className={`w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md transition ${selectedCollectionId === null ? 'bg-primary text-white' : 'text-gray-400 hover:bg-gray-800'}`}
+              onClick={() => onSelectView({ kind: 'all' })}
+              className={`w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md transition ${view.kind === 'all' ? 'bg-primary text-white' : 'text-gray-400 hover:bg-gray-800'}`}
             >
               <Database size={16} />
               <span>All Videos</span>
             </button>
+            <button
+              onClick={() => onSelectView({ kind: 'continue' })}
+              className={`w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md transition ${view.kind === 'continue' ? 'bg-primary text-white' : 'text-gray-400 hover:bg-gray-800'}`}
+            >
+              <PlayCircle size={16} />
+              <span>Continue Watching</span>
+            </button>
+            <button
+              onClick={() => onSelectView({ kind: 'recent' })}
+              className={`w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md transition ${view.kind === 'recent' ? 'bg-primary text-white' : 'text-gray-400 hover:bg-gray-800'}`}
+            >
+              <History size={16} />
+              <span>Recently Played</span>
+            </button>
+            <button
+              onClick={() => onSelectView({ kind: 'series' })}
+              className={`w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md transition ${view.kind === 'series' || view.kind === 'show' ? 'bg-primary text-white' : 'text-gray-400 hover:bg-gray-800'}`}
+            >
+              <Tv size={16} />
+              <span>TV Series</span>
+            </button>
 
             {collections.map(collection => (
               <div key={collection.id} className="group flex items-center gap-1">
                 <button
-                  onClick={() => onSelectCollection(collection.id)}
+                  onClick={() => onSelectView({ kind: 'collection', id: collection.id })}
                   className={`flex-1 flex items-center gap-2 px-3 py-2 text-sm rounded-md transition text-left overflow-hidden ${selectedCollectionId === collection.id ? 'bg-gray-800 text-white border-l-2 border-primary' : 'text-gray-400 hover:bg-gray-800'}`}
                 >
                   {collection.thumbnailUrl ? (
@@ -142,6 +253,20 @@ const Sidebar: React.FC<SidebarProps> = ({
                   )}
                   <span className="truncate">{collection.name}</span>
                 </button>
+                <button 
+                  onClick={(e) => { e.stopPropagation(); handleRescanClick(collection); }}
+                  className="p-1.5 text-gray-600 hover:text-blue-400 opacity-0 group-hover:opacity-100 transition"
+                  title="Rescan collection"
+                >
+                  <RefreshCw size={14} />
+                </button>
+                <button 
+                  onClick={(e) => { e.stopPropagation(); onGenerateCollectionMetadata(collection.id); }}
+                  className="p-1.5 text-gray-600 hover:text-purple-400 opacity-0 group-hover:opacity-100 transition"
+                  title="Generate info for the whole collection"
+                >
+                  <Wand2 size={14} />
+                </button>
                 <button 
                   onClick={(e) => { e.stopPropagation(); onDeleteCollection(collection.id); }}
                   className="p-1.5 text-gray-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition"
@@ -151,6 +276,126 @@ const Sidebar: React.FC<SidebarProps> = ({
               </div>
             ))}
           </div>
+          {/* Directory picker for browser rescans */}
+          <input 
+            type="file" 
+            ref={rescanInputRef} 
+            className="hidden" 
+            onChange={handleRescanSelect} 
+            {...{ webkitdirectory: "", directory: "" } as any} 
+          />
+        </div>
+
+        {/* Smart Collections */}
+        <div className="p-4 border-t border-gray-800">
+          <div className="text-xs font-semibold text-gray-500 uppercase mb-2 flex justify-between items-center">
+            <span>Smart Collections</span>
+            <button onClick={() => onEditSmartCollection(null)} className="text-gray-500 hover:text-white transition" title="New smart collection">
+              <Plus size={14} />
+            </button>
+          </div>
+
+          <div className="space-y-1">
+            {smartCollections.map(smart => {
+              const isSelected = view.kind === 'smart' && view.id === smart.id;
+              return (
+                <div key={smart.id} className="group flex items-center gap-1">
+                  <button
+                    onClick={() => onSelectView({ kind: 'smart', id: smart.id })}
+                    onDoubleClick={() => onEditSmartCollection(smart.id)}
+                    className={`flex-1 flex items-center gap-2 px-3 py-2 text-sm rounded-md transition text-left overflow-hidden ${isSelected ? 'bg-gray-800 text-white border-l-2 border-primary' : 'text-gray-400 hover:bg-gray-800'}`}
+                  >
+                    <Sparkles size={16} className="shrink-0 text-purple-400" />
+                    <span className="truncate">{smart.name}</span>
+                  </button>
+                  <button 
+                    onClick={(e) => { e.stopPropagation(); onEditSmartCollection(smart.id); }}
+                    className="p-1.5 text-gray-600 hover:text-blue-400 opacity-0 group-hover:opacity-100 transition"
+                    title="Edit rules"
+                  >
+                    <Pencil size={14} />
+                  </button>
+                  <button 
+                    onClick={(e) => { e.stopPropagation(); onDeleteSmartCollection(smart.id); }}
+                    className="p-1.5 text-gray-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              );
+            })}
+            {smartCollections.length === 0 && (
+              <p className="text-xs text-gray-600">Collections that fill themselves from rules, e.g. unwatched documentaries over an hour.</p>
+            )}
+          </div>
+        </div>
+
+        {/* Playlists */}
+        <div className="p-4 border-t border-gray-800">
+          <div className="text-xs font-semibold text-gray-500 uppercase mb-2">Playlists</div>
+
+          <div className="flex gap-2 mb-4">
+            <input 
+              type="text" 
+              value={newPlaylistName}
+              onChange={(e) => setNewPlaylistName(e.target.value)}
+              placeholder="New Playlist..."
+              className="flex-1 bg-gray-800 text-sm px-2 py-1 rounded border border-gray-700 focus:outline-none focus:border-primary"
+              onKeyDown={(e) => e.key === 'Enter' && handleCreatePlaylist()}
+            />
+            <button onClick={handleCreatePlaylist} className="bg-gray-800 hover:bg-gray-700 p-1.5 rounded border border-gray-700">
+              <ListPlus size={16} />
+            </button>
+          </div>
+
+          <div className="space-y-1">
+            {playlists.map(playlist => {
+              const isSelected = view.kind === 'playlist' && view.id === playlist.id;
+              return (
+                <div key={playlist.id} className="group flex items-center gap-1">
+                  {renamingPlaylist?.id === playlist.id ? (
+                    <input
+                      autoFocus
+                      type="text"
+                      value={renamingPlaylist.name}
+                      onChange={(e) => setRenamingPlaylist({ id: playlist.id, name: e.target.value })}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setRenamingPlaylist(null);
+                      }}
+                      className="flex-1 bg-gray-800 text-sm px-2 py-1.5 rounded border border-primary focus:outline-none"
+                    />
+                  ) : (
+                    <button
+                      onClick={() => onSelectView({ kind: 'playlist', id: playlist.id })}
+                      onDoubleClick={() => setRenamingPlaylist({ id: playlist.id, name: playlist.name })}
+                      className={`flex-1 flex items-center gap-2 px-3 py-2 text-sm rounded-md transition text-left overflow-hidden ${isSelected ? 'bg-gray-800 text-white border-l-2 border-primary' : 'text-gray-400 hover:bg-gray-800'}`}
+                      title="Double-click to rename"
+                    >
+                      <ListVideo size={16} className="shrink-0" />
+                      <span className="truncate">{playlist.name}</span>
+                      <span className="ml-auto text-[10px] text-gray-600">{playlist.videoIds.length}</span>
+                    </button>
+                  )}
+                  <button 
+                    onClick={(e) => { e.stopPropagation(); onPlayPlaylist(playlist.id); }}
+                    disabled={playlist.videoIds.length === 0}
+                    className="p-1.5 text-gray-600 hover:text-primary opacity-0 group-hover:opacity-100 transition disabled:hidden"
+                    title="Play playlist"
+                  >
+                    <Play size={14} />
+                  </button>
+                  <button 
+                    onClick={(e) => { e.stopPropagation(); onDeletePlaylist(playlist.id); }}
+                    className="p-1.5 text-gray-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
         </div>
 
         {/* Tags Section */}
@@ -158,25 +403,52 @@ const Sidebar: React.FC<SidebarProps> = ({
           <div className="p-4 border-t border-gray-800">
             <div className="text-xs font-semibold text-gray-500 uppercase mb-2 flex justify-between items-center">
               <span>Tags</span>
-              {selectedTags.length > 0 && (
-                 <span className="text-[10px] text-primary">{selectedTags.length} active</span>
-              )}
+              <div className="flex items-center gap-2">
+                {isTagFilterActive(tagFilter) && (
+                  <button onClick={() => onTagFilterChange({ ...EMPTY_TAG_FILTER, mode: tagFilter.mode })} className="text-[10px] normal-case font-normal text-primary hover:text-white transition">
+                    Clear
+                  </button>
+                )}
+                <button onClick={onManageTags} className="text-[10px] normal-case font-normal text-gray-500 hover:text-white transition">
+                  Manage
+                </button>
+              </div>
+            </div>
+            <div className="flex items-center gap-1 mb-3 text-[10px]">
+              <span className="text-gray-500 mr-1">Match</span>
+              {(['all', 'any'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => onTagFilterChange({ ...tagFilter, mode })}
+                  className={`px-2 py-0.5 rounded border transition ${tagFilter.mode === mode ? 'bg-gray-700 text-white border-gray-600' : 'text-gray-500 border-gray-800 hover:text-gray-300'}`}
+                >
+                  {mode}
+                </button>
+              ))}
+              <span className="text-gray-600 ml-1">· click again to exclude</span>
             </div>
             <div className="flex flex-wrap gap-2">
               {allTags.map(tag => {
-                const isSelected = selectedTags.includes(tag);
+                const state = tagFilterStateOf(tagFilter, tag);
+                const count = (state === 'exclude' ? excludedTagCounts : tagCounts).get(tag) || 0;
+                // Including this tag would leave nothing to show
+                const isDeadEnd = state === 'off' && count === 0;
                 return (
                   <button
                     key={tag}
-                    onClick={() => onToggleTag(tag)}
+                    onClick={() => onCycleTag(tag)}
                     className={`px-2 py-1 text-xs rounded-md border transition flex items-center gap-1 text-left ${
-                      isSelected
+                      state === 'include'
                         ? 'bg-blue-500/20 text-blue-400 border-blue-500/50' 
-                        : 'bg-gray-800 text-gray-400 border-gray-700 hover:border-gray-600'
-                    }`}
+                        : state === 'exclude'
+                          ? 'bg-red-500/20 text-red-400 border-red-500/50 line-through'
+                          : 'bg-gray-800 text-gray-400 border-gray-700 hover:border-gray-600'
+                    } ${isDeadEnd ? 'opacity-40' : ''}`}
+                    title={state === 'include' ? 'Included (click to exclude)' : state === 'exclude' ? 'Excluded (click to clear)' : 'Click to include'}
                   >
-                    <TagIcon size={10} />
+                    {state === 'include' ? <Plus size={10} /> : state === 'exclude' ? <Minus size={10} /> : <TagIcon size={10} />}
                     <span className="truncate max-w-[120px]">{tag}</span>
+                    <span className="text-[10px] opacity-60">{count}</span>
                   </button>
                 );
               })}
@@ -193,7 +465,7 @@ const Sidebar: React.FC<SidebarProps> = ({
                 alert("Please select or create a collection first.");
                 return;
             }
-            fileInputRef.current?.click();
+            pickFolder(fileInputRef.current, onImportFiles);
           }} 
           disabled={!selectedCollectionId}
           className={`w-full flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-medium transition ${selectedCollectionId ? 'bg-primary hover:bg-primary-hover text-white' : 'bg-gray-800 text-gray-500 cursor-not-allowed'}`}
@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from 'react';
+import { Collection, SmartCollection, SmartRule, SmartRuleField, SmartRuleOperator, VideoAsset } from '../types';
+import {
+  SMART_RULE_FIELDS, SMART_RULE_OPERATOR_LABELS, createSmartRule, smartCollectionVideos, smartRuleValueKind
+} from '../services/smartCollections';
+import { X, Sparkles, Plus, Trash2 } from 'lucide-react';
+
+interface SmartCollectionEditorProps {
+  smartCollection: SmartCollection;
+  videos: VideoAsset[];
+  collections: Collection[];
+  allTags: string[];
+  onSave: (smartCollection: SmartCollection) => void;
+  onClose: () => void;
+}
+
+const SmartCollectionEditor: React.FC<SmartCollectionEditorProps> = ({ smartCollection, videos, collections, allTags, onSave, onClose }) => {
+  const [draft, setDraft] = useState<SmartCollection>(smartCollection);
+
+  // Live preview of what the rules currently match
+  const matchCount = useMemo(() => smartCollectionVideos(videos, draft, collections).length, [videos, draft, collections]);
+
+  const updateRule = (id: string, changes: Partial<SmartRule>) => {
+    setDraft(prev => ({ ...prev, rules: prev.rules.map(r => r.id === id ? { ...r, ...changes } : r) }));
+  };
+
+  const changeField = (rule: SmartRule, field: SmartRuleField) => {
+    // Keep the operator if the new field supports it, otherwise fall back to its first one
+    const operators = SMART_RULE_FIELDS[field].operators;
+    const operator = operators.includes(rule.operator) ? rule.operator : operators[0];
+    const value = smartRuleValueKind(field) === smartRuleValueKind(rule.field) ? rule.value : '';
+    updateRule(rule.id, { field, operator, value });
+  };
+
+  const removeRule = (id: string) => {
+    setDraft(prev => ({ ...prev, rules: prev.rules.filter(r => r.id !== id) }));
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) {
+      alert("Please give the smart collection a name.");
+      return;
+    }
+    onSave({ ...draft, name: draft.name.trim() });
+  };
+
+  const inputClass = "bg-gray-800 border border-gray-700 rounded p-1.5 text-sm text-gray-200 focus:border-primary focus:outline-none";
+
+  const renderValueInput = (rule: SmartRule) => {
+    const definition = SMART_RULE_FIELDS[rule.field];
+    switch (definition.kind) {
+      case 'none':
+        return null;
+      case 'tag':
+      case 'collection': {
+        const options = definition.kind === 'tag' ? allTags : collections.map(c => c.name);
+        return (
+          <select value={rule.value} onChange={e => updateRule(rule.id, { value: e.target.value })} className={`${inputClass} flex-1 min-w-0`}>
+            <option value="">Choose…</option>
+            {/* Keep a value that no longer exists selectable, so opening the editor doesn't silently drop it */}
+            {rule.value && !options.includes(rule.value) && <option value={rule.value}>{rule.value}</option>}
+            {options.map(o => <option key={o} value={o}>{o}</option>)}
+          </select>
+        );
+      }
+      case 'number':
+        return (
+          <div className="flex items-center gap-1 flex-1 min-w-0">
+            <input
+              type="number"
+              value={rule.value}
+              onChange={e => updateRule(rule.id, { value: e.target.value })}
+              className={`${inputClass} w-full`}
+            />
+            {definition.unit && <span className="text-xs text-gray-500 shrink-0">{definition.unit}</span>}
+          </div>
+        );
+      default:
+        return (
+          <input
+            type="text"
+            value={rule.value}
+            onChange={e => updateRule(rule.id, { value: e.target.value })}
+            className={`${inputClass} flex-1 min-w-0`}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/70 flex items-center justify-center p-8">
+      <div className="bg-gray-900 border border-gray-700 rounded-xl shadow-2xl w-full max-w-2xl max-h-full flex flex-col">
+        <div className="p-4 border-b border-gray-800 flex items-center justify-between">
+          <h3 className="font-bold text-white flex items-center gap-2"><Sparkles size={18} /> Smart Collection</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div>
+            <label className="block text-xs font-semibold text-gray-500 uppercase mb-1">Name</label>
+            <input
+              type="text"
+              autoFocus
+              value={draft.name}
+              onChange={e => setDraft({ ...draft, name: e.target.value })}
+              className={`${inputClass} w-full`}
+            />
+          </div>
+
+          <div className="flex items-center gap-2 text-sm text-gray-300">
+            <span>Match</span>
+            <select
+              value={draft.match}
+              onChange={e => setDraft({ ...draft, match: e.target.value as SmartCollection['match'] })}
+              className={inputClass}
+            >
+              <option value="all">all</option>
+              <option value="any">any</option>
+            </select>
+            <span>of the following rules:</span>
+          </div>
+
+          <div className="space-y-2">
+            {draft.rules.map(rule => (
+              <div key={rule.id} className="flex items-center gap-2">
+                <select value={rule.field} onChange={e => changeField(rule, e.target.value as SmartRuleField)} className={`${inputClass} w-32`}>
+                  {(Object.keys(SMART_RULE_FIELDS) as SmartRuleField[]).map(f => (
+                    <option key={f} value={f}>{SMART_RULE_FIELDS[f].label}</option>
+                  ))}
+                </select>
+                <select
+                  value={rule.operator}
+                  onChange={e => updateRule(rule.id, { operator: e.target.value as SmartRuleOperator })}
+                  className={`${inputClass} w-36`}
+                >
+                  {SMART_RULE_FIELDS[rule.field].operators.map(op => (
+                    <option key={op} value={op}>{SMART_RULE_OPERATOR_LABELS[op]}</option>
+                  ))}
+                </select>
+                {renderValueInput(rule)}
+                <button onClick={() => removeRule(rule.id)} className="p-1.5 text-gray-600 hover:text-red-400 transition ml-auto" title="Remove rule">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <button
+            onClick={() => setDraft(prev => ({ ...prev, rules: [...prev.rules, createSmartRule()] }))}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-300 bg-gray-800 hover:bg-gray-700 rounded transition"
+          >
+            <Plus size={14} /> Add rule
+          </button>
+        </div>
+
+        <div className="p-4 border-t border-gray-800 flex items-center justify-between gap-3">
+          <span className="text-xs text-gray-500">Currently matches {matchCount} video{matchCount === 1 ? '' : 's'}</span>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm rounded transition">
+              Cancel
+            </button>
+            <button onClick={handleSave} className="px-4 py-2 bg-primary hover:bg-primary-hover text-white text-sm rounded transition">
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SmartCollectionEditor;
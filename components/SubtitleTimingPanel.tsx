@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Minus, Plus, Crosshair, Download } from 'lucide-react';
+import { SubtitleTiming } from '../types';
+import { SubtitleCue } from '../services/srtParser';
+import { describeTiming, isDefaultTiming, NO_TIMING, retime, timingFromSyncPoints } from '../services/subtitleTiming';
+
+interface SubtitleTimingPanelProps {
+  cues: SubtitleCue[]; // Original times, as in the file
+  timing: SubtitleTiming;
+  currentTime: number;
+  onChange: (timing: SubtitleTiming) => void;
+  onExport: () => void;
+}
+
+interface MarkedPoint {
+  cueIndex: number | null;
+  actualTime: number | null;
+}
+
+const EMPTY_POINTS: MarkedPoint[] = [{ cueIndex: null, actualTime: null }, { cueIndex: null, actualTime: null }];
+
+const shortTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  return `${m}:${(seconds - m * 60).toFixed(1).padStart(4, '0')}`;
+};
+
+const cueLabelOf = (cue: SubtitleCue) => {
+  const text = cue.text.replace(/<[^>]*>/g, '').replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/\n/g, ' ');
+  return `${shortTime(cue.start)}  ${text.length > 32 ? `${text.slice(0, 32)}…` : text}`;
+};
+
+// Delay control plus a two-point sync: pick a line, press "Now" when it is actually spoken,
+// do the same for a line much later, and both the offset and the rate are worked out.
+const SubtitleTimingPanel: React.FC<SubtitleTimingPanelProps> = ({ cues, timing, currentTime, onChange, onExport }) => {
+  const [points, setPoints] = useState<MarkedPoint[]>(EMPTY_POINTS);
+
+  const nudge = (delta: number) => onChange({ ...timing, offset: Math.round((timing.offset + delta) * 1000) / 1000 });
+
+  // The line on screen (or the last one shown) is most likely the one being marked
+  const nearestCueIndex = () => {
+    let index = 0;
+    cues.forEach((c, i) => { if (retime(c.start, timing) <= currentTime) index = i; });
+    return index;
+  };
+
+  const markNow = (which: number) => setPoints(prev => prev.map((p, i) => i === which
+    ? { cueIndex: p.cueIndex ?? nearestCueIndex(), actualTime: currentTime }
+    : p));
+
+  const setCue = (which: number, cueIndex: number | null) =>
+    setPoints(prev => prev.map((p, i) => i === which ? { ...p, cueIndex } : p));
+
+  const [a, b] = points;
+  const synced = a.cueIndex !== null && a.actualTime !== null && b.cueIndex !== null && b.actualTime !== null
+    ? timingFromSyncPoints(
+        { cueTime: cues[a.cueIndex].start, actualTime: a.actualTime },
+        { cueTime: cues[b.cueIndex].start, actualTime: b.actualTime })
+    : null;
+
+  const applySync = () => {
+    if (!synced) return;
+    onChange(synced);
+    setPoints(EMPTY_POINTS);
+  };
+
+  return (
+    <div className="space-y-2 text-xs text-gray-400">
+      <div className="flex items-center justify-between gap-2">
+        <span>Delay</span>
+        <div className="flex items-center gap-1">
+          <button onClick={() => nudge(-0.1)} className="p-1 rounded bg-gray-800 hover:bg-gray-700 text-gray-200" title="Earlier (G, Shift+G for 1s)">
+            <Minus size={12} />
+          </button>
+          <input
+            type="number"
+            step="0.1"
+            value={timing.offset}
+            onChange={e => onChange({ ...timing, offset: parseFloat(e.target.value) || 0 })}
+            className="w-16 bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-gray-200 text-right"
+          />
+          <button onClick={() => nudge(0.1)} className="p-1 rounded bg-gray-800 hover:bg-gray-700 text-gray-200" title="Later (H, Shift+H for 1s)">
+            <Plus size={12} />
+          </button>
+          <span>s</span>
+        </div>
+      </div>
+
+      {!isDefaultTiming(timing) && (
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-gray-300">{describeTiming(timing)}</span>
+          <button onClick={() => onChange(NO_TIMING)} className="hover:text-white underline">Reset</button>
+        </div>
+      )}
+
+      {cues.length > 1 && (
+        <div className="pt-2 border-t border-gray-800 space-y-1">
+          <div className="text-gray-300">Two-point sync</div>
+          {points.map((point, i) => (
+            <div key={i} className="flex items-center gap-1">
+              <select
+                value={point.cueIndex ?? ''}
+                onChange={e => setCue(i, e.target.value === '' ? null : Number(e.target.value))}
+                className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-gray-200"
+              >
+                <option value="">Line {i + 1}…</option>
+                {cues.map((cue, idx) => <option key={idx} value={idx}>{cueLabelOf(cue)}</option>)}
+              </select>
+              <button
+                onClick={() => markNow(i)}
+                className={`flex items-center gap-1 px-1.5 py-0.5 rounded shrink-0 ${point.actualTime !== null ? 'bg-primary/30 text-white' : 'bg-gray-800 hover:bg-gray-700 text-gray-200'}`}
+                title="Press when this line is actually spoken"
+              >
+                <Crosshair size={12} /> {point.actualTime !== null ? shortTime(point.actualTime) : 'Now'}
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={applySync}
+            disabled={!synced}
+            className="w-full px-2 py-1 rounded bg-gray-800 hover:bg-gray-700 text-gray-200 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {synced ? `Apply (${describeTiming(synced)})` : 'Mark two lines far apart'}
+          </button>
+        </div>
+      )}
+
+      <button onClick={onExport} className="w-full flex items-center justify-center gap-1 px-2 py-1 rounded bg-gray-800 hover:bg-gray-700 text-gray-200">
+        <Download size={12} /> Export corrected .srt
+      </button>
+    </div>
+  );
+};
+
+export default SubtitleTimingPanel;
@@ -0,0 +1,243 @@
+import React, { useMemo, useState } from 'react';
+import { TAG_SEPARATOR, findSimilarTags } from '../services/tagService';
+import { X, Tags, Pencil, Trash2, Merge, Plus, ArrowRight } from 'lucide-react';
+
+interface TagManagerProps {
+  tags: string[]; // Every tag in the library, parents included
+  counts: Map<string, number>;
+  aliases: Record<string, string>;
+  onRename: (from: string[], to: string) => void; // Also merges when several tags are given
+  onDelete: (tag: string) => void;
+  onSetAlias: (alias: string, tag: string | null) => void;
+  onClose: () => void;
+}
+
+const TagManager: React.FC<TagManagerProps> = ({ tags, counts, aliases, onRename, onDelete, onSetAlias, onClose }) => {
+  const [filter, setFilter] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [renaming, setRenaming] = useState<{ tag: string; name: string } | null>(null);
+  const [mergeTarget, setMergeTarget] = useState('');
+  const [newAlias, setNewAlias] = useState({ alias: '', tag: '' });
+
+  const visibleTags = filter ? tags.filter(t => t.toLowerCase().includes(filter.toLowerCase())) : tags;
+  const similarGroups = useMemo(() => findSimilarTags(tags), [tags]);
+  // Most used spelling first, it's the default merge target
+  const byUsage = (group: string[]) => [...group].sort((a, b) => (counts.get(b) || 0) - (counts.get(a) || 0));
+
+  const toggleSelected = (tag: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(tag)) next.delete(tag); else next.add(tag);
+      return next;
+    });
+  };
+
+  const commitRename = () => {
+    if (renaming && renaming.name.trim() && renaming.name.trim() !== renaming.tag) {
+      onRename([renaming.tag], renaming.name.trim());
+    }
+    setRenaming(null);
+  };
+
+  const handleMerge = () => {
+    const target = mergeTarget.trim();
+    if (!target || selected.size < 2) return;
+    onRename(Array.from(selected), target);
+    setSelected(new Set());
+    setMergeTarget('');
+  };
+
+  const handleDelete = (tag: string) => {
+    const count = counts.get(tag) || 0;
+    if (confirm(`Remove "${tag}" (and any child tags) from ${count} video${count === 1 ? '' : 's'}?`)) {
+      onDelete(tag);
+      setSelected(prev => { const next = new Set(prev); next.delete(tag); return next; });
+    }
+  };
+
+  const handleAddAlias = () => {
+    if (newAlias.alias.trim() && newAlias.tag) {
+      onSetAlias(newAlias.alias.trim(), newAlias.tag);
+      setNewAlias({ alias: '', tag: '' });
+    }
+  };
+
+  const inputClass = "bg-gray-800 border border-gray-700 rounded p-1.5 text-sm text-gray-200 focus:border-primary focus:outline-none";
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/70 flex items-center justify-center p-8">
+      <div className="bg-gray-900 border border-gray-700 rounded-xl shadow-2xl w-full max-w-4xl max-h-full flex flex-col">
+        <div className="p-4 border-b border-gray-800 flex items-center justify-between">
+          <div>
+            <h3 className="font-bold text-white flex items-center gap-2"><Tags size={18} /> Tag Manager</h3>
+            <p className="text-xs text-gray-500 mt-1">
+              Changes apply to the whole library. Use "/" for child tags, e.g. Sport/Football.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-hidden grid grid-cols-1 md:grid-cols-[3fr_2fr] min-h-0">
+          {/* Tag list */}
+          <div className="flex flex-col min-h-0 border-r border-gray-800">
+            <div className="p-3 border-b border-gray-800">
+              <input
+                type="text"
+                value={filter}
+                onChange={e => setFilter(e.target.value)}
+                placeholder="Filter tags..."
+                className={`${inputClass} w-full`}
+              />
+            </div>
+            <div className="flex-1 overflow-y-auto">
+              {visibleTags.map(tag => {
+                const depth = tag.split(TAG_SEPARATOR).length - 1;
+                return (
+                  <div key={tag} className="group flex items-center gap-2 px-3 py-1.5 border-b border-gray-800/50 text-sm">
+                    <input type="checkbox" checked={selected.has(tag)} onChange={() => toggleSelected(tag)} className="accent-primary" />
+                    <div className="flex-1 min-w-0" style={{ paddingLeft: depth * 16 }}>
+                      {renaming?.tag === tag ? (
+                        <input
+                          autoFocus
+                          type="text"
+                          value={renaming.name}
+                          onChange={e => setRenaming({ tag, name: e.target.value })}
+                          onBlur={commitRename}
+                          onKeyDown={e => {
+                            if (e.key === 'Enter') commitRename();
+                            if (e.key === 'Escape') setRenaming(null);
+                          }}
+                          className={`${inputClass} w-full`}
+                        />
+                      ) : (
+                        <span className="text-gray-200 truncate block" title={tag}>
+                          {depth > 0 && <span className="text-gray-600">└ </span>}
+                          {tag.split(TAG_SEPARATOR).pop()}
+                        </span>
+                      )}
+                    </div>
+                    <span className="text-xs text-gray-500 w-10 text-right">{counts.get(tag) || 0}</span>
+                    <button
+                      onClick={() => setRenaming({ tag, name: tag })}
+                      className="p-1 text-gray-600 hover:text-blue-400 opacity-0 group-hover:opacity-100 transition"
+                      title="Rename everywhere"
+                    >
+                      <Pencil size={14} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(tag)}
+                      className="p-1 text-gray-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition"
+                      title="Delete from library"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                );
+              })}
+              {visibleTags.length === 0 && <div className="p-8 text-center text-gray-500 text-sm">No tags.</div>}
+            </div>
+            {selected.size >= 2 && (
+              <div className="p-3 border-t border-gray-800 flex items-center gap-2">
+                <span className="text-xs text-gray-400 shrink-0">Merge {selected.size} tags into</span>
+                <input
+                  type="text"
+                  list="tag-manager-merge-targets"
+                  value={mergeTarget}
+                  onChange={e => setMergeTarget(e.target.value)}
+                  onKeyDown={e => e.key === 'Enter' && handleMerge()}
+                  placeholder={Array.from(selected)[0]}
+                  className={`${inputClass} flex-1 min-w-0`}
+                />
+                <datalist id="tag-manager-merge-targets">
+                  {Array.from(selected).map(t => <option key={t} value={t} />)}
+                </datalist>
+                <button
+                  onClick={handleMerge}
+                  disabled={!mergeTarget.trim()}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-primary hover:bg-primary-hover text-white text-sm rounded transition disabled:opacity-50"
+                >
+                  <Merge size={14} /> Merge
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Suggestions and aliases */}
+          <div className="overflow-y-auto p-4 space-y-6">
+            {similarGroups.length > 0 && (
+              <div>
+                <div className="text-xs font-semibold text-gray-500 uppercase mb-2">Possible duplicates</div>
+                <div className="space-y-2">
+                  {similarGroups.map(group => {
+                    const [target, ...others] = byUsage(group);
+                    return (
+                      <div key={group.join('|')} className="flex items-center gap-2 text-xs bg-gray-800/50 rounded p-2">
+                        <span className="flex-1 text-gray-300 truncate" title={group.join(', ')}>
+                          {others.join(', ')} <ArrowRight size={10} className="inline" /> <span className="text-white">{target}</span>
+                        </span>
+                        <button
+                          onClick={() => onRename(others, target)}
+                          className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded transition shrink-0"
+                        >
+                          Merge
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <div className="text-xs font-semibold text-gray-500 uppercase mb-1">Aliases</div>
+              <p className="text-xs text-gray-600 mb-2">
+                Applied to tags from NFO files, AI and manual edits. Renamed and merged tags are added automatically.
+              </p>
+              <div className="space-y-1 mb-3">
+                {Object.entries(aliases).sort(([a], [b]) => a.localeCompare(b)).map(([alias, tag]) => (
+                  <div key={alias} className="group flex items-center gap-2 text-xs text-gray-300">
+                    <span className="truncate">{alias}</span>
+                    <ArrowRight size={10} className="text-gray-600 shrink-0" />
+                    <span className="truncate text-white flex-1">{tag}</span>
+                    <button
+                      onClick={() => onSetAlias(alias, null)}
+                      className="p-1 text-gray-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition"
+                      title="Remove alias"
+                    >
+                      <X size={12} />
+                    </button>
+                  </div>
+                ))}
+                {Object.keys(aliases).length === 0 && <div className="text-xs text-gray-600 italic">No aliases yet.</div>}
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={newAlias.alias}
+                  onChange={e => setNewAlias({ ...newAlias, alias: e.target.value })}
+                  placeholder="Variant, e.g. sci fi"
+                  className={`${inputClass} flex-1 min-w-0`}
+                />
+                <select
+                  value={newAlias.tag}
+                  onChange={e => setNewAlias({ ...newAlias, tag: e.target.value })}
+                  className={`${inputClass} flex-1 min-w-0`}
+                >
+                  <option value="">Maps to…</option>
+                  {tags.map(t => <option key={t} value={t}>{t}</option>)}
+                </select>
+                <button onClick={handleAddAlias} className="p-1.5 bg-gray-700 hover:bg-gray-600 rounded" title="Add alias">
+                  <Plus size={14} />
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TagManager;
@@ -0,0 +1,127 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SubtitleCue } from '../services/srtParser';
+import { SubtitleAppearance } from '../services/subtitleDisplay';
+import { useVideoRect } from './useVideoRect';
+
+export interface TextSubtitleTrack {
+  cues: SubtitleCue[]; // Already retimed
+  appearance: SubtitleAppearance;
+}
+
+interface TextSubtitleLayerProps {
+  tracks: TextSubtitleTrack[]; // Primary first; it sits closest to the edge
+  videoRef: React.RefObject<HTMLVideoElement>;
+}
+
+// Default line height as a share of the picture height, scaled by the appearance size
+const BASE_FONT_SHARE = 0.05;
+const EDGE_MARGIN_SHARE = 0.05;
+const OUTLINE = '0 0 3px #000, 1px 1px 2px #000, -1px -1px 2px #000, 1px -1px 2px #000, -1px 1px 2px #000';
+
+const decodeEntities = (text: string) =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&nbsp;/g, '\u00A0').replace(/&amp;/g, '&');
+
+// Cue payloads are WebVTT markup: <b>, <i> and <u> are honoured, voice/class spans dropped
+const renderCueText = (text: string) => {
+  const open = { b: 0, i: 0, u: 0 };
+  return text.split(/(<[^>]*>)/).map((part, index) => {
+    const tag = part.match(/^<(\/?)([biu])[\s.>]/);
+    if (tag) {
+      open[tag[2] as 'b' | 'i' | 'u'] += tag[1] ? -1 : 1;
+      return null;
+    }
+    if (part.startsWith('<') || !part) return null;
+    return (
+      <span
+        key={index}
+        style={{
+          fontWeight: open.b > 0 ? 'bold' : undefined,
+          fontStyle: open.i > 0 ? 'italic' : undefined,
+          textDecoration: open.u > 0 ? 'underline' : undefined
+        }}
+      >
+        {decodeEntities(part)}
+      </span>
+    );
+  });
+};
+
+const isTopCue = (cue: SubtitleCue) => /\bline:0\b/.test(cue.settings || '');
+
+// Draws WebVTT/SRT tracks over the video. Doing it ourselves rather than through <track> lets
+// two tracks show at once, each with its own position, size and colour.
+const TextSubtitleLayer: React.FC<TextSubtitleLayerProps> = ({ tracks, videoRef }) => {
+  const rect = useVideoRect(videoRef);
+  const [active, setActive] = useState<SubtitleCue[][]>([]);
+  const activeKeyRef = useRef('');
+
+  useEffect(() => {
+    activeKeyRef.current = '';
+    let frame = 0;
+    const tick = () => {
+      const el = videoRef.current;
+      if (el) {
+        const t = el.currentTime;
+        const visible = tracks.map(track => track.cues.filter(c => c.start <= t && t < c.end));
+        const key = visible.map((cues, i) => cues.map(c => tracks[i].cues.indexOf(c)).join(',')).join('|');
+        if (key !== activeKeyRef.current) {
+          activeKeyRef.current = key;
+          setActive(visible);
+        }
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [tracks, videoRef]);
+
+  if (!rect || active.every(cues => cues.length === 0)) return null;
+
+  const margin = rect.height * EDGE_MARGIN_SHARE;
+
+  const renderEdge = (position: 'top' | 'bottom') => {
+    const blocks = tracks.map((track, i) => {
+      const cues = (active[i] || []).filter(c => (isTopCue(c) ? 'top' : track.appearance.position) === position);
+      if (cues.length === 0) return null;
+      const { size, colour } = track.appearance;
+      return (
+        <div
+          key={i}
+          className="text-center"
+          style={{
+            fontSize: Math.max(12, rect.height * BASE_FONT_SHARE * size / 100),
+            color: colour,
+            textShadow: OUTLINE,
+            whiteSpace: 'pre-line'
+          }}
+        >
+          {cues.map((cue, j) => <div key={j}>{renderCueText(cue.text)}</div>)}
+        </div>
+      );
+    });
+    if (blocks.every(b => b === null)) return null;
+    return (
+      <div
+        className="absolute flex items-center gap-1"
+        style={{
+          left: rect.left + rect.width * 0.05,
+          width: rect.width * 0.9,
+          // The first track hugs the edge, the second sits just inside it
+          flexDirection: position === 'bottom' ? 'column-reverse' : 'column',
+          ...(position === 'bottom' ? { bottom: rect.bottom + margin } : { top: rect.top + margin })
+        }}
+      >
+        {blocks}
+      </div>
+    );
+  };
+
+  return (
+    <div className="absolute inset-0 pointer-events-none overflow-hidden" style={{ lineHeight: 1.25 }}>
+      {renderEdge('top')}
+      {renderEdge('bottom')}
+    </div>
+  );
+};
+
+export default TextSubtitleLayer;
@@ -1,31 +1,138 @@
-import React, { useState, useMemo } from 'react';
-import { VideoAsset } from '../types';
-import { Play, Search, Shuffle, FileVideo } from 'lucide-react';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { Collection, Playlist, RepeatMode, ShuffleMode, SortKey, VideoAsset, VideoFieldFilter, VideoSort } from '../types';
+import { Play, Shuffle, FileVideo, AlertTriangle, CheckCircle2, Repeat, Repeat1, X, Heart, Star, StickyNote, ArrowDown, ArrowUp, Check } from 'lucide-react';
+import { progressFractionOf } from '../services/watchHistory';
+import { SHUFFLE_MODE_LABELS } from '../services/shuffleService';
+import { SORT_KEY_LABELS } from '../services/videoSort';
+import { Series, episodeInfoOf, episodeLabel } from '../services/series';
+import SearchBox from './SearchBox';
 
 interface VideoGridProps {
-  videos: VideoAsset[];
+  videos: VideoAsset[]; // Already filtered by search and tags, so playback sees the same list
+  collections: Collection[]; // For collection: search suggestions
   collectionName: string;
   onPlay: (video: VideoAsset) => void;
   onSelect: (video: VideoAsset) => void;
   onShuffle: () => void;
-  selectedTags: string[]; // passed for filtering logic
+  shuffleMode: ShuffleMode;
+  onShuffleModeChange: (mode: ShuffleMode) => void;
+  playlist?: Playlist; // Set when showing a playlist: enables ordering controls
+  onUpdatePlaylist: (id: string, changes: Partial<Omit<Playlist, 'id'>>) => void;
+  onRemoveFromPlaylist: (playlistId: string, videoId: string) => void;
+  series?: Series; // Set when showing one series: episodes are grouped by season
+  sort: VideoSort | null; // null = the view's own order
+  onSortChange: (sort: VideoSort | null) => void;
+  fieldFilter: VideoFieldFilter;
+  onFieldFilterChange: (filter: VideoFieldFilter) => void;
+  searchQuery: string;
+  onSearchChange: (query: string) => void;
+  searchErrors: string[];
+  allTags: string[]; // Search suggestions
+  selectedIds: string[];
+  onSelectionChange: (ids: string[]) => void;
 }
 
-const VideoGrid: React.FC<VideoGridProps> = ({ videos, collectionName, onPlay, onSelect, onShuffle, selectedTags }) => {
-  const [searchQuery, setSearchQuery] = useState('');
+interface Lasso {
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+  base: string[]; // Selection to add to (Ctrl/Shift held), otherwise empty
+}
+
+const NEXT_REPEAT_MODE: Record<RepeatMode, RepeatMode> = { off: 'all', all: 'one', one: 'off' };
+
+const VideoGrid: React.FC<VideoGridProps> = ({
+  videos, collections, collectionName, onPlay, onSelect, onShuffle, shuffleMode, onShuffleModeChange,
+  playlist, onUpdatePlaylist, onRemoveFromPlaylist, series, sort, onSortChange, fieldFilter, onFieldFilterChange,
+  searchQuery, onSearchChange, searchErrors, allTags, selectedIds, onSelectionChange
+}) => {
   const [columnCount, setColumnCount] = useState(4);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  // Reordering only makes sense while the grid shows the playlist's own order
+  const canReorder = !!playlist && !sort;
 
-  // Filter videos (Search + Tags)
-  const filteredVideos = useMemo(() => {
-    return videos.filter(v => {
-      const matchesSearch = v.metadata.title.toLowerCase().includes(searchQuery.toLowerCase()) || 
-                            v.fileName.toLowerCase().includes(searchQuery.toLowerCase());
-      // Logic: AND relationship for tags
-      const matchesTags = selectedTags.length === 0 || selectedTags.every(tag => v.metadata.tags.includes(tag));
-      
-      return matchesSearch && matchesTags;
-    });
-  }, [videos, searchQuery, selectedTags]);
+  // Drag and drop reordering works on the full playlist, so it also behaves while filtered
+  const handleDrop = (targetId: string) => {
+    if (!playlist || !draggedId || draggedId === targetId) return;
+    const ids = playlist.videoIds.filter(id => id !== draggedId);
+    const targetIndex = ids.indexOf(targetId);
+    // Dropping onto a later card places the dragged one after it, onto an earlier card before it
+    const insertAt = playlist.videoIds.indexOf(draggedId) < playlist.videoIds.indexOf(targetId) ? targetIndex + 1 : targetIndex;
+    ids.splice(insertAt, 0, draggedId);
+    onUpdatePlaylist(playlist.id, { videoIds: ids });
+    setDraggedId(null);
+  };
+
+  const collectionNames = useMemo(() => collections.map(c => c.name), [collections]);
+
+  // --- Selection ---
+  const selectedSet = useMemo(() => new Set(selectedIds), [selectedIds]);
+  const anchorRef = useRef<string | null>(null); // Last plain or Ctrl click, start of Shift ranges
+  const cardRefs = useRef(new Map<string, HTMLDivElement>());
+  const [lasso, setLasso] = useState<Lasso | null>(null);
+
+  const handleCardClick = (e: React.MouseEvent, video: VideoAsset) => {
+    if (e.shiftKey && anchorRef.current) {
+      const ids = videos.map(v => v.id);
+      const from = ids.indexOf(anchorRef.current);
+      const to = ids.indexOf(video.id);
+      if (from !== -1) {
+        const range = ids.slice(Math.min(from, to), Math.max(from, to) + 1);
+        onSelectionChange(e.ctrlKey || e.metaKey ? Array.from(new Set([...selectedIds, ...range])) : range);
+        return;
+      }
+    }
+    anchorRef.current = video.id;
+    if (e.ctrlKey || e.metaKey) {
+      onSelectionChange(selectedSet.has(video.id) ? selectedIds.filter(id => id !== video.id) : [...selectedIds, video.id]);
+      return;
+    }
+    if (selectedIds.length > 0) onSelectionChange([]);
+    onSelect(video);
+  };
+
+  const toggleSelected = (video: VideoAsset) => {
+    anchorRef.current = video.id;
+    onSelectionChange(selectedSet.has(video.id) ? selectedIds.filter(id => id !== video.id) : [...selectedIds, video.id]);
+  };
+
+  // Lasso: drag on empty grid space selects every card the rectangle touches
+  const handleGridMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0 || (e.target as HTMLElement).closest('[data-video-id]')) return;
+    e.preventDefault();
+    const additive = e.ctrlKey || e.metaKey || e.shiftKey;
+    setLasso({ startX: e.clientX, startY: e.clientY, x: e.clientX, y: e.clientY, base: additive ? selectedIds : [] });
+  };
+
+  useEffect(() => {
+    if (!lasso) return;
+    const handleMove = (e: MouseEvent) => {
+      const next = { ...lasso, x: e.clientX, y: e.clientY };
+      const left = Math.min(next.startX, next.x), right = Math.max(next.startX, next.x);
+      const top = Math.min(next.startY, next.y), bottom = Math.max(next.startY, next.y);
+      const hits: string[] = [];
+      cardRefs.current.forEach((el, id) => {
+        const r = el.getBoundingClientRect();
+        if (r.right >= left && r.left <= right && r.bottom >= top && r.top <= bottom) hits.push(id);
+      });
+      setLasso(next);
+      onSelectionChange(Array.from(new Set([...next.base, ...hits])));
+    };
+    const handleUp = () => {
+      // A click on empty space without dragging clears the selection
+      if (Math.abs(lasso.x - lasso.startX) < 3 && Math.abs(lasso.y - lasso.startY) < 3 && lasso.base.length === 0) {
+        onSelectionChange([]);
+      }
+      setLasso(null);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [lasso, onSelectionChange]);
 
   const getColumnClass = () => {
       // Mapping slider 1-6 to tailwind column classes
@@ -40,13 +147,137 @@ const VideoGrid: React.FC<VideoGridProps> = ({ videos, collectionName, onPlay, o
       }
   };
 
+  // Season sections while a series is shown in episode order
+  const seasonGroups = useMemo(() => {
+    if (!series || sort) return null;
+    const groups = new Map<number, VideoAsset[]>();
+    videos.forEach(v => {
+      const season = episodeInfoOf(v)?.season ?? 1;
+      groups.set(season, [...(groups.get(season) || []), v]);
+    });
+    return series.seasons.filter(s => groups.has(s.number)).map(s => ({ season: s, videos: groups.get(s.number)! }));
+  }, [series, sort, videos]);
+  const nextUpInfo = series?.nextUp ? episodeInfoOf(series.nextUp) : null;
+
+  const renderCard = (video: VideoAsset) => (
+    <div 
+      key={video.id} 
+      data-video-id={video.id}
+      ref={(el) => { if (el) cardRefs.current.set(video.id, el); else cardRefs.current.delete(video.id); }}
+      className={`group relative bg-gray-900 rounded-xl overflow-hidden border transition-all duration-300 hover:shadow-xl hover:shadow-black/50 hover:-translate-y-1 cursor-pointer break-inside-avoid ${selectedSet.has(video.id) ? 'border-primary ring-2 ring-primary' : 'border-gray-800 hover:border-gray-600'} ${draggedId === video.id ? 'opacity-40' : ''}`}
+      onClick={(e) => handleCardClick(e, video)}
+      draggable={canReorder}
+      onDragStart={() => setDraggedId(video.id)}
+      onDragEnd={() => setDraggedId(null)}
+      onDragOver={(e) => { if (canReorder) e.preventDefault(); }}
+      onDrop={(e) => { e.preventDefault(); handleDrop(video.id); }}
+    >
+      {/* Thumbnail Container - Let image dictate height */}
+      <div className="w-full relative bg-gray-950">
+         {video.thumbnailUrl ? (
+           <img 
+             src={video.thumbnailUrl} 
+             alt={video.metadata.title} 
+             className="w-full h-auto block"
+             loading="lazy"
+           />
+         ) : (
+           <div className="w-full aspect-video flex items-center justify-center text-gray-700">
+             <FileVideo size={40} />
+           </div>
+         )}
+
+         {/* Watched state */}
+         {video.history?.completed ? (
+           <div className="absolute top-2 right-2 flex items-center gap-1 px-2 py-0.5 bg-green-900/80 text-green-200 text-[10px] font-semibold rounded" title={`Played ${video.history.playCount} time(s)`}>
+             <CheckCircle2 size={10} /> Watched
+           </div>
+         ) : !video.history?.playCount && (
+           <div className="absolute top-2 right-2 w-2.5 h-2.5 rounded-full bg-primary shadow" title="Unwatched" />
+         )}
+
+         {progressFractionOf(video) !== null && (
+           <div className="absolute bottom-0 left-0 right-0 h-1 bg-black/60">
+             <div className="h-full bg-primary" style={{ width: `${(progressFractionOf(video) || 0) * 100}%` }} />
+           </div>
+         )}
+
+         {series && episodeInfoOf(video) && (
+           <div className="absolute bottom-2 left-2 flex items-center gap-1">
+             <span className="px-2 py-0.5 bg-black/70 text-gray-200 text-[10px] font-mono rounded">{episodeLabel(episodeInfoOf(video)!)}</span>
+             {series.nextUp?.id === video.id && (
+               <span className="px-2 py-0.5 bg-primary text-white text-[10px] font-semibold rounded">Next up</span>
+             )}
+           </div>
+         )}
+
+         {playlist && (
+           <>
+             <div className="absolute bottom-2 left-2 px-2 py-0.5 bg-black/70 text-gray-200 text-[10px] font-mono rounded">
+               #{playlist.videoIds.indexOf(video.id) + 1}
+             </div>
+             <button
+               onClick={(e) => { e.stopPropagation(); onRemoveFromPlaylist(playlist.id, video.id); }}
+               className="absolute bottom-2 right-2 p-1 bg-black/70 hover:bg-red-900 text-gray-300 rounded opacity-0 group-hover:opacity-100 transition z-10"
+               title="Remove from playlist"
+             >
+               <X size={12} />
+             </button>
+           </>
+         )}
+
+         <div className="absolute top-2 left-2 flex flex-col items-start gap-1 z-10">
+           <button
+             onClick={(e) => { e.stopPropagation(); toggleSelected(video); }}
+             className={`w-5 h-5 rounded border flex items-center justify-center transition ${
+               selectedSet.has(video.id)
+                 ? 'bg-primary border-primary text-white'
+                 : `bg-black/50 border-gray-400 text-transparent ${selectedIds.length > 0 ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`
+             }`}
+             title="Select (Ctrl+click, Shift+click for a range)"
+           >
+             <Check size={12} />
+           </button>
+           {video.missing && (
+             <div className="flex items-center gap-1 px-2 py-0.5 bg-red-900/80 text-red-200 text-[10px] font-semibold rounded" title="File not found by the last rescan">
+               <AlertTriangle size={10} /> Missing
+             </div>
+           )}
+           {(video.metadata.favourite || !!video.metadata.rating || video.metadata.note) && (
+             <div className="flex items-center gap-1.5 px-2 py-0.5 bg-black/70 text-[10px] rounded">
+               {video.metadata.favourite && <Heart size={10} className="text-red-400" fill="currentColor" />}
+               {!!video.metadata.rating && (
+                 <span className="flex items-center gap-0.5 text-yellow-400 font-semibold">
+                   <Star size={10} fill="currentColor" /> {video.metadata.rating}
+                 </span>
+               )}
+               {video.metadata.note && (
+                 <span title={video.metadata.note}><StickyNote size={10} className="text-gray-300" /></span>
+               )}
+             </div>
+           )}
+         </div>
+         
+         {/* Overlay Play Button */}
+         <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center backdrop-blur-[1px]">
+            <button 
+              onClick={(e) => { e.stopPropagation(); onPlay(video); }}
+              className="bg-primary hover:bg-primary-hover text-white p-3 rounded-full shadow-lg transform transition hover:scale-110"
+            >
+              <Play size={24} fill="white" />
+            </button>
+         </div>
+      </div>
+    </div>
+  );
+
   return (
     <div className="flex-1 flex flex-col h-full bg-gray-950 overflow-hidden">
       {/* Header / Toolbar */}
       <div className="p-6 pb-2 shrink-0 space-y-4">
         <div className="flex items-center justify-between">
           <h2 className="text-2xl font-bold text-white flex items-center gap-3">
-             {collectionName} <span className="text-sm font-normal text-gray-500">({filteredVideos.length} videos)</span>
+             {collectionName} <span className="text-sm font-normal text-gray-500">({videos.length} videos)</span>
           </h2>
           
           <div className="flex items-center gap-4">
@@ -63,75 +294,158 @@ const VideoGrid: React.FC<VideoGridProps> = ({ videos, collectionName, onPlay, o
                />
             </div>
             
-            <button 
-              onClick={onShuffle}
-              disabled={filteredVideos.length === 0}
-              className="flex items-center gap-2 px-4 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg font-medium transition shadow-lg shadow-primary/20 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              <Shuffle size={18} />
-              <span>Shuffle Play</span>
-            </button>
+            {series ? (
+              <button
+                onClick={() => series.nextUp && onPlay(series.nextUp)}
+                disabled={!series.nextUp}
+                className="flex items-center gap-2 px-4 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg font-medium transition shadow-lg shadow-primary/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                title={series.nextUp ? series.nextUp.metadata.title : 'Everything watched'}
+              >
+                <Play size={18} />
+                <span>{nextUpInfo ? `Next up: ${episodeLabel(nextUpInfo)}` : 'All watched'}</span>
+              </button>
+            ) : playlist ? (
+              <>
+                <button
+                  onClick={() => onUpdatePlaylist(playlist.id, { repeat: NEXT_REPEAT_MODE[playlist.repeat] })}
+                  className={`p-2 rounded-lg border transition ${playlist.repeat !== 'off' ? 'bg-primary/20 text-primary border-primary/50' : 'bg-gray-900 text-gray-400 border-gray-800 hover:text-white'}`}
+                  title={`Repeat: ${playlist.repeat}`}
+                >
+                  {playlist.repeat === 'one' ? <Repeat1 size={18} /> : <Repeat size={18} />}
+                </button>
+                <button
+                  onClick={() => onUpdatePlaylist(playlist.id, { shuffle: !playlist.shuffle })}
+                  className={`p-2 rounded-lg border transition ${playlist.shuffle ? 'bg-primary/20 text-primary border-primary/50' : 'bg-gray-900 text-gray-400 border-gray-800 hover:text-white'}`}
+                  title={`Shuffle: ${playlist.shuffle ? 'on' : 'off'}`}
+                >
+                  <Shuffle size={18} />
+                </button>
+                <button 
+                  onClick={onShuffle}
+                  disabled={videos.length === 0}
+                  className="flex items-center gap-2 px-4 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg font-medium transition shadow-lg shadow-primary/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Play size={18} />
+                  <span>Play Playlist</span>
+                </button>
+              </>
+            ) : (
+              <>
+                <select
+                  value={shuffleMode}
+                  onChange={(e) => onShuffleModeChange(e.target.value as ShuffleMode)}
+                  className="bg-gray-900 border border-gray-800 rounded-lg px-2 py-2 text-sm text-gray-300 focus:outline-none focus:border-primary"
+                  title="Shuffle mode"
+                >
+                  {(Object.keys(SHUFFLE_MODE_LABELS) as ShuffleMode[]).map(mode => (
+                    <option key={mode} value={mode}>{SHUFFLE_MODE_LABELS[mode]}</option>
+                  ))}
+                </select>
+
+                <button 
+                  onClick={onShuffle}
+                  disabled={videos.length === 0}
+                  className="flex items-center gap-2 px-4 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg font-medium transition shadow-lg shadow-primary/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Shuffle size={18} />
+                  <span>Shuffle Play</span>
+                </button>
+              </>
+            )}
           </div>
         </div>
 
         {/* Filters */}
         <div className="flex flex-col md:flex-row gap-4">
-          <div className="relative flex-1">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" size={18} />
-            <input
-              type="text"
-              placeholder="Search videos..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="w-full pl-10 pr-4 py-2 bg-gray-900 border border-gray-800 rounded-lg text-gray-200 focus:outline-none focus:border-primary placeholder-gray-600"
-            />
+          <SearchBox
+            value={searchQuery}
+            onChange={onSearchChange}
+            tags={allTags}
+            collectionNames={collectionNames}
+            errors={searchErrors}
+          />
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onFieldFilterChange({ ...fieldFilter, favouritesOnly: !fieldFilter.favouritesOnly })}
+              className={`p-2 rounded-lg border transition ${fieldFilter.favouritesOnly ? 'bg-red-500/20 text-red-400 border-red-500/50' : 'bg-gray-900 text-gray-400 border-gray-800 hover:text-white'}`}
+              title="Favourites only"
+            >
+              <Heart size={18} fill={fieldFilter.favouritesOnly ? 'currentColor' : 'none'} />
+            </button>
+
+            <select
+              value={fieldFilter.minRating}
+              onChange={(e) => onFieldFilterChange({ ...fieldFilter, minRating: Number(e.target.value) })}
+              className="bg-gray-900 border border-gray-800 rounded-lg px-2 py-2 text-sm text-gray-300 focus:outline-none focus:border-primary"
+              title="Minimum rating"
+            >
+              <option value={0}>Any rating</option>
+              {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{'★'.repeat(n)}{n < 5 ? ' & up' : ''}</option>)}
+            </select>
+
+            <select
+              value={sort?.key || ''}
+              onChange={(e) => onSortChange(e.target.value ? { key: e.target.value as SortKey, descending: sort?.descending ?? false } : null)}
+              className="bg-gray-900 border border-gray-800 rounded-lg px-2 py-2 text-sm text-gray-300 focus:outline-none focus:border-primary"
+              title="Sort by"
+            >
+              <option value="">Default order</option>
+              {(Object.keys(SORT_KEY_LABELS) as SortKey[]).map(key => (
+                <option key={key} value={key}>{SORT_KEY_LABELS[key]}</option>
+              ))}
+            </select>
+            {sort && (
+              <button
+                onClick={() => onSortChange({ ...sort, descending: !sort.descending })}
+                className="p-2 rounded-lg border bg-gray-900 text-gray-400 border-gray-800 hover:text-white transition"
+                title={sort.descending ? 'Descending' : 'Ascending'}
+              >
+                {sort.descending ? <ArrowDown size={18} /> : <ArrowUp size={18} />}
+              </button>
+            )}
           </div>
         </div>
       </div>
 
       {/* Grid / Masonry */}
-      <div className="flex-1 overflow-y-auto p-6 pt-2">
-        {filteredVideos.length === 0 ? (
+      <div className="flex-1 overflow-y-auto p-6 pt-2 select-none" onMouseDown={handleGridMouseDown}>
+        {lasso && (
+          <div
+            className="fixed z-30 border border-primary bg-primary/10 pointer-events-none"
+            style={{
+              left: Math.min(lasso.startX, lasso.x),
+              top: Math.min(lasso.startY, lasso.y),
+              width: Math.abs(lasso.x - lasso.startX),
+              height: Math.abs(lasso.y - lasso.startY)
+            }}
+          />
+        )}
+        {videos.length === 0 ? (
           <div className="h-full flex flex-col items-center justify-center text-gray-500">
             <FileVideo size={64} className="mb-4 opacity-20" />
             <p>No videos found matching your criteria.</p>
           </div>
-        ) : (
-          <div className={`${getColumnClass()} gap-4 space-y-4 pb-20`}>
-            {filteredVideos.map(video => (
-              <div 
-                key={video.id} 
-                className="group relative bg-gray-900 rounded-xl overflow-hidden border border-gray-800 hover:border-gray-600 transition-all duration-300 hover:shadow-xl hover:shadow-black/50 hover:-translate-y-1 cursor-pointer break-inside-avoid"
-                onClick={() => onSelect(video)}
-              >
-                {/* Thumbnail Container - Let image dictate height */}
-                <div className="w-full relative bg-gray-950">
-                   {video.thumbnailUrl ? (
-                     <img 
-                       src={video.thumbnailUrl} 
-                       alt={video.metadata.title} 
-                       className="w-full h-auto block"
-                       loading="lazy"
-                     />
-                   ) : (
-                     <div className="w-full aspect-video flex items-center justify-center text-gray-700">
-                       <FileVideo size={40} />
-                     </div>
-                   )}
-                   
-                   {/* Overlay Play Button */}
-                   <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center backdrop-blur-[1px]">
-                      <button 
-                        onClick={(e) => { e.stopPropagation(); onPlay(video); }}
-                        className="bg-primary hover:bg-primary-hover text-white p-3 rounded-full shadow-lg transform transition hover:scale-110"
-                      >
-                        <Play size={24} fill="white" />
-                      </button>
-                   </div>
+        ) : seasonGroups ? (
+          <div className="space-y-8 pb-20">
+            {seasonGroups.map(({ season, videos: episodes }) => (
+              <div key={season.number}>
+                <h3 className="text-sm font-semibold text-gray-300 mb-3 flex items-center gap-3">
+                  {season.number === 0 ? 'Specials' : `Season ${season.number}`}
+                  <span className={`text-xs font-normal ${season.watched === season.episodes.length ? 'text-green-400' : 'text-gray-500'}`}>
+                    {season.watched}/{season.episodes.length} watched
+                  </span>
+                </h3>
+                <div className={`${getColumnClass()} gap-4 space-y-4`}>
+                  {episodes.map(renderCard)}
                 </div>
               </div>
             ))}
           </div>
+        ) : (
+          <div className={`${getColumnClass()} gap-4 space-y-4 pb-20`}>
+            {videos.map(renderCard)}
+          </div>
         )}
       </div>
     </div>
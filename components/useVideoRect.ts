@@ -0,0 +1,41 @@
+import React, { useEffect, useState } from 'react';
+
+// Where the picture actually sits inside the <video> element (object-contain letterboxing)
+export interface VideoRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  bottom: number; // Distance from the element's bottom edge
+}
+
+const rectOf = (el: HTMLVideoElement): VideoRect => {
+  const { clientWidth: cw, clientHeight: ch, videoWidth: vw, videoHeight: vh } = el;
+  if (!vw || !vh) return { left: 0, top: 0, width: cw, height: ch, bottom: 0 };
+  const scale = Math.min(cw / vw, ch / vh);
+  const width = vw * scale;
+  const height = vh * scale;
+  const top = (ch - height) / 2;
+  return { left: (cw - width) / 2, top, width, height, bottom: top };
+};
+
+// Kept up to date as the player resizes or a new video loads
+export const useVideoRect = (videoRef: React.RefObject<HTMLVideoElement>): VideoRect | null => {
+  const [rect, setRect] = useState<VideoRect | null>(null);
+
+  useEffect(() => {
+    const el = videoRef.current;
+    if (!el) return;
+    const update = () => setRect(rectOf(el));
+    const observer = new ResizeObserver(update);
+    observer.observe(el);
+    el.addEventListener('loadedmetadata', update);
+    update();
+    return () => {
+      observer.disconnect();
+      el.removeEventListener('loadedmetadata', update);
+    };
+  }, [videoRef]);
+
+  return rect;
+};
@@ -1,17 +1,263 @@
-import { app, BrowserWindow } from 'electron';
+import { app, BrowserWindow, ipcMain, dialog, protocol } from 'electron';
+import fs from 'fs';
 import path from 'path';
+import { Readable } from 'stream';
 import { fileURLToPath } from 'url';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
+// Custom scheme used by the renderer to stream local media by absolute path.
+// URL shape: vidfile://media/?root=<abs library root>&path=<relative/path.mp4>
+const MEDIA_SCHEME = 'vidfile';
+
+protocol.registerSchemesAsPrivileged([
+  { scheme: MEDIA_SCHEME, privileges: { standard: true, secure: true, stream: true, supportFetchAPI: true, corsEnabled: true } }
+]);
+
+const MIME_TYPES = {
+  '.mp4': 'video/mp4',
+  '.mkv': 'video/x-matroska',
+  '.webm': 'video/webm',
+  '.ts': 'video/mp2t',
+  '.avi': 'video/x-msvideo',
+  '.flv': 'video/x-flv',
+  '.rmvb': 'application/vnd.rn-realmedia-vbr',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+};
+
+// --- Library folders ---
+// The renderer only reaches files inside folders the user picked in the folder dialog. Picks are
+// remembered across restarts so saved libraries keep working; their parents are the library roots.
+const libraryFolders = new Set();
+const libraryRoots = new Set();
+const foldersFile = () => path.join(app.getPath('userData'), 'library-folders.json');
+
+const isInside = (parent, child) => {
+  const relative = path.relative(parent, child);
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+};
+
+const isLibraryFolder = (folderPath) =>
+  typeof folderPath === 'string' && Array.from(libraryFolders).some(folder => isInside(folder, path.resolve(folderPath)));
+
+const addLibraryFolder = (folderPath) => {
+  const resolved = path.resolve(folderPath);
+  if (libraryFolders.has(resolved)) return;
+  libraryFolders.add(resolved);
+  libraryRoots.add(path.dirname(resolved));
+};
+
+const loadLibraryFolders = () => {
+  try {
+    const saved = JSON.parse(fs.readFileSync(foldersFile(), 'utf8'));
+    if (Array.isArray(saved)) saved.filter(f => typeof f === 'string').forEach(addLibraryFolder);
+  } catch {
+    // Nothing picked yet
+  }
+};
+
+const saveLibraryFolders = () =>
+  fs.promises.writeFile(foldersFile(), JSON.stringify(Array.from(libraryFolders)))
+    .catch(e => console.error('Cannot save library folders:', e));
+
+// Library paths are stored with '/' separators relative to a root; resolve them for the host OS.
+// Throws for roots we never handed out and for anything that ends up outside the picked folders.
+const resolveLibraryPath = (root, relativePath) => {
+  if (typeof root !== 'string' || typeof relativePath !== 'string' || !libraryRoots.has(path.resolve(root))) {
+    throw new Error(`Not a library root: ${root}`);
+  }
+  const filePath = path.resolve(root, ...relativePath.split('/'));
+  if (!Array.from(libraryFolders).some(folder => isInside(folder, filePath))) {
+    throw new Error(`Outside the library folders: ${relativePath}`);
+  }
+  return filePath;
+};
+
+// Recursively lists every file below folderPath.
+// Relative paths include the picked folder's own name (like webkitRelativePath), so root is its parent.
+const scanFolder = async (folderPath) => {
+  const root = path.dirname(folderPath);
+  libraryRoots.add(root);
+  const entries = [];
+
+  const walk = async (dir) => {
+    let dirents;
+    try {
+      dirents = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch (e) {
+      console.error(`Cannot read ${dir}:`, e);
+      return;
+    }
+    for (const dirent of dirents) {
+      if (dirent.name.startsWith('.')) continue;
+      const fullPath = path.join(dir, dirent.name);
+      if (dirent.isDirectory()) {
+        await walk(fullPath);
+      } else if (dirent.isFile()) {
+        try {
+          const stats = await fs.promises.stat(fullPath);
+          entries.push({
+            name: dirent.name,
+            relativePath: path.relative(root, fullPath).split(path.sep).join('/'),
+            size: stats.size,
+            mtimeMs: stats.mtimeMs
+          });
+        } catch (e) {
+          console.error(`Cannot stat ${fullPath}:`, e);
+        }
+      }
+    }
+  };
+
+  await walk(folderPath);
+  return { root, entries };
+};
+
+// --- Folder watching ---
+// One recursive watcher per collection source folder. Bursts of events (a copy, an unpacked
+// archive) are coalesced and reported to the renderer once the folder has been quiet for a while.
+const WATCH_SETTLE_MS = 1500;
+const watchers = new Map();
+
+const watchFolder = (webContents, folderPath) => {
+  if (!isLibraryFolder(folderPath)) return false;
+  if (watchers.has(folderPath)) return true;
+  try {
+    const entry = { watcher: null, timer: null };
+    entry.watcher = fs.watch(folderPath, { recursive: true }, () => {
+      if (entry.timer) clearTimeout(entry.timer);
+      entry.timer = setTimeout(() => {
+        entry.timer = null;
+        if (!webContents.isDestroyed()) webContents.send('fs:folderChanged', folderPath);
+      }, WATCH_SETTLE_MS);
+    });
+    entry.watcher.on('error', (e) => {
+      console.error(`Watcher failed for ${folderPath}:`, e);
+      unwatchFolder(folderPath);
+    });
+    watchers.set(folderPath, entry);
+    return true;
+  } catch (e) {
+    console.error(`Cannot watch ${folderPath}:`, e);
+    return false;
+  }
+};
+
+const unwatchFolder = (folderPath) => {
+  const entry = watchers.get(folderPath);
+  if (!entry) return;
+  if (entry.timer) clearTimeout(entry.timer);
+  entry.watcher.close();
+  watchers.delete(folderPath);
+};
+
+// Serves local files with HTTP range support so <video> can seek
+const handleMediaRequest = async (request) => {
+  const url = new URL(request.url);
+  const root = url.searchParams.get('root');
+  const relativePath = url.searchParams.get('path');
+  if (!root || !relativePath) return new Response(null, { status: 400 });
+
+  let filePath;
+  try {
+    filePath = resolveLibraryPath(root, relativePath);
+  } catch {
+    return new Response(null, { status: 403 });
+  }
+  let stats;
+  try {
+    stats = await fs.promises.stat(filePath);
+  } catch {
+    return new Response(null, { status: 404 });
+  }
+
+  const headers = {
+    'Content-Type': MIME_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream',
+    'Accept-Ranges': 'bytes',
+    'Access-Control-Allow-Origin': '*',
+  };
+
+  const range = /bytes=(\d*)-(\d*)/.exec(request.headers.get('range') || '');
+  if (range && (range[1] || range[2])) {
+    let start = range[1] ? parseInt(range[1], 10) : stats.size - parseInt(range[2], 10);
+    let end = range[1] && range[2] ? parseInt(range[2], 10) : stats.size - 1;
+    start = Math.max(0, start);
+    end = Math.min(end, stats.size - 1);
+    if (start > end) {
+      return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${stats.size}` } });
+    }
+    return new Response(Readable.toWeb(fs.createReadStream(filePath, { start, end })), {
+      status: 206,
+      headers: { ...headers, 'Content-Range': `bytes ${start}-${end}/${stats.size}`, 'Content-Length': String(end - start + 1) }
+    });
+  }
+
+  return new Response(Readable.toWeb(fs.createReadStream(filePath)), {
+    status: 200,
+    headers: { ...headers, 'Content-Length': String(stats.size) }
+  });
+};
+
+const registerIpcHandlers = () => {
+  ipcMain.handle('fs:pickFolder', async (event) => {
+    const win = BrowserWindow.fromWebContents(event.sender);
+    const result = await dialog.showOpenDialog(win, { properties: ['openDirectory'] });
+    if (result.canceled || result.filePaths.length === 0) return null;
+    addLibraryFolder(result.filePaths[0]);
+    saveLibraryFolders();
+    return result.filePaths[0];
+  });
+
+  ipcMain.handle('fs:scanFolder', (_event, folderPath) => {
+    if (!isLibraryFolder(folderPath)) throw new Error(`Not a picked folder: ${folderPath}`);
+    return scanFolder(path.resolve(folderPath));
+  });
+
+  ipcMain.handle('fs:stat', async (_event, root, relativePath) => {
+    try {
+      const stats = await fs.promises.stat(resolveLibraryPath(root, relativePath));
+      return { size: stats.size, mtimeMs: stats.mtimeMs };
+    } catch {
+      return null;
+    }
+  });
+
+  ipcMain.handle('fs:watchFolder', (event, folderPath) => watchFolder(event.sender, folderPath));
+
+  ipcMain.handle('fs:unwatchFolder', (_event, folderPath) => unwatchFolder(folderPath));
+
+  // Reads several [start, length] byte ranges in one round trip (used for fingerprinting)
+  ipcMain.handle('fs:readChunks', async (_event, root, relativePath, ranges) => {
+    const handle = await fs.promises.open(resolveLibraryPath(root, relativePath), 'r');
+    try {
+      const chunks = [];
+      for (const [start, length] of ranges) {
+        const buffer = Buffer.alloc(length);
+        const { bytesRead } = await handle.read(buffer, 0, length, start);
+        chunks.push(buffer.subarray(0, bytesRead));
+      }
+      return chunks;
+    } finally {
+      await handle.close();
+    }
+  });
+
+  ipcMain.handle('fs:readFile', (_event, root, relativePath) => fs.promises.readFile(resolveLibraryPath(root, relativePath)));
+};
+
 function createWindow() {
   const win = new BrowserWindow({
     width: 1280,
     height: 800,
     backgroundColor: '#0d1117', // Matches tailwind gray-950
     webPreferences: {
-      nodeIntegration: true,
-      contextIsolation: false, // Simplifying for V0; enables simpler local dev
+      preload: path.join(__dirname, 'preload.cjs'),
+      nodeIntegration: false,
+      contextIsolation: true, // Renderer only reaches the filesystem through the preload bridge
       webSecurity: false // Allows loading local resources (file://) if needed later
     },
     autoHideMenuBar: true
@@ -19,12 +265,15 @@ function createWindow() {
 
   // In development, load the local Vite server
   win.loadURL('http://localhost:5173');
-  
+
   // Open DevTools optionally
   // win.webContents.openDevTools();
 }
 
 app.whenReady().then(() => {
+  loadLibraryFolders();
+  protocol.handle(MEDIA_SCHEME, handleMediaRequest);
+  registerIpcHandlers();
   createWindow();
 
   app.on('activate', () => {
@@ -35,7 +284,8 @@ app.whenReady().then(() => {
 });
 
 app.on('window-all-closed', () => {
+  for (const folderPath of Array.from(watchers.keys())) unwatchFolder(folderPath);
   if (process.platform !== 'darwin') {
     app.quit();
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,19 @@
+// Preload bridge: the only way the renderer touches the filesystem.
+// CommonJS because the package is "type": "module" and Electron preloads load as CJS by default.
+// Keep in sync with the VidBridge interface in services/electronBridge.ts.
+const { contextBridge, ipcRenderer } = require('electron');
+
+contextBridge.exposeInMainWorld('vidBridge', {
+  pickFolder: () => ipcRenderer.invoke('fs:pickFolder'),
+  scanFolder: (folderPath) => ipcRenderer.invoke('fs:scanFolder', folderPath),
+  stat: (root, relativePath) => ipcRenderer.invoke('fs:stat', root, relativePath),
+  readFile: (root, relativePath) => ipcRenderer.invoke('fs:readFile', root, relativePath),
+  readChunks: (root, relativePath, ranges) => ipcRenderer.invoke('fs:readChunks', root, relativePath, ranges),
+  watchFolder: (folderPath) => ipcRenderer.invoke('fs:watchFolder', folderPath),
+  unwatchFolder: (folderPath) => ipcRenderer.invoke('fs:unwatchFolder', folderPath),
+  onFolderChanged: (callback) => {
+    const listener = (_event, folderPath) => callback(folderPath);
+    ipcRenderer.on('fs:folderChanged', listener);
+    return () => ipcRenderer.removeListener('fs:folderChanged', listener);
+  },
+});
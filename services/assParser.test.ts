@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { assEventText, fadeOpacityAt, parseAss, parseAssTime, positionAt } from './assParser';
+
+const script = (events: string, styles = 'Style: Default,Arial,20,&H00FFFFFF,&H000000FF,&H00000000,&H00000000,0,0,0,0,100,100,0,0,1,2,2,2,10,10,10,1') => [
+  '[Script Info]',
+  'PlayResX: 1920',
+  'PlayResY: 1080',
+  '',
+  '[V4+ Styles]',
+  'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+  styles,
+  '',
+  '[Events]',
+  'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  events
+].join('\n');
+
+// A one-line script with the given dialogue text, on screen from 1s to 5s
+const eventOf = (text: string) => parseAss(script(`Dialogue: 0,0:00:01.00,0:00:05.00,Default,,0,0,0,,${text}`)).events[0];
+
+describe('parseAssTime', () => {
+  it.each([
+    ['0:00:01.00', 1],
+    ['1:02:03.45', 3723.45],
+    ['0:00:01.5', 1.5],
+    ['0:00:01', 1],
+    ['0:00:01,25', 1.25]
+  ])('%s', (value, seconds) => {
+    expect(parseAssTime(value)).toBeCloseTo(seconds, 6);
+  });
+
+  it('rejects what is not a time', () => {
+    expect(parseAssTime('00:01.00')).toBeNaN();
+  });
+});
+
+describe('parseAss', () => {
+  it('reads fields in the order their Format: lines give', () => {
+    const { styles, events } = parseAss([
+      '[V4+ Styles]',
+      'Format: Alignment, Name, Fontsize, Fontname, PrimaryColour, Bold',
+      'Style: 8,Sign,48,Verdana,&H0000FFFF,-1',
+      '',
+      '[Events]',
+      'Format: Start, End, Text, Style, Layer',
+      'Dialogue: 0:00:01.00,0:00:02.00,Wait, what, now?,Sign,3'
+    ].join('\n'));
+    expect(styles.Sign).toMatchObject({
+      name: 'Sign', fontName: 'Verdana', fontSize: 48, alignment: 8, bold: 700,
+      primaryColour: { r: 255, g: 255, b: 0, a: 1 }
+    });
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ start: 1, end: 2, layer: 3, alignment: 8 });
+    expect(events[0].style.name).toBe('Sign');
+    expect(assEventText(events[0])).toBe('Wait, what, now?');
+  });
+
+  it('keeps commas in a trailing Text field', () => {
+    expect(assEventText(eventOf('One, two,three'))).toBe('One, two,three');
+  });
+
+  it('maps old SSA alignment numbers to the numpad layout', () => {
+    const { styles } = parseAss([
+      '[V4 Styles]',
+      'Format: Name, Fontname, Fontsize, Alignment',
+      'Style: Top,Arial,20,6',
+      'Style: Middle,Arial,20,10'
+    ].join('\n'));
+    expect(styles.Top.alignment).toBe(8);
+    expect(styles.Middle.alignment).toBe(5);
+  });
+
+  it('defaults PlayRes to 384x288 and fills in a missing side for 4:3', () => {
+    expect(parseAss('[Events]\n')).toMatchObject({ playResX: 384, playResY: 288 });
+    expect(parseAss('[Script Info]\nPlayResY: 720\n')).toMatchObject({ playResX: 960, playResY: 720 });
+    expect(parseAss('[Script Info]\nPlayResX: 1280\n')).toMatchObject({ playResX: 1280, playResY: 1024 });
+  });
+
+  it('sorts by start time, then layer, and skips unusable lines', () => {
+    const { events } = parseAss(script([
+      'Dialogue: 1,0:00:03.00,0:00:04.00,Default,,0,0,0,,Third',
+      'Dialogue: 0,0:00:03.00,0:00:04.00,Default,,0,0,0,,Second',
+      'Comment: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,Not shown',
+      'Dialogue: 0,0:00:05.00,0:00:04.00,Default,,0,0,0,,Backwards',
+      'Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,{\\p1}m 0 0 l 100 0 100 100',
+      'Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,First'
+    ].join('\n')));
+    expect(events.map(assEventText)).toEqual(['First', 'Second', 'Third']);
+  });
+
+  it('falls back to Default for unknown styles and the style margins for zero ones', () => {
+    const event = parseAss(script('Dialogue: 0,0:00:01.00,0:00:02.00,*Missing,,0,25,0,,Hi')).events[0];
+    expect(event.style.name).toBe('Default');
+    expect(event).toMatchObject({ marginL: 10, marginR: 25, marginV: 10 });
+  });
+});
+
+describe('override tags', () => {
+  it('\\an sets the alignment, and the first one wins', () => {
+    expect(eventOf('{\\an8}Top').alignment).toBe(8);
+    expect(eventOf('{\\an7\\an3}Top left').alignment).toBe(7);
+    expect(eventOf('{\\a6}Legacy top').alignment).toBe(8);
+    expect(eventOf('Plain').alignment).toBe(2);
+  });
+
+  it('\\pos anchors the line and wins over a later \\move', () => {
+    const event = eventOf('{\\pos(960,540)\\move(0,0,100,100)}Centre');
+    expect(event.pos).toEqual({ x: 960, y: 540 });
+    expect(event.move).toBeUndefined();
+    expect(event.animated).toBe(false);
+    expect(positionAt(event, 3)).toEqual({ x: 960, y: 540 });
+    expect(positionAt(eventOf('Plain'), 3)).toBeNull();
+  });
+
+  it('\\move runs over the whole line, or between its own times', () => {
+    const whole = eventOf('{\\move(0,0,400,200)}Sliding');
+    expect(whole.animated).toBe(true);
+    expect(positionAt(whole, 1)).toEqual({ x: 0, y: 0 });
+    expect(positionAt(whole, 3)).toEqual({ x: 200, y: 100 });
+    expect(positionAt(whole, 6)).toEqual({ x: 400, y: 200 });
+
+    const timed = eventOf('{\\move(0,0,400,0,1000,2000)}Sliding');
+    expect(positionAt(timed, 1.5)).toEqual({ x: 0, y: 0 });
+    expect(positionAt(timed, 2.5)).toEqual({ x: 200, y: 0 });
+    expect(positionAt(timed, 4)).toEqual({ x: 400, y: 0 });
+  });
+
+  it('\\fad fades in from the start and out towards the end', () => {
+    const event = eventOf('{\\fad(500,1000)}Fading');
+    expect(event.fade).toEqual({ a1: 255, a2: 0, a3: 255, t1: 0, t2: 500, t3: 3000, t4: 4000 });
+    expect(event.animated).toBe(true);
+    expect(fadeOpacityAt(event, 1)).toBe(0);
+    expect(fadeOpacityAt(event, 1.25)).toBeCloseTo(0.5, 6);
+    expect(fadeOpacityAt(event, 3)).toBe(1);
+    expect(fadeOpacityAt(event, 4.5)).toBeCloseTo(0.5, 6);
+    expect(fadeOpacityAt(event, 5)).toBe(0);
+    expect(fadeOpacityAt(eventOf('Plain'), 1)).toBe(1);
+  });
+
+  it('\\fade takes its alphas and times as given', () => {
+    const event = eventOf('{\\fade(255,32,224,0,500,2000,2200)}Dim');
+    expect(event.fade).toEqual({ a1: 255, a2: 32, a3: 224, t1: 0, t2: 500, t3: 2000, t4: 2200 });
+    expect(fadeOpacityAt(event, 2)).toBeCloseTo(1 - 32 / 255, 6);
+  });
+
+  it('splits the text into spans where the styling changes', () => {
+    const { spans } = eventOf('Plain {\\i1\\c&H0000FF&}red italic{\\r} back\\Nnext');
+    expect(spans.map(s => s.text)).toEqual(['Plain ', 'red italic', ' back\nnext']);
+    expect(spans[1].style).toMatchObject({ italic: true, primaryColour: { r: 255, g: 0, b: 0, a: 1 } });
+    expect(spans[2].style).toMatchObject({ italic: false, primaryColour: { r: 255, g: 255, b: 255, a: 1 } });
+  });
+
+  it('times karaoke syllables from the start of the line', () => {
+    const { spans, animated } = eventOf('{\\k50}Ka{\\k25}ra{\\kf100}o');
+    expect(spans.map(s => s.karaoke)).toEqual([{ start: 0, end: 0.5 }, { start: 0.5, end: 0.75 }, { start: 0.75, end: 1.75 }]);
+    expect(animated).toBe(true);
+  });
+});
@@ -0,0 +1,489 @@
+// ASS/SSA subtitle parser. Reads [Script Info], the style section and [Events] using their own
+// Format: lines, and turns each Dialogue text into styled spans plus the line-level override
+// tags (alignment, position, movement, fades) the renderer needs. Animated \t transforms,
+// clips and vector drawings are not supported; drawings are dropped rather than shown as text.
+
+export interface AssColour {
+  r: number;
+  g: number;
+  b: number;
+  a: number; // Opacity 0-1 (ASS stores transparency, we flip it)
+}
+
+export interface AssStyle {
+  name: string;
+  fontName: string;
+  fontSize: number;
+  primaryColour: AssColour;
+  secondaryColour: AssColour; // Karaoke: syllables not sung yet
+  outlineColour: AssColour;
+  backColour: AssColour; // Shadow, or the box with BorderStyle 3
+  bold: number; // CSS font weight
+  italic: boolean;
+  underline: boolean;
+  strikeOut: boolean;
+  scaleX: number; // Percent
+  scaleY: number;
+  spacing: number;
+  angle: number; // Degrees, counter-clockwise
+  borderStyle: number; // 1 = outline + shadow, 3 = opaque box
+  outline: number;
+  shadow: number;
+  alignment: number; // Numpad layout: 1 = bottom left, 5 = middle centre, 9 = top right
+  marginL: number;
+  marginR: number;
+  marginV: number;
+}
+
+// The per-character part of a style that override tags can change mid-line
+export type AssSpanStyle = Pick<AssStyle,
+  | 'fontName' | 'fontSize' | 'primaryColour' | 'secondaryColour' | 'outlineColour' | 'backColour'
+  | 'bold' | 'italic' | 'underline' | 'strikeOut' | 'scaleX' | 'scaleY' | 'spacing' | 'outline' | 'shadow'
+> & { blur: number };
+
+export interface AssSpan {
+  text: string;
+  style: AssSpanStyle;
+  karaoke?: { start: number; end: number }; // Seconds from the start of the event
+}
+
+export interface AssMove {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  t1: number; // Ms from the start of the event; 0/0 = the whole duration
+  t2: number;
+}
+
+// \fad(in, out) is stored in the long \fade form
+export interface AssFade {
+  a1: number; // Transparency 0-255 before t1, between t2 and t3, and after t4
+  a2: number;
+  a3: number;
+  t1: number; // Ms from the start of the event
+  t2: number;
+  t3: number;
+  t4: number;
+}
+
+export interface AssEvent {
+  layer: number;
+  start: number; // Seconds
+  end: number;
+  style: AssStyle;
+  marginL: number;
+  marginR: number;
+  marginV: number;
+  alignment: number;
+  angle: number;
+  borderStyle: number;
+  pos?: { x: number; y: number };
+  move?: AssMove;
+  fade?: AssFade;
+  wrap: boolean; // False for \q2
+  spans: AssSpan[];
+  animated: boolean; // Needs redrawing while it is on screen (fades, moves, karaoke)
+}
+
+export interface AssScript {
+  playResX: number;
+  playResY: number;
+  styles: Record<string, AssStyle>;
+  events: AssEvent[]; // Sorted by start time
+}
+
+const DEFAULT_STYLE_FORMAT = [
+  'Name', 'Fontname', 'Fontsize', 'PrimaryColour', 'SecondaryColour', 'OutlineColour', 'BackColour',
+  'Bold', 'Italic', 'Underline', 'StrikeOut', 'ScaleX', 'ScaleY', 'Spacing', 'Angle',
+  'BorderStyle', 'Outline', 'Shadow', 'Alignment', 'MarginL', 'MarginR', 'MarginV', 'Encoding'
+];
+const DEFAULT_EVENT_FORMAT = ['Layer', 'Start', 'End', 'Style', 'Name', 'MarginL', 'MarginR', 'MarginV', 'Effect', 'Text'];
+
+const WHITE: AssColour = { r: 255, g: 255, b: 255, a: 1 };
+const BLACK: AssColour = { r: 0, g: 0, b: 0, a: 1 };
+
+const DEFAULT_STYLE: AssStyle = {
+  name: 'Default', fontName: 'Arial', fontSize: 20,
+  primaryColour: WHITE, secondaryColour: { r: 255, g: 0, b: 0, a: 1 }, outlineColour: BLACK, backColour: BLACK,
+  bold: 400, italic: false, underline: false, strikeOut: false,
+  scaleX: 100, scaleY: 100, spacing: 0, angle: 0,
+  borderStyle: 1, outline: 2, shadow: 2, alignment: 2, marginL: 10, marginR: 10, marginV: 10
+};
+
+export const cssColour = (c: AssColour, opacity = 1) => `rgba(${c.r}, ${c.g}, ${c.b}, ${+(c.a * opacity).toFixed(3)})`;
+
+// "&H00BBGGRR&", "&HBBGGRR" or a plain decimal (old SSA files)
+const parseColour = (value: string, fallback: AssColour): AssColour => {
+  const trimmed = value.trim().replace(/&$/, "");
+  const hex = trimmed.match(/^&H([0-9a-f]+)$/i);
+  const n = hex ? parseInt(hex[1], 16) : /^-?\d+$/.test(trimmed) ? parseInt(trimmed, 10) : NaN;
+  if (isNaN(n)) return fallback;
+  return { r: n & 0xff, g: (n >>> 8) & 0xff, b: (n >>> 16) & 0xff, a: 1 - ((n >>> 24) & 0xff) / 255 };
+};
+
+// Override colours carry no alpha; the existing one is kept
+const overrideColour = (value: string, current: AssColour): AssColour => {
+  const parsed = parseColour(value, current);
+  return { ...parsed, a: current.a };
+};
+
+const parseAlpha = (value: string, fallback: number): number => {
+  const hex = value.trim().replace(/&/g, "").replace(/^H/i, "");
+  const n = parseInt(hex, 16);
+  return isNaN(n) ? fallback : 1 - (n & 0xff) / 255;
+};
+
+// SSA "Alignment" is 1-3 bottom, +4 top, +8 middle
+const legacyAlignment = (a: number) => {
+  const column = ((a - 1) & 3) + 1;
+  if (a & 4) return column + 6;
+  if (a & 8) return column + 3;
+  return column;
+};
+
+const num = (value: string | undefined, fallback: number) => {
+  const n = parseFloat(value ?? "");
+  return isNaN(n) ? fallback : n;
+};
+
+const flag = (value: string | undefined) => !!value && value.trim() !== "0";
+
+// H:MM:SS.cc
+export const parseAssTime = (value: string): number => {
+  const m = value.trim().match(/^(\d+):(\d{1,2}):(\d{1,2})(?:[.,](\d+))?$/);
+  if (!m) return NaN;
+  const fraction = m[4] ? parseInt(m[4], 10) / Math.pow(10, m[4].length) : 0;
+  return parseInt(m[1], 10) * 3600 + parseInt(m[2], 10) * 60 + parseInt(m[3], 10) + fraction;
+};
+
+// Splits "a, b, c, rest, with, commas" into format.length fields, the last one taking the remainder
+const splitFields = (value: string, count: number): string[] => {
+  const fields: string[] = [];
+  let rest = value;
+  for (let i = 0; i < count - 1; i++) {
+    const comma = rest.indexOf(",");
+    if (comma === -1) break;
+    fields.push(rest.slice(0, comma).trim());
+    rest = rest.slice(comma + 1);
+  }
+  fields.push(count - 1 === fields.length ? rest : rest.trim());
+  return fields;
+};
+
+// Text may contain commas; it is normally last, but honour scripts that put it elsewhere
+const splitEventFields = (value: string, format: string[]): string[] => {
+  const textIndex = format.findIndex(f => f.toLowerCase() === "text");
+  if (textIndex === -1 || textIndex === format.length - 1) return splitFields(value, format.length);
+  const head = splitFields(value, textIndex + 1);
+  const rest = head.pop() ?? "";
+  const after = format.length - textIndex - 1;
+  const parts = rest.split(",");
+  const tail = parts.splice(Math.max(0, parts.length - after)).map(p => p.trim());
+  return [...head, parts.join(","), ...tail];
+};
+
+const toRecord = (format: string[], values: string[]): Record<string, string> =>
+  Object.fromEntries(format.map((key, i) => [key.toLowerCase(), values[i]]));
+
+const parseStyle = (fields: Record<string, string>, legacy: boolean): AssStyle => {
+  const d = DEFAULT_STYLE;
+  const alignment = num(fields.alignment, d.alignment);
+  const bold = fields.bold?.trim();
+  return {
+    name: fields.name?.trim() || d.name,
+    fontName: fields.fontname?.trim() || d.fontName,
+    fontSize: num(fields.fontsize, d.fontSize),
+    primaryColour: parseColour(fields.primarycolour ?? "", d.primaryColour),
+    secondaryColour: parseColour(fields.secondarycolour ?? "", d.secondaryColour),
+    // SSA calls the outline colour TertiaryColour
+    outlineColour: parseColour(fields.outlinecolour ?? fields.tertiarycolour ?? "", d.outlineColour),
+    backColour: parseColour(fields.backcolour ?? "", d.backColour),
+    bold: !bold || bold === "0" ? 400 : /^-?1$/.test(bold) ? 700 : num(bold, 700),
+    italic: flag(fields.italic),
+    underline: flag(fields.underline),
+    strikeOut: flag(fields.strikeout),
+    scaleX: num(fields.scalex, d.scaleX),
+    scaleY: num(fields.scaley, d.scaleY),
+    spacing: num(fields.spacing, d.spacing),
+    angle: num(fields.angle, d.angle),
+    borderStyle: num(fields.borderstyle, d.borderStyle),
+    outline: num(fields.outline, d.outline),
+    shadow: num(fields.shadow, d.shadow),
+    alignment: legacy ? legacyAlignment(alignment) : alignment,
+    marginL: num(fields.marginl, d.marginL),
+    marginR: num(fields.marginr, d.marginR),
+    marginV: num(fields.marginv, d.marginV)
+  };
+};
+
+const spanStyleOf = (style: AssStyle): AssSpanStyle => ({
+  fontName: style.fontName, fontSize: style.fontSize,
+  primaryColour: style.primaryColour, secondaryColour: style.secondaryColour,
+  outlineColour: style.outlineColour, backColour: style.backColour,
+  bold: style.bold, italic: style.italic, underline: style.underline, strikeOut: style.strikeOut,
+  scaleX: style.scaleX, scaleY: style.scaleY, spacing: style.spacing,
+  outline: style.outline, shadow: style.shadow, blur: 0
+});
+
+// Longest names first so "fscx" is not read as "fs" + "cx"
+const TAG_NAMES = [
+  'alpha', 'iclip', 'xbord', 'ybord', 'xshad', 'yshad',
+  'blur', 'bord', 'clip', 'fade', 'fscx', 'fscy', 'move', 'shad',
+  'fad', 'fax', 'fay', 'fsp', 'frx', 'fry', 'frz', 'org', 'pos',
+  '1c', '2c', '3c', '4c', '1a', '2a', '3a', '4a', 'an', 'be', 'fe', 'fn', 'fr', 'fs', 'kf', 'ko',
+  'a', 'b', 'c', 'i', 'k', 'K', 'p', 'q', 'r', 's', 't', 'u'
+];
+
+// Splits the inside of an override block on backslashes that are not inside parentheses
+const splitTags = (block: string): string[] => {
+  const tags: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const ch of block) {
+    if (ch === "(") depth++;
+    if (ch === ")") depth = Math.max(0, depth - 1);
+    if (ch === "\\" && depth === 0) {
+      if (current) tags.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  if (current) tags.push(current);
+  return tags;
+};
+
+const argsOf = (value: string): number[] =>
+  value.replace(/^\(|\)$/g, "").split(",").map(v => parseFloat(v));
+
+const unescapeText = (text: string, wrap: boolean) =>
+  text.replace(/\\N/g, "\n").replace(/\\n/g, wrap ? " " : "\n").replace(/\\h/g, "\u00A0");
+
+interface LineState {
+  alignment?: number;
+  angle: number;
+  pos?: { x: number; y: number };
+  move?: AssMove;
+  fade?: AssFade;
+  wrap: boolean;
+}
+
+const parseDialogueText = (text: string, style: AssStyle, styles: Record<string, AssStyle>, wrapStyle: number) => {
+  const spans: AssSpan[] = [];
+  const line: LineState = { angle: style.angle, wrap: wrapStyle !== 2 };
+  let current = spanStyleOf(style);
+  let drawing = false;
+  let karaoke: { start: number; end: number } | undefined;
+  let karaokeTime = 0;
+
+  const applyTag = (tag: string) => {
+    const name = TAG_NAMES.find(n => tag.startsWith(n));
+    if (!name) return;
+    const arg = tag.slice(name.length).trim();
+    switch (name) {
+      case 'b': current = { ...current, bold: arg === '' ? style.bold : arg === '0' ? 400 : arg === '1' ? 700 : num(arg, 700) }; break;
+      case 'i': current = { ...current, italic: arg === '' ? style.italic : flag(arg) }; break;
+      case 'u': current = { ...current, underline: arg === '' ? style.underline : flag(arg) }; break;
+      case 's': current = { ...current, strikeOut: arg === '' ? style.strikeOut : flag(arg) }; break;
+      case 'fn': current = { ...current, fontName: arg || style.fontName }; break;
+      case 'fs': current = { ...current, fontSize: num(arg, style.fontSize) }; break;
+      case 'fscx': current = { ...current, scaleX: num(arg, style.scaleX) }; break;
+      case 'fscy': current = { ...current, scaleY: num(arg, style.scaleY) }; break;
+      case 'fsp': current = { ...current, spacing: num(arg, style.spacing) }; break;
+      case 'c': case '1c': current = { ...current, primaryColour: overrideColour(arg, arg ? current.primaryColour : style.primaryColour) }; break;
+      case '2c': current = { ...current, secondaryColour: overrideColour(arg, arg ? current.secondaryColour : style.secondaryColour) }; break;
+      case '3c': current = { ...current, outlineColour: overrideColour(arg, arg ? current.outlineColour : style.outlineColour) }; break;
+      case '4c': current = { ...current, backColour: overrideColour(arg, arg ? current.backColour : style.backColour) }; break;
+      case '1a': current = { ...current, primaryColour: { ...current.primaryColour, a: parseAlpha(arg, style.primaryColour.a) } }; break;
+      case '2a': current = { ...current, secondaryColour: { ...current.secondaryColour, a: parseAlpha(arg, style.secondaryColour.a) } }; break;
+      case '3a': current = { ...current, outlineColour: { ...current.outlineColour, a: parseAlpha(arg, style.outlineColour.a) } }; break;
+      case '4a': current = { ...current, backColour: { ...current.backColour, a: parseAlpha(arg, style.backColour.a) } }; break;
+      case 'alpha': {
+        const a = parseAlpha(arg, 1);
+        current = {
+          ...current,
+          primaryColour: { ...current.primaryColour, a },
+          secondaryColour: { ...current.secondaryColour, a },
+          outlineColour: { ...current.outlineColour, a },
+          backColour: { ...current.backColour, a }
+        };
+        break;
+      }
+      case 'bord': current = { ...current, outline: num(arg, style.outline) }; break;
+      case 'shad': current = { ...current, shadow: num(arg, style.shadow) }; break;
+      case 'be': case 'blur': current = { ...current, blur: num(arg, 0) }; break;
+      case 'r': current = spanStyleOf(styles[arg] || style); break;
+      // Line-level tags: the first one wins, as in libass
+      case 'an': if (line.alignment === undefined && num(arg, 0) >= 1 && num(arg, 0) <= 9) line.alignment = num(arg, 2); break;
+      case 'a': if (line.alignment === undefined && num(arg, 0) > 0) line.alignment = legacyAlignment(num(arg, 2)); break;
+      case 'fr': case 'frz': line.angle = num(arg, style.angle); break;
+      case 'q': line.wrap = num(arg, wrapStyle) !== 2; break;
+      case 'pos': {
+        const [x, y] = argsOf(arg);
+        if (!line.pos && !line.move && !isNaN(x) && !isNaN(y)) line.pos = { x, y };
+        break;
+      }
+      case 'move': {
+        const [x1, y1, x2, y2, t1 = 0, t2 = 0] = argsOf(arg);
+        if (!line.pos && !line.move && [x1, y1, x2, y2].every(v => !isNaN(v))) line.move = { x1, y1, x2, y2, t1, t2 };
+        break;
+      }
+      case 'fad': {
+        const [fadeIn, fadeOut] = argsOf(arg);
+        if (!line.fade && !isNaN(fadeIn) && !isNaN(fadeOut)) {
+          // The end time is filled in once we know the event duration
+          line.fade = { a1: 255, a2: 0, a3: 255, t1: 0, t2: fadeIn, t3: -fadeOut, t4: -1 };
+        }
+        break;
+      }
+      case 'fade': {
+        const [a1, a2, a3, t1, t2, t3, t4] = argsOf(arg);
+        if (!line.fade && [a1, a2, a3, t1, t2, t3, t4].every(v => !isNaN(v))) line.fade = { a1, a2, a3, t1, t2, t3, t4 };
+        break;
+      }
+      case 'k': case 'K': case 'kf': case 'ko': {
+        const duration = num(arg, 0) / 100;
+        karaoke = { start: karaokeTime, end: karaokeTime + duration };
+        karaokeTime += duration;
+        break;
+      }
+      case 'p': drawing = num(arg, 0) > 0; break;
+      // \t, \clip, \org, \fax/\fay, \frx/\fry and friends are ignored
+    }
+  };
+
+  const pattern = /\{([^}]*)\}/g;
+  let last = 0;
+  const pushText = (raw: string) => {
+    if (!raw || drawing) return;
+    spans.push({ text: unescapeText(raw, line.wrap), style: current, ...(karaoke ? { karaoke } : {}) });
+  };
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    pushText(text.slice(last, match.index));
+    splitTags(match[1]).forEach(applyTag);
+    last = match.index + match[0].length;
+  }
+  pushText(text.slice(last));
+  return { spans, line };
+};
+
+export const parseAss = (content: string): AssScript => {
+  const info: Record<string, string> = {};
+  const styles: Record<string, AssStyle> = {};
+  const dialogue: { fields: Record<string, string> }[] = [];
+  let section = "";
+  let styleFormat = DEFAULT_STYLE_FORMAT;
+  let eventFormat = DEFAULT_EVENT_FORMAT;
+  let legacyStyles = false;
+
+  for (const rawLine of content.replace(/^\uFEFF/, "").split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(";")) continue;
+    const header = line.match(/^\[(.+)\]$/);
+    if (header) {
+      section = header[1].toLowerCase();
+      legacyStyles = section === "v4 styles";
+      continue;
+    }
+    const colon = line.indexOf(":");
+    if (colon === -1) continue;
+    const key = line.slice(0, colon).trim();
+    const value = line.slice(colon + 1).trim();
+
+    if (section === "script info") {
+      info[key.toLowerCase()] = value;
+    } else if (section.endsWith("styles")) {
+      if (key === "Format") styleFormat = value.split(",").map(f => f.trim());
+      else if (key === "Style") {
+        const style = parseStyle(toRecord(styleFormat, splitFields(value, styleFormat.length)), legacyStyles);
+        styles[style.name] = style;
+      }
+    } else if (section === "events") {
+      if (key === "Format") eventFormat = value.split(",").map(f => f.trim());
+      else if (key === "Dialogue") dialogue.push({ fields: toRecord(eventFormat, splitEventFields(value, eventFormat)) });
+    }
+  }
+
+  // Per the spec: 384x288 when missing, and a missing side follows a 4:3 frame
+  let playResX = num(info.playresx, 0);
+  let playResY = num(info.playresy, 0);
+  if (!playResX && !playResY) { playResX = 384; playResY = 288; }
+  else if (!playResX) playResX = Math.round(playResY * 4 / 3);
+  else if (!playResY) playResY = playResX === 1280 ? 1024 : Math.round(playResX * 3 / 4);
+  const wrapStyle = num(info.wrapstyle, 0);
+
+  const events: AssEvent[] = [];
+  for (const { fields } of dialogue) {
+    const start = parseAssTime(fields.start ?? "");
+    const end = parseAssTime(fields.end ?? "");
+    if (isNaN(start) || isNaN(end) || end <= start) continue;
+
+    // Some scripts write style names with a leading "*"; unknown ones fall back to Default
+    const styleName = (fields.style ?? "").replace(/^\*/, "").trim();
+    const style = styles[styleName] || styles.Default || Object.values(styles)[0] || DEFAULT_STYLE;
+    const { spans, line } = parseDialogueText(fields.text ?? "", style, styles, wrapStyle);
+    if (spans.length === 0) continue;
+
+    // \fad was stored relative to the end
+    const durationMs = (end - start) * 1000;
+    const fade = line.fade && line.fade.t4 === -1
+      ? { ...line.fade, t3: durationMs + line.fade.t3, t4: durationMs }
+      : line.fade;
+    const margin = (value: string | undefined, fallback: number) => num(value, 0) || fallback;
+
+    events.push({
+      layer: num(fields.layer, 0),
+      start,
+      end,
+      style,
+      marginL: margin(fields.marginl, style.marginL),
+      marginR: margin(fields.marginr, style.marginR),
+      marginV: margin(fields.marginv, style.marginV),
+      alignment: line.alignment ?? style.alignment,
+      angle: line.angle,
+      borderStyle: style.borderStyle,
+      pos: line.pos,
+      move: line.move,
+      fade,
+      wrap: line.wrap,
+      spans,
+      animated: !!(fade || line.move || spans.some(s => s.karaoke))
+    });
+  }
+  events.sort((a, b) => a.start - b.start || a.layer - b.layer);
+
+  return { playResX, playResY, styles, events };
+};
+
+// --- Evaluated at playback time ---
+
+// 0-1, from \fad/\fade
+export const fadeOpacityAt = (event: AssEvent, time: number): number => {
+  const f = event.fade;
+  if (!f) return 1;
+  const ms = (time - event.start) * 1000;
+  const lerp = (from: number, to: number, t0: number, t1: number) =>
+    t1 <= t0 ? to : from + (to - from) * Math.min(1, Math.max(0, (ms - t0) / (t1 - t0)));
+  let alpha: number;
+  if (ms < f.t1) alpha = f.a1;
+  else if (ms < f.t2) alpha = lerp(f.a1, f.a2, f.t1, f.t2);
+  else if (ms < f.t3) alpha = f.a2;
+  else if (ms < f.t4) alpha = lerp(f.a2, f.a3, f.t3, f.t4);
+  else alpha = f.a3;
+  return 1 - alpha / 255;
+};
+
+// Script coordinates of the anchor point, or null when the line is laid out by alignment and margins
+export const positionAt = (event: AssEvent, time: number): { x: number; y: number } | null => {
+  if (event.pos) return event.pos;
+  const m = event.move;
+  if (!m) return null;
+  const ms = (time - event.start) * 1000;
+  const [t1, t2] = m.t1 === 0 && m.t2 === 0 ? [0, (event.end - event.start) * 1000] : [m.t1, m.t2];
+  const k = t2 <= t1 ? 1 : Math.min(1, Math.max(0, (ms - t1) / (t2 - t1)));
+  return { x: m.x1 + (m.x2 - m.x1) * k, y: m.y1 + (m.y2 - m.y1) * k };
+};
+
+// Just the words, e.g. for plain-text conversions and search
+export const assEventText = (event: AssEvent) => event.spans.map(s => s.text).join("").replace(/\u00A0/g, " ");
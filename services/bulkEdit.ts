@@ -0,0 +1,108 @@
+import { AppState, Playlist, VideoAsset } from "../types";
+import { normalizeTags } from "./tagService";
+
+// Bulk edits on a selection of videos. Each one is applied by a single reducer action, and
+// captureBulkUndo records just enough of the previous state to reverse it later.
+
+export type BulkOperation =
+  | { kind: 'addTags'; tags: string[] }
+  | { kind: 'removeTags'; tags: string[] }
+  | { kind: 'setRating'; rating: number | undefined }
+  | { kind: 'setFavourite'; favourite: boolean }
+  | { kind: 'move'; collectionId: string }
+  | { kind: 'remove' }
+  | { kind: 'setThumbnails'; thumbnails: Record<string, string> }; // Video id -> new thumbnail
+
+export interface BulkUndo {
+  label: string;
+  videos: { index: number; video: VideoAsset }[]; // Previous versions and where they sat in the list
+  playlists: Playlist[]; // Only recorded for removals
+}
+
+export const describeBulkOperation = (operation: BulkOperation, count: number): string => {
+  const videos = `${count} video${count === 1 ? '' : 's'}`;
+  switch (operation.kind) {
+    case 'addTags': return `Tag ${videos} with ${operation.tags.join(', ')}`;
+    case 'removeTags': return `Remove ${operation.tags.join(', ')} from ${videos}`;
+    case 'setRating': return operation.rating ? `Rate ${videos} ${operation.rating}★` : `Clear rating of ${videos}`;
+    case 'setFavourite': return `${operation.favourite ? 'Favourite' : 'Unfavourite'} ${videos}`;
+    case 'move': return `Move ${videos}`;
+    case 'remove': return `Remove ${videos}`;
+    case 'setThumbnails': return `New thumbnails for ${videos}`;
+  }
+};
+
+export const captureBulkUndo = (state: AppState, ids: string[], operation: BulkOperation): BulkUndo => {
+  const selected = new Set(ids);
+  return {
+    label: describeBulkOperation(operation, ids.length),
+    videos: state.videos.flatMap((video, index) => selected.has(video.id) ? [{ index, video }] : []),
+    playlists: operation.kind === 'remove' ? state.playlists : []
+  };
+};
+
+const editMetadata = (video: VideoAsset, changes: Partial<VideoAsset['metadata']>): VideoAsset =>
+  ({ ...video, metadata: { ...video.metadata, ...changes } });
+
+export const applyBulkOperation = (state: AppState, ids: string[], operation: BulkOperation): AppState => {
+  const selected = new Set(ids);
+
+  if (operation.kind === 'remove') {
+    return {
+      ...state,
+      videos: state.videos.filter(v => !selected.has(v.id)),
+      playlists: state.playlists.map(p => ({ ...p, videoIds: p.videoIds.filter(id => !selected.has(id)) }))
+    };
+  }
+
+  const edit = (video: VideoAsset): VideoAsset => {
+    switch (operation.kind) {
+      case 'addTags':
+        return editMetadata(video, { tags: normalizeTags([...video.metadata.tags, ...operation.tags], state.tagAliases) });
+      case 'removeTags':
+        return editMetadata(video, { tags: video.metadata.tags.filter(t => !operation.tags.includes(t)) });
+      case 'setRating':
+        return editMetadata(video, { rating: operation.rating });
+      case 'setFavourite':
+        return editMetadata(video, { favourite: operation.favourite });
+      case 'move':
+        return { ...video, collectionId: operation.collectionId };
+      case 'setThumbnails':
+        return operation.thumbnails[video.id] ? { ...video, thumbnailUrl: operation.thumbnails[video.id] } : video;
+    }
+  };
+
+  return { ...state, videos: state.videos.map(v => selected.has(v.id) ? edit(v) : v) };
+};
+
+// Restores what the bulk edit changed (metadata, collection, thumbnail) without discarding things
+// that happened since, like watch history. Removed videos go back where they were.
+export const undoBulkEdit = (state: AppState, undo: BulkUndo): AppState => {
+  const previous = new Map(undo.videos.map(entry => [entry.video.id, entry.video]));
+  const present = new Set(state.videos.map(v => v.id));
+
+  let videos = state.videos.map(v => {
+    const before = previous.get(v.id);
+    return before ? { ...v, metadata: before.metadata, collectionId: before.collectionId, thumbnailUrl: before.thumbnailUrl } : v;
+  });
+
+  // Re-insert removed videos at their old positions (ascending, so earlier inserts don't shift later ones).
+  // Videos whose collection has been deleted since stay gone.
+  const collectionIds = new Set(state.collections.map(c => c.id));
+  const restored = undo.videos.filter(entry => !present.has(entry.video.id) && collectionIds.has(entry.video.collectionId));
+  if (restored.length > 0) {
+    videos = [...videos];
+    restored.forEach(entry => videos.splice(Math.min(entry.index, videos.length), 0, entry.video));
+  }
+
+  const existing = new Set(videos.map(v => v.id));
+  const playlists = undo.playlists.length === 0 ? state.playlists : state.playlists.map(p => {
+    const before = undo.playlists.find(b => b.id === p.id);
+    if (!before) return p;
+    // Old order first, then anything added since
+    const videoIds = [...before.videoIds, ...p.videoIds.filter(id => !before.videoIds.includes(id))];
+    return { ...p, videoIds: videoIds.filter(id => existing.has(id)) };
+  });
+
+  return { ...state, videos, playlists };
+};
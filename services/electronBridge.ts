@@ -0,0 +1,117 @@
+import { FolderSelection, SourceFile, SubtitleTrack, VideoAsset } from "../types";
+import { decodeText } from "./textEncoding";
+
+// Typed view of the API exposed by electron/preload.cjs.
+// Absent when the app runs in a plain browser, in which case we fall back to File handles.
+
+export interface ScannedEntry {
+  name: string;
+  relativePath: string;
+  size: number;
+  mtimeMs: number;
+}
+
+export interface FolderScan {
+  root: string;
+  entries: ScannedEntry[];
+}
+
+export interface VidBridge {
+  pickFolder: () => Promise<string | null>;
+  scanFolder: (folderPath: string) => Promise<FolderScan>;
+  stat: (root: string, relativePath: string) => Promise<{ size: number; mtimeMs: number } | null>;
+  readFile: (root: string, relativePath: string) => Promise<Uint8Array>;
+  readChunks: (root: string, relativePath: string, ranges: Array<[number, number]>) => Promise<Uint8Array[]>;
+  watchFolder: (folderPath: string) => Promise<boolean>;
+  unwatchFolder: (folderPath: string) => Promise<void>;
+  // Returns an unsubscribe function
+  onFolderChanged: (callback: (folderPath: string) => void) => () => void;
+}
+
+declare global {
+  interface Window {
+    vidBridge?: VidBridge;
+  }
+}
+
+const MEDIA_SCHEME = "vidfile";
+
+export const getBridge = (): VidBridge | null => window.vidBridge ?? null;
+
+// Streamable URL served by the main process (supports range requests)
+export const mediaUrl = (root: string, relativePath: string) =>
+  `${MEDIA_SCHEME}://media/?root=${encodeURIComponent(root)}&path=${encodeURIComponent(relativePath)}`;
+
+export const fileListToSelection = (fileList: FileList): FolderSelection => ({
+  root: null,
+  folderPath: null,
+  files: Array.from(fileList).map(f => ({
+    name: f.name,
+    relativePath: f.webkitRelativePath || f.name,
+    size: f.size,
+    file: f
+  }))
+});
+
+// Opens the native folder dialog and scans the picked folder. Resolves null if cancelled.
+export const pickAndScanFolder = async (): Promise<FolderSelection | null> => {
+  const bridge = getBridge();
+  if (!bridge) return null;
+  const folderPath = await bridge.pickFolder();
+  if (!folderPath) return null;
+  return scanFolderSelection(folderPath);
+};
+
+export const scanFolderSelection = async (folderPath: string): Promise<FolderSelection> => {
+  const bridge = getBridge();
+  if (!bridge) throw new Error("Folder scanning requires the desktop app.");
+  const scan = await bridge.scanFolder(folderPath);
+  return {
+    root: scan.root,
+    folderPath,
+    files: scan.entries.map(e => ({ name: e.name, relativePath: e.relativePath, size: e.size, file: null }))
+  };
+};
+
+// --- Resolving library files ---
+
+export const readSourceText = async (source: SourceFile, root: string | null): Promise<string> => {
+  if (source.file) return source.file.text();
+  const bridge = getBridge();
+  if (!bridge || !root) throw new Error(`File not accessible: ${source.relativePath}`);
+  return new TextDecoder().decode(await bridge.readFile(root, source.relativePath));
+};
+
+export const readSourceBytes = async (source: SourceFile, root: string | null): Promise<Uint8Array> => {
+  if (source.file) return new Uint8Array(await source.file.arrayBuffer());
+  const bridge = getBridge();
+  if (!bridge || !root) throw new Error(`File not accessible: ${source.relativePath}`);
+  return bridge.readFile(root, source.relativePath);
+};
+
+// Returns a URL the <video> element can play, plus a cleanup callback. Null if the file is unreachable.
+export const openVideoSource = (video: VideoAsset): { url: string; release: () => void } | null => {
+  if (video.fileHandle) {
+    const url = URL.createObjectURL(video.fileHandle);
+    return { url, release: () => URL.revokeObjectURL(url) };
+  }
+  if (video.libraryRoot && getBridge()) {
+    return { url: mediaUrl(video.libraryRoot, video.relativePath), release: () => {} };
+  }
+  return null;
+};
+
+// Raw bytes, so the encoding can be detected (or overridden) before decoding
+export const readSubtitleBytes = async (video: VideoAsset, track: SubtitleTrack): Promise<Uint8Array | null> => {
+  if (track.fileHandle) return new Uint8Array(await track.fileHandle.arrayBuffer());
+  const bridge = getBridge();
+  if (bridge && video.libraryRoot && track.relativePath) {
+    return bridge.readFile(video.libraryRoot, track.relativePath);
+  }
+  return null;
+};
+
+export const readSubtitleText = async (video: VideoAsset, track: SubtitleTrack): Promise<string | null> => {
+  const bytes = await readSubtitleBytes(video, track);
+  return bytes && decodeText(bytes, track.encoding).text;
+};
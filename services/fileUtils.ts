@@ -1,125 +1,56 @@
-import { VideoAsset, VideoMetadata, SUPPORTED_EXTENSIONS, SUBTITLE_EXTENSIONS } from "../types";
+import { VideoAsset, SUPPORTED_EXTENSIONS, SUBTITLE_EXTENSIONS, IMAGE_EXTENSIONS } from "../types";
 
 export const generateUUID = () => crypto.randomUUID();
 
-export const isVideoFile = (file: File) => {
+export const isVideoFile = (file: { name: string }) => {
   return SUPPORTED_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext));
 };
 
-export const isSubtitleFile = (file: File) => {
+export const isSubtitleFile = (file: { name: string }) => {
   return SUBTITLE_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext));
 };
 
-export const srtToVtt = (srtContent: string): string => {
-  // Simple SRT to WebVTT converter
-  let vtt = "WEBVTT\n\n";
-  
-  // Normalize line endings
-  let text = srtContent.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
-  
-  // Regex to match timestamp lines: 00:00:00,000 --> 00:00:00,000
-  // VTT uses dots instead of commas for milliseconds
-  text = text.replace(/(\d{2}:\d{2}:\d{2}),(\d{3})/g, '$1.$2');
-  
-  vtt += text;
-  return vtt;
+export const isImageFile = (file: { name: string }) => {
+  return IMAGE_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext));
 };
 
-export const assToVtt = (assContent: string): string => {
-  let vtt = "WEBVTT\n\n";
-  const lines = assContent.split(/\r?\n/);
-  
-  // Helper to find Nth comma
-  const findNthOccurrence = (str: string, char: string, n: number) => {
-      let index = -1;
-      for (let i = 0; i < n; i++) {
-          index = str.indexOf(char, index + 1);
-          if (index === -1) break;
-      }
-      return index;
-  };
-
-  for (const line of lines) {
-    if (line.startsWith('Dialogue:')) {
-       // Format usually: Dialogue: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
-       // Start=1, End=2. Text is everything after 9th comma.
-       
-       const firstComma = line.indexOf(',');
-       if (firstComma === -1) continue;
-
-       const rest = line.substring(firstComma + 1);
-       const parts = rest.split(',');
-       
-       if (parts.length >= 9) {
-          const start = parts[1]; // 0:00:05.00
-          const end = parts[2];   // 0:00:07.00
-          
-          // Reconstruct text (handle commas in dialogue)
-          const textStartIdx = findNthOccurrence(rest, ',', 9); 
-          let text = "";
-          if (textStartIdx !== -1) {
-             text = rest.substring(textStartIdx + 1);
-          } else {
-             text = parts.slice(9).join(',');
-          }
-          
-          // Cleanup ASS text formatting like {\an8} or \N
-          text = text.replace(/{[^}]+}/g, ''); // remove tags
-          text = text.replace(/\\N/g, '\n');   // replace newlines
-          text = text.replace(/\\n/g, '\n'); 
-          
-          // Convert Time: H:MM:SS.cc -> HH:MM:SS.mmm
-          const formatTime = (t: string) => {
-             const parts = t.split('.');
-             const hms = parts[0];
-             const cs = parts[1] || '00';
-             // WebVTT requires 3 digit ms, ASS usually has 2 (centiseconds)
-             return `${hms}.${cs.padEnd(3, '0')}`;
-          }
-
-          vtt += `${formatTime(start)} --> ${formatTime(end)}\n${text}\n\n`;
-       }
-    }
-  }
-  return vtt;
+// Draws the current frame of a loaded <video> as a JPEG data URL, scaled down to maxWidth if given
+const captureFrame = (video: HTMLVideoElement, maxWidth?: number): string => {
+  const canvas = document.createElement("canvas");
+  const scale = maxWidth && video.videoWidth > maxWidth ? maxWidth / video.videoWidth : 1;
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return "";
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/jpeg", 0.7);
 };
 
-export const parseNFO = async (file: File): Promise<Partial<VideoMetadata>> => {
-  const text = await file.text();
-  const parser = new DOMParser();
-  const xmlDoc = parser.parseFromString(text, "text/xml");
-  
-  const title = xmlDoc.querySelector("title")?.textContent || "";
-  const plot = xmlDoc.querySelector("plot")?.textContent || xmlDoc.querySelector("outline")?.textContent || "";
-  const tags = Array.from(xmlDoc.querySelectorAll("genre")).map(el => el.textContent || "").filter(Boolean);
-  
-  // Also check for 'tag' element
-  xmlDoc.querySelectorAll("tag").forEach(el => {
-      if(el.textContent) tags.push(el.textContent);
-  });
-
-  return { title, plot, tags };
+const createFrameVideo = (source: File | string) => {
+  const video = document.createElement("video");
+  video.preload = "metadata";
+  video.muted = true;
+  video.playsInline = true;
+  video.crossOrigin = "anonymous"; // Keeps the canvas untainted for bridge URLs
+
+  // Create a temporary URL
+  const isFile = typeof source !== "string";
+  const url = isFile ? URL.createObjectURL(source) : source;
+  const release = () => { if (isFile) URL.revokeObjectURL(url); };
+  video.src = url;
+  return { video, release };
 };
 
-// Generates a thumbnail from a video file at a random position (10%-90%)
-export const generateVideoThumbnail = async (videoFile: File): Promise<string> => {
+// Generates a thumbnail from a video file (or a streamable URL) at a random position (10%-90%)
+export const generateVideoThumbnail = async (source: File | string): Promise<string> => {
   return new Promise((resolve) => {
-    const video = document.createElement("video");
-    const canvas = document.createElement("canvas");
+    const { video, release } = createFrameVideo(source);
     
     // Safety timeout
     const timeout = setTimeout(() => {
        resolve(""); // Fail silently/empty
     }, 5000);
 
-    video.preload = "metadata";
-    video.muted = true;
-    video.playsInline = true;
-    
-    // Create a temporary URL
-    const url = URL.createObjectURL(videoFile);
-    video.src = url;
-
     video.onloadedmetadata = () => {
       // Seek to random position between 10% and 90%
       const duration = video.duration;
@@ -129,32 +60,61 @@ export const generateVideoThumbnail = async (videoFile: File): Promise<string> =
 
     video.onseeked = () => {
       clearTimeout(timeout);
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      const ctx = canvas.getContext("2d");
-      if (ctx) {
-        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-        const dataUrl = canvas.toDataURL("image/jpeg", 0.7);
-        URL.revokeObjectURL(url);
-        resolve(dataUrl);
-      } else {
-        resolve("");
-      }
+      const dataUrl = captureFrame(video);
+      release();
+      resolve(dataUrl);
     };
 
     video.onerror = () => {
       clearTimeout(timeout);
-      URL.revokeObjectURL(url);
+      release();
       resolve("");
     };
   });
 };
 
-export const generateNFOContent = (metadata: VideoMetadata): string => {
-  return `<?xml version="1.0" encoding="UTF-8" standalone="yes" ?>
-<movie>
-  <title>${metadata.title}</title>
-  <plot>${metadata.plot}</plot>
-  ${metadata.tags.map(tag => `<genre>${tag}</genre>`).join('\n  ')}
-</movie>`;
-};
\ No newline at end of file
+// Evenly spaced frames (skipping the very start and end), for multimodal metadata generation.
+// Returns whatever it managed to grab before an error or the timeout.
+export const captureVideoFrames = async (source: File | string, count: number, maxWidth = 512): Promise<string[]> => {
+  if (count <= 0) return [];
+  return new Promise((resolve) => {
+    const { video, release } = createFrameVideo(source);
+    const frames: string[] = [];
+    const finish = () => {
+      clearTimeout(timeout);
+      release();
+      resolve(frames);
+    };
+    const timeout = setTimeout(finish, 5000 * count);
+
+    video.onloadedmetadata = () => {
+      video.currentTime = video.duration / (count + 1);
+    };
+
+    video.onseeked = () => {
+      const frame = captureFrame(video, maxWidth);
+      if (frame) frames.push(frame);
+      if (frames.length >= count || !frame) finish();
+      else video.currentTime = video.duration * (frames.length + 1) / (count + 1);
+    };
+
+    video.onerror = finish;
+  });
+};
+
+// "movie.mp4" -> "movie.nfo"
+export const nfoFileNameOf = (videoFileName: string): string =>
+  `${videoFileName.substring(0, videoFileName.lastIndexOf('.')) || videoFileName}.nfo`;
+
+// Saves text through a temporary download link
+export const downloadFile = (fileName: string, content: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
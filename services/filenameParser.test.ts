@@ -0,0 +1,329 @@
+import { describe, expect, it } from 'vitest';
+import { ParsedFileName, parseFileName } from './filenameParser';
+
+// Real release names as they turn up in download folders
+const CASES: [string, ParsedFileName][] = [
+  // Scene style dotted names
+  ['The.Matrix.1999.1080p.BluRay.x264.DTS-HD.MA.5.1-FGT.mkv', {
+    title: 'The Matrix', year: 1999,
+    release: { resolution: '1080p', source: 'BluRay', videoCodec: 'H.264', audioCodec: 'DTS-HD MA 5.1', group: 'FGT' }
+  }],
+  ['Parasite.2019.KOREAN.1080p.AMZN.WEB-DL.DDP5.1.H.264-NTG.mkv', {
+    title: 'Parasite', year: 2019,
+    release: { resolution: '1080p', source: 'WEB-DL', videoCodec: 'H.264', audioCodec: 'E-AC-3 5.1', languages: ['Korean'], group: 'NTG' }
+  }],
+  ['Dune.Part.Two.2024.2160p.WEB-DL.DV.HDR10.DDP5.1.Atmos.H.265-FLUX.mkv', {
+    title: 'Dune Part Two', year: 2024,
+    release: { resolution: '2160p', source: 'WEB-DL', videoCodec: 'H.265', audioCodec: 'E-AC-3 5.1', hdr: 'Dolby Vision HDR10', group: 'FLUX' }
+  }],
+  ['Amelie.2001.FRENCH.1080p.BluRay.x264.DTS-HDC.mkv', {
+    title: 'Amelie', year: 2001,
+    release: { resolution: '1080p', source: 'BluRay', videoCodec: 'H.264', audioCodec: 'DTS', languages: ['French'], group: 'HDC' }
+  }],
+  ['Le.Fabuleux.Destin.2001.MULTi.VFF.1080p.BluRay.x264-ROUGH.mkv', {
+    title: 'Le Fabuleux Destin', year: 2001,
+    release: { resolution: '1080p', source: 'BluRay', videoCodec: 'H.264', languages: ['Multi', 'French'], group: 'ROUGH' }
+  }],
+  ['Seven.Samurai.1954.Criterion.1080p.BluRay.FLAC.1.0.x264-DON.mkv', {
+    title: 'Seven Samurai', year: 1954,
+    release: { resolution: '1080p', source: 'BluRay', videoCodec: 'H.264', audioCodec: 'FLAC 1.0', edition: 'Criterion', group: 'DON' }
+  }],
+  ['Pulp.Fiction.1994.Directors.Cut.DVDRip.XviD.AC3-WAF.avi', {
+    title: 'Pulp Fiction', year: 1994,
+    release: { source: 'DVDRip', videoCodec: 'XviD', audioCodec: 'AC-3', edition: "Director's Cut", group: 'WAF' }
+  }],
+  ['Inception.2010.1080p.BluRay.x264.DTS-WiKi.mkv', {
+    title: 'Inception', year: 2010,
+    release: { resolution: '1080p', source: 'BluRay', videoCodec: 'H.264', audioCodec: 'DTS', group: 'WiKi' }
+  }],
+  ['Interstellar.2014.2160p.UHD.BluRay.REMUX.HDR.HEVC.Atmos-EPSiLON.mkv', {
+    title: 'Interstellar', year: 2014,
+    release: { resolution: '2160p', source: 'BluRay Remux', videoCodec: 'H.265', audioCodec: 'Atmos', hdr: 'HDR10', group: 'EPSiLON' }
+  }],
+  ['Oppenheimer.2023.2160p.AMZN.WEB-DL.DDP5.1.Atmos.DV.HDR10.H.265-FLUX.mkv', {
+    title: 'Oppenheimer', year: 2023,
+    release: { resolution: '2160p', source: 'WEB-DL', videoCodec: 'H.265', audioCodec: 'E-AC-3 5.1', hdr: 'Dolby Vision HDR10', group: 'FLUX' }
+  }],
+  ['Heat.1995.UHD.BluRay.2160p.DTS-X.7.1.HEVC.REMUX-FraMeSToR.mkv', {
+    title: 'Heat', year: 1995,
+    release: { resolution: '2160p', source: 'BluRay Remux', videoCodec: 'H.265', audioCodec: 'DTS:X 7.1', group: 'FraMeSToR' }
+  }],
+  ['Mad.Max.Fury.Road.2015.BDRip.XviD.AC3-EVO.avi', {
+    title: 'Mad Max Fury Road', year: 2015, release: { source: 'BDRip', videoCodec: 'XviD', audioCodec: 'AC-3', group: 'EVO' }
+  }],
+  ['No.Country.for.Old.Men.2007.1080p.BluRay.DTS.x264-ESiR.mkv', {
+    title: 'No Country for Old Men', year: 2007,
+    release: { resolution: '1080p', source: 'BluRay', videoCodec: 'H.264', audioCodec: 'DTS', group: 'ESiR' }
+  }],
+  ['Arrival.2016.1080p.BluRay.x264.AAC2.0.mkv', {
+    title: 'Arrival', year: 2016, release: { resolution: '1080p', source: 'BluRay', videoCodec: 'H.264', audioCodec: 'AAC 2.0' }
+  }],
+  ['Her.2013.720p.BluRay.x264.Opus.mkv', {
+    title: 'Her', year: 2013, release: { resolution: '720p', source: 'BluRay', videoCodec: 'H.264', audioCodec: 'Opus' }
+  }],
+  ['Paprika.2006.1080p.BluRay.FLAC.x264-ANiHLS.mkv', {
+    title: 'Paprika', year: 2006,
+    release: { resolution: '1080p', source: 'BluRay', videoCodec: 'H.264', audioCodec: 'FLAC', group: 'ANiHLS' }
+  }],
+  ['Schindlers.List.1993.1080p.BluRay.AVC.LPCM.2.0.mkv', {
+    title: 'Schindlers List', year: 1993,
+    release: { resolution: '1080p', source: 'BluRay', videoCodec: 'H.264', audioCodec: 'PCM 2.0' }
+  }],
+  ['Metropolis.1927.AV1.1080p.mkv', { title: 'Metropolis', year: 1927, release: { resolution: '1080p', videoCodec: 'AV1' } }],
+  ['Up.2009.720p.BluRay.x264.mkv', {
+    title: 'Up', year: 2009, release: { resolution: '720p', source: 'BluRay', videoCodec: 'H.264' }
+  }],
+  ['the_shawshank_redemption_1994_720p.mp4', { title: 'The Shawshank Redemption', year: 1994, release: { resolution: '720p' } }],
+  ['The.Matrix.1999.PROPER.REPACK.1080p.BluRay.x264-GROUP.mkv', {
+    title: 'The Matrix', year: 1999, release: { resolution: '1080p', source: 'BluRay', videoCodec: 'H.264', group: 'GROUP' }
+  }],
+  ['Titanic.1997.3D.HSBS.1080p.BluRay.x264.mkv', {
+    title: 'Titanic', year: 1997, release: { resolution: '1080p', source: 'BluRay', videoCodec: 'H.264' }
+  }],
+  ['The.Hobbit.2012.HFR.2160p.mkv', { title: 'The Hobbit', year: 2012, release: { resolution: '2160p' } }],
+  ['The.Web.2019.1080p.WEBRip.x264.mkv', {
+    title: 'The Web', year: 2019, release: { resolution: '1080p', source: 'WEBRip', videoCodec: 'H.264' }
+  }],
+  ['Movie.Title.2019.HDCAM.x264.mkv', { title: 'Movie Title', year: 2019, release: { source: 'CAM', videoCodec: 'H.264' } }],
+  ['Movie.Title.2019.TS.XviD.avi', { title: 'Movie Title', year: 2019, release: { source: 'Telesync', videoCodec: 'XviD' } }],
+  ['Nosferatu.1922.VHSRip.XviD.avi', { title: 'Nosferatu', year: 1922, release: { source: 'VHS', videoCodec: 'XviD' } }],
+  ['Casablanca.1942.DVD9.NTSC.iso', { title: 'Casablanca', year: 1942, release: { source: 'DVD' } }],
+
+  // Language tags after the year
+  ['Amélie.2001.FRENCH.1080p.BluRay.x264-LOST.mkv', {
+    title: 'Amélie', year: 2001,
+    release: { resolution: '1080p', source: 'BluRay', videoCodec: 'H.264', languages: ['French'], group: 'LOST' }
+  }],
+  ['Intouchables.2011.TRUEFRENCH.720p.BluRay.x264-ROUGH.mkv', {
+    title: 'Intouchables', year: 2011,
+    release: { resolution: '720p', source: 'BluRay', videoCodec: 'H.264', languages: ['French'], group: 'ROUGH' }
+  }],
+  ['La.Haine.1995.FRENCH.VOSTFR.DVDRip.avi', {
+    title: 'La Haine', year: 1995, release: { source: 'DVDRip', languages: ['French', 'French subs'] }
+  }],
+  ['Der.Untergang.2004.German.DL.1080p.BluRay.x264.mkv', {
+    title: 'Der Untergang', year: 2004,
+    release: { resolution: '1080p', source: 'BluRay', videoCodec: 'H.264', languages: ['German', 'Dual Audio'] }
+  }],
+  ['Roma.2018.SPANISH.1080p.NF.WEB-DL.DDP5.1.x264.mkv', {
+    title: 'Roma', year: 2018,
+    release: { resolution: '1080p', source: 'WEB-DL', videoCodec: 'H.264', audioCodec: 'E-AC-3 5.1', languages: ['Spanish'] }
+  }],
+  ['Oldboy.2003.KOREAN.1080p.BluRay.x264.DTS-HD.MA.5.1.mkv', {
+    title: 'Oldboy', year: 2003,
+    release: { resolution: '1080p', source: 'BluRay', videoCodec: 'H.264', audioCodec: 'DTS-HD MA 5.1', languages: ['Korean'] }
+  }],
+  ['Spirited.Away.2001.JAPANESE.1080p.BluRay.x264.DUAL.AUDIO.mkv', {
+    title: 'Spirited Away', year: 2001,
+    release: { resolution: '1080p', source: 'BluRay', videoCodec: 'H.264', languages: ['Japanese', 'Dual Audio'] }
+  }],
+  ['Crouching.Tiger.Hidden.Dragon.2000.CHINESE.720p.BluRay.mkv', {
+    title: 'Crouching Tiger Hidden Dragon', year: 2000, release: { resolution: '720p', source: 'BluRay', languages: ['Chinese'] }
+  }],
+  ['Dune.2021.MULTi.2160p.HDR.WEB-DL.x265-PTP.mkv', {
+    title: 'Dune', year: 2021,
+    release: { resolution: '2160p', source: 'WEB-DL', videoCodec: 'H.265', hdr: 'HDR10', languages: ['Multi'], group: 'PTP' }
+  }],
+
+  // Titles that contain a year or are one
+  ['2001.A.Space.Odyssey.1968.2160p.UHD.BluRay.REMUX.HDR.HEVC.TrueHD.Atmos.7.1-FGT.mkv', {
+    title: '2001 A Space Odyssey', year: 1968,
+    release: { resolution: '2160p', source: 'BluRay Remux', videoCodec: 'H.265', audioCodec: 'TrueHD Atmos 7.1', hdr: 'HDR10', group: 'FGT' }
+  }],
+  ['1917.2019.1080p.WEB-DL.DDP5.1.H264-EVO.mkv', {
+    title: '1917', year: 2019,
+    release: { resolution: '1080p', source: 'WEB-DL', videoCodec: 'H.264', audioCodec: 'E-AC-3 5.1', group: 'EVO' }
+  }],
+  ['12.Angry.Men.1957.1080p.BluRay.mkv', {
+    title: '12 Angry Men', year: 1957, release: { resolution: '1080p', source: 'BluRay' }
+  }],
+  ['300.2006.720p.BluRay.x264.mkv', {
+    title: '300', year: 2006, release: { resolution: '720p', source: 'BluRay', videoCodec: 'H.264' }
+  }],
+  ['2012.2009.1080p.BluRay.mkv', { title: '2012', year: 2009, release: { resolution: '1080p', source: 'BluRay' } }],
+  ['Blade.Runner.2049.2017.1080p.mkv', { title: 'Blade Runner 2049', year: 2017, release: { resolution: '1080p' } }],
+  ['Blade Runner 2049 (2017) [2160p] [HDR10] [TrueHD Atmos 7.1].mkv', {
+    title: 'Blade Runner 2049', year: 2017, release: { resolution: '2160p', audioCodec: 'TrueHD Atmos 7.1', hdr: 'HDR10' }
+  }],
+  ['1917.mkv', { title: '1917', release: {} }],
+
+  // Editions on either side of the year
+  ['Blade.Runner.1982.Final.Cut.1080p.BluRay.x265.10bit.AAC.5.1-Tigole.mkv', {
+    title: 'Blade Runner', year: 1982,
+    release: { resolution: '1080p', source: 'BluRay', videoCodec: 'H.265', audioCodec: 'AAC 5.1', edition: 'Final Cut', group: 'Tigole' }
+  }],
+  ['Aliens.1986.Special.Edition.720p.BluRay.x264-SiNNERS.mkv', {
+    title: 'Aliens', year: 1986,
+    release: { resolution: '720p', source: 'BluRay', videoCodec: 'H.264', edition: 'Special Edition', group: 'SiNNERS' }
+  }],
+  ['The.Lord.of.the.Rings.2001.EXTENDED.REMASTERED.2160p.UHD.BluRay.x265.10bit.HDR.DTS-X.7.1-SWTYBLZ.mkv', {
+    title: 'The Lord of the Rings', year: 2001,
+    release: { resolution: '2160p', source: 'BluRay', videoCodec: 'H.265', audioCodec: 'DTS:X 7.1', hdr: 'HDR10', edition: 'Extended, Remastered', group: 'SWTYBLZ' }
+  }],
+  ['Movie.Extended.mkv', { title: 'Movie', release: { edition: 'Extended' } }],
+  ['The.Dark.Knight.2008.IMAX.1080p.BluRay.x265.10bit.AAC.5.1-Tigole.mkv', {
+    title: 'The Dark Knight', year: 2008,
+    release: { resolution: '1080p', source: 'BluRay', videoCodec: 'H.265', audioCodec: 'AAC 5.1', edition: 'IMAX', group: 'Tigole' }
+  }],
+  ['Gladiator.2000.Extended.Remastered.1080p.BluRay.x264-SPARKS.mkv', {
+    title: 'Gladiator', year: 2000,
+    release: { resolution: '1080p', source: 'BluRay', videoCodec: 'H.264', edition: 'Extended, Remastered', group: 'SPARKS' }
+  }],
+  ['Apocalypse.Now.1979.Final.Cut.2160p.UHD.BluRay.x265-TERMiNAL.mkv', {
+    title: 'Apocalypse Now', year: 1979,
+    release: { resolution: '2160p', source: 'BluRay', videoCodec: 'H.265', edition: 'Final Cut', group: 'TERMiNAL' }
+  }],
+  ['Alien.1979.Directors.Cut.1080p.BluRay.x264-AMIABLE.mkv', {
+    title: 'Alien', year: 1979,
+    release: { resolution: '1080p', source: 'BluRay', videoCodec: 'H.264', edition: "Director's Cut", group: 'AMIABLE' }
+  }],
+  ["Kingdom.of.Heaven.2005.Director's.Cut.720p.BluRay.x264.mkv", {
+    title: 'Kingdom of Heaven', year: 2005,
+    release: { resolution: '720p', source: 'BluRay', videoCodec: 'H.264', edition: "Director's Cut" }
+  }],
+  ['Amadeus.1984.Theatrical.Cut.DVDRip.XviD.avi', {
+    title: 'Amadeus', year: 1984, release: { source: 'DVDRip', videoCodec: 'XviD', edition: 'Theatrical' }
+  }],
+  ['Zack.Snyders.Justice.League.2021.Open.Matte.1080p.HMAX.WEB-DL.DD5.1.H.264.mkv', {
+    title: 'Zack Snyders Justice League', year: 2021,
+    release: { resolution: '1080p', source: 'WEB-DL', videoCodec: 'H.264', audioCodec: 'AC-3 5.1', edition: 'Open Matte' }
+  }],
+  ['Avatar.2009.Extended.Collectors.Edition.1080p.BluRay.x264.mkv', {
+    title: 'Avatar', year: 2009,
+    release: { resolution: '1080p', source: 'BluRay', videoCodec: 'H.264', edition: 'Extended, Collectors Edition' }
+  }],
+  ['Taxi.Driver.1976.Criterion.1080p.BluRay.FLAC.x264.mkv', {
+    title: 'Taxi Driver', year: 1976,
+    release: { resolution: '1080p', source: 'BluRay', videoCodec: 'H.264', audioCodec: 'FLAC', edition: 'Criterion' }
+  }],
+  ['Se7en.1995.REMASTERED.1080p.BluRay.x264.mkv', {
+    title: 'Se7en', year: 1995, release: { resolution: '1080p', source: 'BluRay', videoCodec: 'H.264', edition: 'Remastered' }
+  }],
+
+  // Episodes
+  ['Breaking.Bad.S01E01.Pilot.720p.HDTV.x264-CTU.mkv', {
+    title: 'Breaking Bad', episodeTitle: 'Pilot',
+    release: { resolution: '720p', source: 'HDTV', videoCodec: 'H.264', group: 'CTU' }
+  }],
+  ['Breaking.Bad.S01E01.Pilot.PROPER.720p.HDTV.x264-CTU.mkv', {
+    title: 'Breaking Bad', episodeTitle: 'Pilot',
+    release: { resolution: '720p', source: 'HDTV', videoCodec: 'H.264', group: 'CTU' }
+  }],
+  ['The.Office.US.S02E03.Office.Olympics.1080p.AMZN.WEB-DL.DDP5.1.H.264-NTb.mkv', {
+    title: 'The Office US', episodeTitle: 'Office Olympics',
+    release: { resolution: '1080p', source: 'WEB-DL', videoCodec: 'H.264', audioCodec: 'E-AC-3 5.1', group: 'NTb' }
+  }],
+  ['la.casa.de.papel.s01e01.spanish.720p.nf.web-dl.aac2.0.x264-skgtv.mkv', {
+    title: 'La Casa De Papel',
+    release: { resolution: '720p', source: 'WEB-DL', videoCodec: 'H.264', audioCodec: 'AAC 2.0', languages: ['Spanish'], group: 'skgtv' }
+  }],
+  ['S.W.A.T.2017.S01E01.1080p.WEB.h264-TBS.mkv', {
+    title: 'S.W.A.T', year: 2017,
+    release: { resolution: '1080p', source: 'WEB', videoCodec: 'H.264', group: 'TBS' }
+  }],
+  ['Game.of.Thrones.S08E03.The.Long.Night.1080p.AMZN.WEB-DL.DDP5.1.H.264-GoT.mkv', {
+    title: 'Game of Thrones', episodeTitle: 'The Long Night',
+    release: { resolution: '1080p', source: 'WEB-DL', videoCodec: 'H.264', audioCodec: 'E-AC-3 5.1', group: 'GoT' }
+  }],
+  ['Stranger.Things.S04E01.Chapter.One.The.Hellfire.Club.2160p.NF.WEB-DL.DDP5.1.Atmos.DV.HEVC-TEPES.mkv', {
+    title: 'Stranger Things', episodeTitle: 'Chapter One The Hellfire Club',
+    release: { resolution: '2160p', source: 'WEB-DL', videoCodec: 'H.265', audioCodec: 'E-AC-3 5.1', hdr: 'Dolby Vision', group: 'TEPES' }
+  }],
+  ['The.Mandalorian.S02E08.2160p.DSNP.WEB-DL.DDP5.1.Atmos.HDR.HEVC-MZABI.mkv', {
+    title: 'The Mandalorian',
+    release: { resolution: '2160p', source: 'WEB-DL', videoCodec: 'H.265', audioCodec: 'E-AC-3 5.1', hdr: 'HDR10', group: 'MZABI' }
+  }],
+  ['friends.s01e01.720p.bluray.x264-psychd.mkv', {
+    title: 'Friends', release: { resolution: '720p', source: 'BluRay', videoCodec: 'H.264', group: 'psychd' }
+  }],
+  ['Doctor.Who.2005.S01E01.Rose.720p.BluRay.x264.mkv', {
+    title: 'Doctor Who', year: 2005, episodeTitle: 'Rose', release: { resolution: '720p', source: 'BluRay', videoCodec: 'H.264' }
+  }],
+  ['Planet.Earth.II.S01E01.Islands.2160p.UHD.BluRay.x265.HLG.mkv', {
+    title: 'Planet Earth II', episodeTitle: 'Islands',
+    release: { resolution: '2160p', source: 'BluRay', videoCodec: 'H.265', hdr: 'HLG' }
+  }],
+  ['Better.Call.Saul.S06E13.Saul.Gone.HDTV.x264-TORRENTGALAXY.mkv', {
+    title: 'Better Call Saul', episodeTitle: 'Saul Gone', release: { source: 'HDTV', videoCodec: 'H.264', group: 'TORRENTGALAXY' }
+  }],
+  ['The.Crown.S05E01.GERMAN.DL.1080p.WEB.h264-WvF.mkv', {
+    title: 'The Crown',
+    release: { resolution: '1080p', source: 'WEB', videoCodec: 'H.264', languages: ['German', 'Dual Audio'], group: 'WvF' }
+  }],
+  ['Seinfeld.S03E17-E18.The.Boyfriend.DVDRip.XviD.avi', {
+    title: 'Seinfeld', episodeTitle: 'The Boyfriend', release: { source: 'DVDRip', videoCodec: 'XviD' }
+  }],
+  ['The Simpsons - 3x07 - Treehouse of Horror II.avi', {
+    title: 'The Simpsons', episodeTitle: 'Treehouse of Horror II', release: {}
+  }],
+  ['Band of Brothers Season 1 Complete 1080p BluRay.mkv', {
+    title: 'Band of Brothers', release: { resolution: '1080p', source: 'BluRay' }
+  }],
+
+  // Anime: [Group] prefix, absolute episode number, checksum suffix
+  ['[HorribleSubs] Shingeki no Kyojin - 12 [720p].mkv', {
+    title: 'Shingeki no Kyojin', release: { group: 'HorribleSubs', resolution: '720p' }
+  }],
+  ['[SubsPlease] Frieren - 12 (1080p) [ABCD1234].mkv', {
+    title: 'Frieren', release: { group: 'SubsPlease', resolution: '1080p' }
+  }],
+  ['[Erai-raws] Sousou no Frieren - 28v2 [1080p][Multiple Subtitle].mkv', {
+    title: 'Sousou no Frieren', release: { group: 'Erai-raws', resolution: '1080p' }
+  }],
+  ['[Judas] Sousou no Frieren - 12v2 [1080p][HEVC x265 10bit][Multi-Subs].mkv', {
+    title: 'Sousou no Frieren', release: { group: 'Judas', resolution: '1080p', videoCodec: 'H.265', languages: ['Multi'] }
+  }],
+  ['[SubsPlease] Chainsaw Man - 12 (1080p) [A1B2C3D4].mkv', {
+    title: 'Chainsaw Man', release: { group: 'SubsPlease', resolution: '1080p' }
+  }],
+  ['[Commie] Steins;Gate - 01 [BD 720p AAC] [B1A2C3D4].mkv', {
+    title: 'Steins;Gate', release: { group: 'Commie', resolution: '720p', source: 'BluRay', audioCodec: 'AAC' }
+  }],
+  ['[Coalgirls] Clannad After Story - 03 (1920x1080 Blu-ray FLAC) [12345678].mkv', {
+    title: 'Clannad After Story', release: { group: 'Coalgirls', resolution: '1080p', source: 'BluRay', audioCodec: 'FLAC' }
+  }],
+  ['[Group] My Video - 2.mp4', { title: 'My Video', release: { group: 'Group' } }],
+
+  // Bracketed and plain names
+  ['Some Film (2004) [2160p] [WEB-DL] [HDR10] [DDP 5.1] [MULTi].mkv', {
+    title: 'Some Film', year: 2004,
+    release: { resolution: '2160p', source: 'WEB-DL', audioCodec: 'E-AC-3 5.1', hdr: 'HDR10', languages: ['Multi'] }
+  }],
+  ['Spider-Man - Into the Spider-Verse (2018) [1080p].mkv', {
+    title: 'Spider-Man - Into the Spider-Verse', year: 2018, release: { resolution: '1080p' }
+  }],
+  ['Spider-Man.2002.mkv', { title: 'Spider-Man', year: 2002, release: {} }],
+  ['Home Movie.mp4', { title: 'Home Movie', release: {} }],
+  ['Star.Wars.Episode.IV.A.New.Hope.1977.1080p.mkv', {
+    title: 'Star Wars Episode IV A New Hope', year: 1977, release: { resolution: '1080p' }
+  }],
+  ['M.A.S.H.1970.DVDRip.avi', { title: 'M.A.S.H', year: 1970, release: { source: 'DVDRip' } }],
+  ['Everything Everywhere All at Once (2022) (1080p BluRay x265 10bit Tigole).mkv', {
+    title: 'Everything Everywhere All at Once', year: 2022,
+    release: { resolution: '1080p', source: 'BluRay', videoCodec: 'H.265' }
+  }],
+  ['Back to the Future (1985).mp4', { title: 'Back to the Future', year: 1985, release: {} }],
+  ['The Godfather Part II (1974).mkv', { title: 'The Godfather Part II', year: 1974, release: {} }],
+  ['Mission Impossible - Dead Reckoning Part One (2023).mkv', {
+    title: 'Mission Impossible - Dead Reckoning Part One', year: 2023, release: {}
+  }],
+  ['Trip to Japan [4K].mp4', { title: 'Trip to Japan', release: { resolution: '2160p' } }],
+
+  // Personal videos: dashes, numbers and dates that are part of the name
+  ['My Video - 2.mp4', { title: 'My Video - 2', release: {} }],
+  ['Show - 01 - Pilot.mkv', { title: 'Show - 01 - Pilot', release: {} }],
+  ['Birthday party (Mum) - part 2.mp4', { title: 'Birthday party (Mum) - part 2', release: {} }],
+  ['Lecture 03 - Linear Algebra.mp4', { title: 'Lecture 03 - Linear Algebra', release: {} }],
+  ['Holiday video 2015-07-04.mp4', { title: 'Holiday video', year: 2015, release: {} }],
+  ['wedding_highlights_final_v2.mp4', { title: 'Wedding Highlights Final V2', release: {} }],
+  ['Cats.Compilation.Vol.3.webm', { title: 'Cats Compilation Vol 3', release: {} }],
+  ['GOPR0042.MP4', { title: 'GOPR0042', release: {} }],
+  ['VID_20230615_183045.mp4', { title: 'VID 20230615 183045', release: {} }],
+  ['IMG_1234.MOV', { title: 'IMG 1234', release: {} }],
+];
+
+describe('parseFileName', () => {
+  it.each(CASES)('%s', (fileName, expected) => {
+    expect(parseFileName(fileName)).toEqual(expected);
+  });
+});
@@ -0,0 +1,323 @@
+import { ReleaseInfo, VideoAsset } from "../types";
+
+// Offline parser for scene/release style file names, used when there is no NFO.
+//
+//   The.Movie.2019.1080p.BluRay.x264-GRP.mkv
+//     -> "The Movie", 2019, 1080p, BluRay, H.264, group GRP
+//   Some Film (2004) [2160p] [WEB-DL] [HDR10] [DDP 5.1] [MULTi]
+//     -> "Some Film", 2004, 2160p, WEB-DL, HDR10, E-AC-3 5.1, Multi
+//
+// The title is everything before the first technical marker (year, resolution, source, codec...),
+// so words like "French" or "Extended" only count as tags once they appear after it.
+
+export interface ParsedFileName {
+  title: string;
+  episodeTitle?: string; // "Show.S01E02.Pilot.720p" -> "Pilot"
+  year?: number;
+  release: ReleaseInfo;
+}
+
+interface Marker {
+  pattern: RegExp; // Matched case-insensitively between separators
+  value: string | ((match: RegExpExecArray) => string);
+  weak?: boolean; // Also a common word ("Web", "Cam"...): only counts after the title has ended
+}
+
+// Separators around tokens: space . _ - and brackets
+const SEP = '[\\s._\\-\\[\\](){}]';
+const token = (body: string) => new RegExp(`(?:^|${SEP})(?:${body})(?=$|${SEP})`, 'i');
+
+const RESOLUTIONS: Marker[] = [
+  { pattern: token('(2160|1440|1080|720|576|480|360)[pi]'), value: m => `${m[1]}p` },
+  { pattern: token('4k|uhd'), value: '2160p' },
+  { pattern: token('\\d{3,4}x(2160|1440|1080|720|576|480|360)'), value: m => `${m[1]}p` }, // "1920x1080"
+];
+
+const SOURCES: Marker[] = [
+  { pattern: token('blu-?ray|bluray|bd-?remux'), value: 'BluRay' },
+  { pattern: token('bd-?rip|br-?rip'), value: 'BDRip' },
+  { pattern: token('bd'), value: 'BluRay', weak: true },
+  { pattern: token('web-?dl|webdl'), value: 'WEB-DL' },
+  { pattern: token('web-?rip'), value: 'WEBRip' },
+  { pattern: token('amzn|nf|dsnp|hmax|atvp|hulu'), value: 'WEB-DL', weak: true }, // Streaming service tags imply WEB-DL
+  { pattern: token('web'), value: 'WEB', weak: true },
+  { pattern: token('hdtv|pdtv|sdtv'), value: 'HDTV' },
+  { pattern: token('dvd-?rip'), value: 'DVDRip' },
+  { pattern: token('dvd-?r|dvd[59]?'), value: 'DVD' },
+  { pattern: token('ntsc|pal'), value: 'DVD', weak: true },
+  { pattern: token('hd-?rip'), value: 'HDRip' },
+  { pattern: token('hd-?cam|cam-?rip'), value: 'CAM' },
+  { pattern: token('cam'), value: 'CAM', weak: true },
+  { pattern: token('hd-?ts|telesync'), value: 'Telesync' },
+  { pattern: token('ts'), value: 'Telesync', weak: true },
+  { pattern: token('vhs-?rip'), value: 'VHS' },
+  { pattern: token('vhs'), value: 'VHS', weak: true },
+];
+
+const VIDEO_CODECS: Marker[] = [
+  { pattern: token('[xh]\\.?265|hevc'), value: 'H.265' },
+  { pattern: token('[xh]\\.?264|avc'), value: 'H.264' },
+  { pattern: token('av1'), value: 'AV1' },
+  { pattern: token('vp9'), value: 'VP9' },
+  { pattern: token('xvid'), value: 'XviD' },
+  { pattern: token('divx'), value: 'DivX' },
+  { pattern: token('vc-?1'), value: 'VC-1' },
+  { pattern: token('mpeg-?2'), value: 'MPEG-2' },
+];
+
+// Most specific first; only the first match is used
+const AUDIO_CODECS: Marker[] = [
+  { pattern: token('true-?hd(?:[\\s.]?atmos)?'), value: m => /atmos/i.test(m[0]) ? 'TrueHD Atmos' : 'TrueHD' },
+  { pattern: token('dts-?hd(?:[\\s.-]?ma)?'), value: m => /ma$/i.test(m[0]) ? 'DTS-HD MA' : 'DTS-HD' },
+  { pattern: token('dts-?x'), value: 'DTS:X' },
+  { pattern: token('dts'), value: 'DTS' },
+  { pattern: token('ddp|dd\\+|e-?ac-?3|ddp?[257][\\s.]?[01]'), value: m => /ddp|dd\+|e-?ac/i.test(m[0]) ? 'E-AC-3' : 'AC-3' },
+  { pattern: token('ac-?3|dolby[\\s.]?digital'), value: 'AC-3' },
+  { pattern: token('dd'), value: 'AC-3', weak: true },
+  { pattern: token('atmos'), value: 'Atmos', weak: true },
+  { pattern: token('aac(?:[257][\\s.]?[01])?'), value: 'AAC' },
+  { pattern: token('flac'), value: 'FLAC' },
+  { pattern: token('opus'), value: 'Opus', weak: true },
+  { pattern: token('mp3'), value: 'MP3' },
+  { pattern: token('l?pcm'), value: 'PCM' },
+];
+
+const CHANNELS = /(?:^|\D)([1-7])[\s.]([01])(?=$|\D)/;
+
+const HDR: Marker[] = [
+  { pattern: token('dovi|dolby[\\s.]?vision'), value: 'Dolby Vision' },
+  { pattern: token('dv'), value: 'Dolby Vision', weak: true },
+  { pattern: token('hdr10\\+|hdr10plus'), value: 'HDR10+' },
+  { pattern: token('hdr10|hdr'), value: 'HDR10' },
+  { pattern: token('hlg'), value: 'HLG', weak: true },
+];
+
+const EDITIONS: Marker[] = [
+  { pattern: token("director'?s[\\s.]?cut"), value: "Director's Cut" },
+  { pattern: token('extended(?:[\\s.](?:cut|edition))?'), value: 'Extended' },
+  { pattern: token('theatrical(?:[\\s.](?:cut|edition))?'), value: 'Theatrical' },
+  { pattern: token('unrated'), value: 'Unrated' },
+  { pattern: token('uncut'), value: 'Uncut' },
+  { pattern: token('remastered'), value: 'Remastered' },
+  { pattern: token('imax'), value: 'IMAX' },
+  { pattern: token('criterion'), value: 'Criterion' },
+  { pattern: token('final[\\s.]cut'), value: 'Final Cut' },
+  { pattern: token('(?:special|ultimate|collectors?|anniversary)[\\s.]edition'), value: m => m[0].replace(/^[\s._\-[\](){}]/, '').replace(/[\s.]/, ' ').replace(/\b\w/g, c => c.toUpperCase()) },
+  { pattern: token('open[\\s.]matte'), value: 'Open Matte' },
+];
+
+const LANGUAGES: Marker[] = [
+  { pattern: token('multi(?:-?subs?)?'), value: 'Multi' },
+  { pattern: token('dual[\\s.-]?audio|(?<!web-)dl'), value: 'Dual Audio' }, // German releases write "German.DL"
+  { pattern: token('(?:true)?french|vff|vfq|vf2'), value: 'French' },
+  { pattern: token('vostfr'), value: 'French subs' },
+  { pattern: token('german|deutsch'), value: 'German' },
+  { pattern: token('ita|italian'), value: 'Italian' },
+  { pattern: token('spanish|castellano|esp'), value: 'Spanish' },
+  { pattern: token('latino'), value: 'Latin American Spanish' },
+  { pattern: token('portuguese|por|pt-?br'), value: 'Portuguese' },
+  { pattern: token('russian|rus'), value: 'Russian' },
+  { pattern: token('japanese|jpn'), value: 'Japanese' },
+  { pattern: token('korean|kor'), value: 'Korean' },
+  { pattern: token('chinese|chs|cht|mandarin|cantonese'), value: 'Chinese' },
+  { pattern: token('hindi'), value: 'Hindi' },
+  { pattern: token('dutch|flemish'), value: 'Dutch' },
+  { pattern: token('swedish|swe'), value: 'Swedish' },
+  { pattern: token('danish'), value: 'Danish' },
+  { pattern: token('norwegian'), value: 'Norwegian' },
+  { pattern: token('finnish'), value: 'Finnish' },
+  { pattern: token('nordic'), value: 'Nordic' },
+  { pattern: token('polish|pldub'), value: 'Polish' },
+  { pattern: token('turkish'), value: 'Turkish' },
+  { pattern: token('english|eng'), value: 'English' },
+];
+
+// Recognised and cut from the title, but not recorded
+const OTHER: Marker[] = [
+  { pattern: token('proper|repack|rerip|real|internal|limited|complete|hfr|sdr|10-?bit|8-?bit|hi10p?|3d|hsbs|sbs|subbed|dubbed|hc|hardsub|sample|read-?nfo'), value: '' }
+];
+
+// "S01E02", "1x02", "Season 1"
+const EPISODE = token('s\\d{1,3}[\\s._-]?e\\d{1,4}(?:-?e\\d{1,4})?|\\d{1,2}x\\d{2,3}|season[\\s._-]?\\d{1,3}');
+// The anime style absolute number in "[Group] Title - 12 [720p]"; without the group tag " - 2" is part of the title
+const ANIME_EPISODE = token('(?<=\\s)-\\s\\d{1,4}(?:v\\d)?');
+const YEAR = /(?:^|[\s._\-[(])((?:19|20)\d{2})(?=$|[\s._\-\])])/g;
+
+interface Found {
+  index: number; // Where the token starts (separator excluded)
+  end: number;
+  value: string;
+}
+
+const findFirst = (name: string, markers: Marker[], strongOnly = false): Found | null => {
+  let best: Found | null = null;
+  for (const marker of markers) {
+    if (strongOnly && marker.weak) continue;
+    const match = marker.pattern.exec(name);
+    if (!match) continue;
+    const lead = /^[\s._\-[\](){}]/.test(match[0]) ? 1 : 0;
+    const found = {
+      index: match.index + lead,
+      end: match.index + match[0].length,
+      value: typeof marker.value === 'string' ? marker.value : marker.value(match)
+    };
+    if (!best || found.index < best.index) best = found;
+  }
+  return best;
+};
+
+// Every distinct match of any marker, in order of appearance
+const findAll = (name: string, markers: Marker[]): Found[] => {
+  const found: Found[] = [];
+  for (const marker of markers) {
+    const global = new RegExp(marker.pattern.source, 'gi');
+    let match: RegExpExecArray | null;
+    while ((match = global.exec(name))) {
+      const lead = /^[\s._\-[\](){}]/.test(match[0]) ? 1 : 0;
+      found.push({
+        index: match.index + lead,
+        end: match.index + match[0].length,
+        value: typeof marker.value === 'string' ? marker.value : marker.value(match)
+      });
+      global.lastIndex = match.index + Math.max(1, match[0].length - 1);
+    }
+  }
+  return found.sort((a, b) => a.index - b.index);
+};
+
+const unique = (values: string[]) => Array.from(new Set(values));
+
+// "the.matrix" -> "The Matrix", "S.W.A.T" stays an acronym
+const cleanTitle = (text: string): string => {
+  let title = text.includes(' ') ? text.replace(/_/g, ' ') : text.replace(/(?<!\b[A-Z])\.|\.(?![A-Z]\b)|_/g, ' ');
+  title = title
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s\-–:[({]+|[\s\-–:[({]+$/g, '')
+    .replace(/\(\s*\)|\[\s*\]/g, '')
+    .trim();
+  // All lower case scene names get title case, anything else keeps its spelling
+  if (title && title === title.toLowerCase()) title = title.replace(/(^|\s)(\p{L})/gu, (_, space, c) => space + c.toUpperCase());
+  return title;
+};
+
+export const parseFileName = (fileName: string): ParsedFileName => {
+  let name = fileName.replace(/\.[a-z0-9]{2,4}$/i, '');
+  const release: ReleaseInfo = {};
+
+  // [Group] prefix (anime style), [ABCD1234] checksum suffix, trailing site tags like [rarbg]
+  const prefixGroup = /^\[([^\]]+)\]\s*/.exec(name);
+  if (prefixGroup) {
+    release.group = prefixGroup[1].trim();
+    name = name.slice(prefixGroup[0].length);
+  }
+  name = name.replace(/\s*\[[0-9A-F]{8}\]$/i, '');
+  const suffixGroup = /\s*\[([^\]]+)\]$/.exec(name);
+
+  // Where the title stops: first year (not at the very start), resolution, source, codec or episode
+  const yearCandidates: Found[] = [];
+  let yearMatch: RegExpExecArray | null;
+  YEAR.lastIndex = 0;
+  while ((yearMatch = YEAR.exec(name))) {
+    const index = yearMatch.index + yearMatch[0].indexOf(yearMatch[1]);
+    yearCandidates.push({ index, end: index + 4, value: yearMatch[1] });
+    YEAR.lastIndex = index + 4;
+  }
+
+  const strong = [
+    findFirst(name, RESOLUTIONS, true),
+    findFirst(name, SOURCES, true),
+    findFirst(name, VIDEO_CODECS, true),
+    findFirst(name, AUDIO_CODECS, true),
+    findFirst(name, HDR, true)
+  ].filter((f): f is Found => !!f && f.index > 0);
+  const episode = findFirst(name, [EPISODE, ...(prefixGroup ? [ANIME_EPISODE] : [])].map(pattern => ({ pattern, value: '' })));
+  let titleEnd = strong.reduce((min, f) => Math.min(min, f.index), name.length);
+
+  // Editions and tags right before the year/markers belong to the release, e.g. "Blade.Runner.Final.Cut.1982"
+  const editions = findAll(name, EDITIONS);
+  const cuttable = [...editions, ...findAll(name, OTHER)];
+  const cutAdjacent = (start: number, end: number, tags: Found[]) => {
+    for (let adjacent = true; adjacent;) {
+      const next = tags.find(e => e.index > start && e.index < end && /^[\s._\-[\](){}]*$/.test(name.slice(e.end, end)));
+      adjacent = !!next;
+      if (next) end = next.index;
+    }
+    return end;
+  };
+
+  // Episodes: whatever sits between "S01E02" and the technical part is the episode title,
+  // minus any language or release tags in front of the markers ("s01e01.spanish.720p").
+  // Brackets after the number hold tags, not a title ("[Group] Show - 01 [BD 720p]")
+  let episodeTitle: string | undefined;
+  if (episode && episode.index > 0 && episode.index < titleEnd) {
+    const bracket = name.slice(episode.end).search(/[[(]/);
+    const tagsStart = bracket === -1 ? titleEnd : Math.min(titleEnd, episode.end + bracket);
+    const episodeEnd = cutAdjacent(episode.end - 1, tagsStart, [...cuttable, ...findAll(name, LANGUAGES)]);
+    episodeTitle = cleanTitle(name.slice(episode.end, episodeEnd)) || undefined;
+    titleEnd = episode.index;
+  }
+
+  // The year is the last one before the technical part, so "2001 A Space Odyssey 1968" and "1917 (2019)" work
+  const year = yearCandidates.filter(y => y.index > 0 && y.index <= titleEnd).pop();
+  if (year) titleEnd = Math.min(titleEnd, year.index);
+
+  titleEnd = cutAdjacent(0, titleEnd, cuttable);
+  // No technical markers at all: an edition still ends the title ("Movie.Extended.mkv")
+  if (titleEnd === name.length) {
+    const firstEdition = editions.find(e => e.index > 0);
+    if (firstEdition) titleEnd = firstEdition.index;
+  }
+
+  const tail = name.slice(titleEnd);
+
+  release.resolution = findFirst(tail, RESOLUTIONS)?.value;
+  const source = findFirst(tail, SOURCES)?.value;
+  release.source = source && /remux/i.test(tail) ? `${source === 'BDRip' ? 'BluRay' : source} Remux` : source;
+  release.videoCodec = findFirst(tail, VIDEO_CODECS)?.value;
+  const audio = findFirst(tail, AUDIO_CODECS)?.value;
+  const channels = CHANNELS.exec(tail);
+  release.audioCodec = audio ? `${audio}${channels ? ` ${channels[1]}.${channels[2]}` : ''}` : undefined;
+  release.hdr = unique(findAll(tail, HDR).map(f => f.value)).join(' ') || undefined;
+  release.edition = unique(editions.filter(e => e.index >= titleEnd).map(e => e.value)).join(', ') || undefined;
+  const languages = unique(findAll(tail, LANGUAGES).map(f => f.value));
+  if (languages.length > 0) release.languages = languages;
+
+  // Trailing "-GROUP" or "[GROUP]", only when the name looks like a release
+  // (otherwise "Spider-Man" would lose "Man" and "2015-07-04" would be a group)
+  const looksLikeRelease = !!(release.resolution || release.source || release.videoCodec || release.audioCodec);
+  const isKnownTag = (candidate: string) => [...RESOLUTIONS, ...SOURCES, ...VIDEO_CODECS, ...AUDIO_CODECS, ...HDR, ...LANGUAGES, ...OTHER]
+    .some(m => m.pattern.test(`.${candidate}.`));
+  if (!release.group && looksLikeRelease) {
+    // The dash in "DTS-HD.MA.5.1" or "WEB-DL" is part of a tag
+    const dashGroup = /-([A-Za-z0-9][A-Za-z0-9_.]*)$/.exec(name);
+    const dashInTag = !!dashGroup && findAll(tail, [...SOURCES, ...AUDIO_CODECS])
+      .some(f => titleEnd + f.index < dashGroup.index && titleEnd + f.end > dashGroup.index);
+    const candidate = suffixGroup?.[1].trim() || (dashInTag ? undefined : dashGroup?.[1]);
+    if (candidate && !isKnownTag(candidate)) release.group = candidate;
+  }
+
+  const title = cleanTitle(name.slice(0, titleEnd)) || cleanTitle(name);
+  const result: ParsedFileName = { title, release: Object.fromEntries(Object.entries(release).filter(([, v]) => v !== undefined)) as ReleaseInfo };
+  if (year) result.year = Number(year.value);
+  if (episodeTitle) result.episodeTitle = episodeTitle;
+  return result;
+};
+
+// Videos imported before the parser existed have no stored release info
+export const releaseInfoOf = (video: VideoAsset): ReleaseInfo => video.metadata.release ?? parseFileName(video.fileName).release;
+
+// Height in pixels for comparisons ("1080p" -> 1080)
+export const resolutionHeightOf = (resolution: string | undefined): number | undefined => {
+  const match = resolution ? /^(\d{3,4})p$/i.exec(resolution) : null;
+  return match ? Number(match[1]) : undefined;
+};
+
+// Search suggestions
+export const RESOLUTION_VALUES = ['2160p', '1440p', '1080p', '720p', '576p', '480p'];
+export const SOURCE_VALUES = unique(SOURCES.map(s => s.value as string));
+export const CODEC_VALUES = unique(VIDEO_CODECS.map(s => s.value as string));
+
+// Everything the release info says, for text matching
+export const describeRelease = (release: ReleaseInfo): string =>
+  [release.resolution, release.source, release.videoCodec, release.audioCodec, release.hdr, release.edition, ...(release.languages || []), release.group]
+    .filter(Boolean).join(' · ');
@@ -0,0 +1,59 @@
+import { SourceFile } from "../types";
+import { getBridge } from "./electronBridge";
+
+// Fast content fingerprint: file size plus a SHA-256 over a few sampled chunks.
+// Reading ~192KB per file keeps it cheap for multi-GB videos while still telling apart
+// two different "episode1.mp4" files. Same bytes => same fingerprint, regardless of name or path.
+
+const CHUNK_SIZE = 64 * 1024;
+
+// Start, middle and end of the file (or the whole file if it is small)
+const sampleRanges = (size: number): Array<[number, number]> => {
+  if (size <= CHUNK_SIZE * 3) return [[0, size]];
+  const middle = Math.floor(size / 2 - CHUNK_SIZE / 2);
+  return [[0, CHUNK_SIZE], [middle, CHUNK_SIZE], [size - CHUNK_SIZE, CHUNK_SIZE]];
+};
+
+const hashChunks = async (size: number, chunks: Array<ArrayBuffer | Uint8Array>): Promise<string> => {
+  const total = chunks.reduce((sum, c) => sum + c.byteLength, 0);
+  const buffer = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    buffer.set(chunk instanceof Uint8Array ? chunk : new Uint8Array(chunk), offset);
+    offset += chunk.byteLength;
+  }
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", buffer));
+  const hex = Array.from(digest.slice(0, 16), b => b.toString(16).padStart(2, "0")).join("");
+  return `${size.toString(16)}-${hex}`;
+};
+
+const readChunks = async (file: File | null, root: string | null | undefined, relativePath: string, size: number) => {
+  const ranges = sampleRanges(size);
+  if (file) {
+    return Promise.all(ranges.map(([start, length]) => file.slice(start, start + length).arrayBuffer()));
+  }
+  const bridge = getBridge();
+  if (bridge && root) return bridge.readChunks(root, relativePath, ranges);
+  return null;
+};
+
+// Resolves null when the file is not reachable (e.g. no handle and no bridge)
+export const fingerprintSource = async (source: SourceFile, root: string | null): Promise<string | null> => {
+  try {
+    const chunks = await readChunks(source.file, root, source.relativePath, source.size);
+    return chunks ? await hashChunks(source.size, chunks) : null;
+  } catch (e) {
+    console.error(`Could not fingerprint ${source.relativePath}:`, e);
+    return null;
+  }
+};
+
+// Fingerprints many files one after another, so a large folder doesn't open hundreds of reads at once
+export const fingerprintSources = async (sources: SourceFile[], root: string | null): Promise<Map<string, string>> => {
+  const result = new Map<string, string>();
+  for (const source of sources) {
+    const fingerprint = await fingerprintSource(source, root);
+    if (fingerprint) result.set(source.relativePath, fingerprint);
+  }
+  return result;
+};
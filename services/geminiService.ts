@@ -1,26 +1,29 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { VideoMetadata } from "../types";
+import { MetadataProvider, PermanentMetadataError } from "./metadataProvider";
 
-const MODEL_NAME = "gemini-2.5-flash-latest"; 
+export const geminiProvider: MetadataProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultModel: 'gemini-2.5-flash',
+  usesBaseUrl: false,
+  supportsImages: true,
+  generate: async ({ prompt, frames }, settings) => {
+    // The build-time key still works when none is set in the settings
+    const apiKey = settings.apiKey || process.env.API_KEY;
+    if (!apiKey) {
+      throw new PermanentMetadataError("Gemini API key is missing. Add it in Settings.");
+    }
 
-export const generateVideoMetadata = async (fileName: string): Promise<VideoMetadata> => {
-  if (!process.env.API_KEY) {
-    throw new Error("API Key is missing. Please check your environment configuration.");
-  }
-
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-  const prompt = `Analyze this video filename: "${fileName}".
-  Generate a JSON response with the following fields:
-  - title: A clean, professional title.
-  - plot: A short, professional synopsis (max 2 sentences).
-  - tags: An array of 3-5 relevant genres or categories (e.g., "Action", "Tutorial", "Family").
-  Do not guess specifics if unknown, keep it generic but professional.`;
-
-  try {
+    const ai = new GoogleGenAI({ apiKey });
     const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: prompt,
+      model: settings.model || geminiProvider.defaultModel,
+      contents: [{
+        role: "user",
+        parts: [
+          { text: prompt },
+          ...frames.map(frame => ({ inlineData: { mimeType: "image/jpeg", data: frame.slice(frame.indexOf(",") + 1) } }))
+        ]
+      }],
       config: {
         responseMimeType: "application/json",
         responseSchema: {
@@ -39,17 +42,7 @@ export const generateVideoMetadata = async (fileName: string): Promise<VideoMeta
     });
 
     const text = response.text;
-    if (!text) throw new Error("No response from AI");
-    
-    return JSON.parse(text) as VideoMetadata;
-
-  } catch (error) {
-    console.error("Gemini generation error:", error);
-    // Fallback
-    return {
-      title: fileName,
-      plot: "No description available.",
-      tags: ["Uncategorized"]
-    };
+    if (!text) throw new Error("Gemini returned an empty response.");
+    return text;
   }
-};
\ No newline at end of file
+};
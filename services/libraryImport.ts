@@ -0,0 +1,186 @@
+import { FolderSelection, SourceFile, SubtitleTrack, VideoAsset, VideoMetadata } from "../types";
+import { generateUUID, isVideoFile, isSubtitleFile, isImageFile, generateVideoThumbnail } from "./fileUtils";
+import { parseNFO } from "./nfo";
+import { episodeLabel, parseEpisodeInfo } from "./series";
+import { parseFileName } from "./filenameParser";
+import { mediaUrl, readSourceBytes, readSourceText } from "./electronBridge";
+import { subtitleExcerptOf } from "./metadataContext";
+import { decodeText } from "./textEncoding";
+import { detectTextLanguage, parseSubtitleFileName, UNKNOWN_LANGUAGE } from "./subtitleLanguage";
+
+const dirOf = (relativePath: string) => relativePath.split('/').slice(0, -1).join('/');
+const baseNameOf = (name: string) => name.substring(0, name.lastIndexOf('.')).toLowerCase();
+
+// Only when the file name does not say; reads the subtitle and looks at the text
+const detectSubtitleLanguage = async (sub: SourceFile, root: string | null): Promise<string> => {
+  try {
+    const { text } = decodeText(await readSourceBytes(sub, root));
+    return detectTextLanguage(subtitleExcerptOf(text, 4000)) ?? UNKNOWN_LANGUAGE;
+  } catch (e) {
+    console.error(`Could not read subtitle ${sub.relativePath}:`, e);
+    return UNKNOWN_LANGUAGE;
+  }
+};
+
+// Browser picks get a blob URL, bridge picks a persistent media URL
+const sourceUrl = (source: SourceFile, root: string | null) => {
+  if (source.file) return URL.createObjectURL(source.file);
+  return root ? mediaUrl(root, source.relativePath) : "";
+};
+
+// Builds VideoAssets (with thumbnails, subtitles and NFO metadata) for every video in a picked folder.
+// onlyPaths restricts which videos are built while still using the whole folder for sidecar lookup.
+export const importFolder = async (selection: FolderSelection, collectionId: string, onlyPaths?: Set<string>): Promise<VideoAsset[]> => {
+  const { root, files } = selection;
+
+  // Maps for sidecar files
+  const folderImages = new Map<string, Array<{name: string, source: SourceFile}>>();
+  const folderSubtitles = new Map<string, Array<SourceFile>>();
+  const showNfos = new Map<string, SourceFile>(); // Folder -> tvshow.nfo
+
+  // 1. Index images and subtitles
+  for (const file of files) {
+    const dir = dirOf(file.relativePath);
+
+    if (isImageFile(file)) {
+      if (!folderImages.has(dir)) folderImages.set(dir, []);
+      folderImages.get(dir)?.push({ name: baseNameOf(file.name), source: file });
+    } else if (isSubtitleFile(file)) {
+      if (!folderSubtitles.has(dir)) folderSubtitles.set(dir, []);
+      folderSubtitles.get(dir)?.push(file);
+    } else if (file.name.toLowerCase() === 'tvshow.nfo') {
+      showNfos.set(dir, file);
+    }
+  }
+
+  // Series title from the closest tvshow.nfo above an episode, read once per file
+  const showTitles = new Map<string, Promise<string | undefined>>();
+  const showTitleFor = (dir: string): Promise<string | undefined> => {
+    const parts = dir.split('/');
+    for (let i = parts.length; i > 0; i--) {
+      const nfo = showNfos.get(parts.slice(0, i).join('/'));
+      if (!nfo) continue;
+      if (!showTitles.has(nfo.relativePath)) {
+        showTitles.set(nfo.relativePath, readSourceText(nfo, root).then(text => parseNFO(text).title).catch(() => undefined));
+      }
+      return showTitles.get(nfo.relativePath)!;
+    }
+    return Promise.resolve(undefined);
+  };
+
+  // 2. Process Videos
+  const newVideos: VideoAsset[] = [];
+
+  for (const file of files) {
+    if (!isVideoFile(file)) continue;
+    if (onlyPaths && !onlyPaths.has(file.relativePath)) continue;
+
+    const dir = dirOf(file.relativePath);
+    const videoNameWithoutExt = baseNameOf(file.name);
+
+    // Determine Thumbnail
+    let thumbSource: SourceFile | undefined = undefined;
+    const assetsInFolder = folderImages.get(dir) || [];
+
+    // Priority 1: Specific filenames
+    const priorityNames = ['poster', 'cover', 'folder', 'default'];
+    thumbSource = assetsInFolder.find(asset => priorityNames.includes(asset.name))?.source;
+
+    // Priority 2: "poster" in name
+    if (!thumbSource) {
+      thumbSource = assetsInFolder.find(asset => asset.name.includes('poster'))?.source;
+    }
+
+    // Priority 3: Exact name match
+    if (!thumbSource) {
+      thumbSource = assetsInFolder.find(asset => asset.name === videoNameWithoutExt)?.source;
+    }
+
+    let thumbUrl = thumbSource ? sourceUrl(thumbSource, root) : "";
+
+    // Fallback: Generate
+    if (!thumbUrl) {
+      const videoUrl = file.file ?? (root ? mediaUrl(root, file.relativePath) : null);
+      if (videoUrl) thumbUrl = await generateVideoThumbnail(videoUrl);
+    }
+
+    // Determine Subtitles
+    const subsInFolder = folderSubtitles.get(dir) || [];
+    const matchedSubs = subsInFolder.filter(sub => {
+       const subName = sub.name.toLowerCase();
+       // Exact match base name OR contains base name (e.g. movie.en.srt)
+       return subName.startsWith(videoNameWithoutExt);
+    });
+
+    const subtitleTracks: SubtitleTrack[] = [];
+    for (const sub of matchedSubs) {
+       const { language, forced, sdh, isDefault } = parseSubtitleFileName(sub.name, videoNameWithoutExt);
+       subtitleTracks.push({
+           label: sub.name,
+           language: language ?? await detectSubtitleLanguage(sub, root),
+           ...(forced ? { forced } : {}),
+           ...(sdh ? { sdh } : {}),
+           ...(isDefault ? { isDefault } : {}),
+           relativePath: sub.relativePath,
+           fileHandle: sub.file
+       });
+    }
+
+    // Try to find NFO
+    const nfoFile = files.find(f => {
+        const fName = f.name.toLowerCase();
+        return f.relativePath.toLowerCase().startsWith(`${dir.toLowerCase()}/${videoNameWithoutExt}`) && fName.endsWith('.nfo');
+    });
+
+    // Clean title, year and release details from the file name; the NFO wins where it says something
+    const parsed = parseFileName(file.name);
+    let metadata: VideoMetadata = {
+      title: parsed.title,
+      plot: '',
+      tags: [],
+      dateAdded: Date.now(),
+      release: parsed.release
+    };
+    if (parsed.year) metadata.year = parsed.year;
+    let hasNfoTitle = false;
+
+    if (nfoFile) {
+      try {
+        const nfoData = parseNFO(await readSourceText(nfoFile, root));
+        metadata = { ...metadata, ...nfoData };
+        hasNfoTitle = !!nfoData.title;
+      } catch (e) {
+        console.error(`Could not read ${nfoFile.relativePath}:`, e);
+      }
+    }
+
+    // Series episodes: fill in whatever the NFO didn't say
+    const episodeInfo = parseEpisodeInfo(file.relativePath);
+    if (episodeInfo && metadata.episode === undefined) {
+      const showTitle = metadata.showTitle || await showTitleFor(dir) || episodeInfo.series;
+      metadata = {
+        ...metadata,
+        // The parsed title of an episode file is the series name
+        title: hasNfoTitle ? metadata.title : parsed.episodeTitle || `${showTitle} ${episodeLabel(episodeInfo)}`,
+        showTitle,
+        season: metadata.season ?? episodeInfo.season,
+        episode: episodeInfo.episode
+      };
+    }
+
+    newVideos.push({
+      id: generateUUID(),
+      collectionId,
+      fileName: file.name,
+      relativePath: file.relativePath,
+      libraryRoot: root,
+      fileHandle: file.file,
+      thumbnailUrl: thumbUrl || null,
+      metadata,
+      size: file.size,
+      subtitles: subtitleTracks
+    });
+  }
+
+  return newVideos;
+};
@@ -0,0 +1,105 @@
+import { CollectionSource, FolderSelection, SourceFile, VideoAsset } from "../types";
+import { isVideoFile } from "./fileUtils";
+import { fingerprintSources } from "./fingerprint";
+
+// Diff between what a collection knows about a source folder and what is on disk now
+
+export interface ScanDiff {
+  added: SourceFile[]; // Video files with no matching VideoAsset
+  missingIds: string[]; // Videos whose file is gone
+  found: Array<{ id: string; source: SourceFile }>; // Still at the same path
+  moved: Array<{ id: string; source: SourceFile }>; // Renamed or moved, matched back to the existing asset
+  duplicates: SourceFile[]; // Same content as a video already in the library, skipped
+  fingerprints: Record<string, string>; // relativePath -> fingerprint for files we hashed
+}
+
+export const folderNameOf = (selection: FolderSelection): string => {
+  if (selection.folderPath) return selection.folderPath.split(/[\\/]/).filter(Boolean).pop() || "";
+  return selection.files[0]?.relativePath.split('/')[0] || "";
+};
+
+export const sourceOf = (selection: FolderSelection): CollectionSource => ({
+  folderName: folderNameOf(selection),
+  folderPath: selection.folderPath
+});
+
+const extensionOf = (name: string) => name.substring(name.lastIndexOf('.')).toLowerCase();
+
+// Two sources may share a folder name, so compare roots as well when both are known
+export const isInSource = (video: VideoAsset, selection: FolderSelection) =>
+  video.relativePath.startsWith(`${folderNameOf(selection)}/`) &&
+  (!selection.root || !video.libraryRoot || video.libraryRoot === selection.root);
+
+// Compares the videos of a collection that came from this folder against a fresh scan of it.
+// Files that moved are matched by content fingerprint first. Without one we fall back to
+// size + filename, then size + extension, and only when the candidate is unambiguous, so
+// unrelated files are never merged. New files whose content is already in the library
+// (anywhere) are reported as duplicates instead of being imported again.
+export const computeScanDiff = async (
+  libraryVideos: VideoAsset[],
+  collectionId: string,
+  selection: FolderSelection
+): Promise<ScanDiff> => {
+  const scanned = selection.files.filter(f => isVideoFile(f));
+  const byPath = new Map(scanned.map(f => [f.relativePath, f]));
+
+  const known = libraryVideos.filter(v => v.collectionId === collectionId && isInSource(v, selection));
+  const knownPaths = new Set(known.map(v => v.relativePath));
+
+  const found: ScanDiff['found'] = [];
+  const unmatchedVideos: VideoAsset[] = [];
+  const unfingerprinted: SourceFile[] = [];
+  for (const video of known) {
+    const source = byPath.get(video.relativePath);
+    if (source) {
+      found.push({ id: video.id, source });
+      if (!video.fingerprint) unfingerprinted.push(source);
+    } else {
+      unmatchedVideos.push(video);
+    }
+  }
+
+  let unmatchedFiles = scanned.filter(f => !knownPaths.has(f.relativePath));
+
+  // Hash new files, plus known files from before fingerprints existed
+  const fingerprints = await fingerprintSources([...unmatchedFiles, ...unfingerprinted], selection.root);
+
+  const moved: ScanDiff['moved'] = [];
+  const missingIds: string[] = [];
+
+  const takeUnique = (candidates: SourceFile[]) => candidates.length === 1 ? candidates[0] : undefined;
+
+  for (const video of unmatchedVideos) {
+    const sameContent = video.fingerprint
+      ? unmatchedFiles.find(f => fingerprints.get(f.relativePath) === video.fingerprint)
+      : undefined;
+    const sameSize = unmatchedFiles.filter(f => f.size === video.size);
+    const match =
+      sameContent ??
+      takeUnique(sameSize.filter(f => f.name === video.fileName)) ??
+      takeUnique(sameSize.filter(f => extensionOf(f.name) === extensionOf(video.fileName)));
+
+    if (match) {
+      moved.push({ id: video.id, source: match });
+      unmatchedFiles = unmatchedFiles.filter(f => f !== match);
+    } else {
+      missingIds.push(video.id);
+    }
+  }
+
+  // Drop files whose content we already have (elsewhere in the library, or twice in this folder)
+  const seen = new Set(libraryVideos.map(v => v.fingerprint).filter(Boolean));
+  const added: SourceFile[] = [];
+  const duplicates: SourceFile[] = [];
+  for (const file of unmatchedFiles) {
+    const fingerprint = fingerprints.get(file.relativePath);
+    if (fingerprint && seen.has(fingerprint)) {
+      duplicates.push(file);
+    } else {
+      if (fingerprint) seen.add(fingerprint);
+      added.push(file);
+    }
+  }
+
+  return { added, missingIds, found, moved, duplicates, fingerprints: Object.fromEntries(fingerprints) };
+};
@@ -0,0 +1,222 @@
+import { AppState, Collection, SubtitleTrack, VideoAsset } from "../types";
+import { parseSubtitleFileName } from "./subtitleLanguage";
+
+// Persistent library storage backed by IndexedDB.
+// The whole library is written as one snapshot inside a single transaction, so a crash
+// mid-save leaves the previous snapshot intact. We also keep the previous snapshot as a
+// fallback in case the current one turns out to be unreadable.
+
+const DB_NAME = "vidmanager";
+const DB_VERSION = 1;
+const STORE_NAME = "library";
+const CURRENT_KEY = "current";
+const PREVIOUS_KEY = "previous";
+const SCHEMA_VERSION = 1;
+const SAVE_DELAY_MS = 1000;
+
+interface LibrarySnapshot extends AppState {
+  schemaVersion: number;
+  savedAt: number;
+}
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Blob URLs (e.g. poster images picked at import) die with the page, so inline them as data URLs.
+// Cached because the same poster is usually shared by every video in a folder, and pruned to the
+// URLs the library still uses after every serialize so removed videos don't keep theirs alive.
+const inlinedUrls = new Map<string, string | null>();
+
+const inlineBlobUrl = async (url: string | null): Promise<string | null> => {
+  if (!url || !url.startsWith("blob:")) return url;
+  if (inlinedUrls.has(url)) return inlinedUrls.get(url) ?? null;
+
+  let dataUrl: string | null = null;
+  try {
+    const blob = await (await fetch(url)).blob();
+    dataUrl = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  } catch (e) {
+    console.error("Could not inline thumbnail:", e);
+  }
+  inlinedUrls.set(url, dataUrl);
+  return dataUrl;
+};
+
+// Strips non-serializable File handles and inlines thumbnails.
+// Used both for automatic persistence and for the JSON export.
+export const serializeLibrary = async (state: AppState): Promise<AppState> => {
+  const collections = await Promise.all(state.collections.map(async c => ({
+    ...c,
+    thumbnailUrl: await inlineBlobUrl(c.thumbnailUrl)
+  })));
+  const videos = await Promise.all(state.videos.map(async v => ({
+    ...v,
+    fileHandle: null,
+    thumbnailUrl: await inlineBlobUrl(v.thumbnailUrl),
+    subtitles: v.subtitles.map(s => ({ ...s, fileHandle: null }))
+  })));
+
+  const used = new Set([...state.collections, ...state.videos].map(item => item.thumbnailUrl));
+  for (const url of inlinedUrls.keys()) {
+    if (!used.has(url)) inlinedUrls.delete(url);
+  }
+  return { ...state, collections, videos };
+};
+
+export const createEmptyLibrary = (): AppState => ({
+  collections: [],
+  videos: [],
+  shuffleMode: 'random',
+  shuffleHistory: {},
+  playlists: [],
+  smartCollections: [],
+  tagAliases: {}
+});
+
+// Fills in fields added after the data was saved
+const withDefaults = (data: any, collections: Collection[], videos: VideoAsset[]): AppState => {
+  const defaults = createEmptyLibrary();
+  return {
+    shuffleMode: data.shuffleMode || defaults.shuffleMode,
+    shuffleHistory: data.shuffleHistory || defaults.shuffleHistory,
+    playlists: data.playlists || defaults.playlists,
+    smartCollections: data.smartCollections || defaults.smartCollections,
+    tagAliases: data.tagAliases || defaults.tagAliases,
+    collections,
+    videos
+  };
+};
+
+// Tracks saved by older versions only understood two-letter codes and defaulted to "en",
+// so "movie.chs.srt" or "movie.English.srt" are re-read from their file names
+const withSubtitleInfo = (video: any): SubtitleTrack[] => {
+  const baseName = String(video.fileName || '').replace(/\.[^.]+$/, '');
+  return (video.subtitles || []).map((track: SubtitleTrack) => {
+    const { language, forced, sdh, isDefault } = parseSubtitleFileName(track.label, baseName);
+    return {
+      ...track,
+      language: language ?? track.language,
+      ...(forced ? { forced } : {}),
+      ...(sdh ? { sdh } : {}),
+      ...(isDefault ? { isDefault } : {})
+    };
+  });
+};
+
+// Validates loaded data (from IndexedDB or an exported index file) and migrates legacy layouts.
+// Returns null if the data is not a library.
+export const parseLibraryData = (data: any): AppState | null => {
+  if (!data || typeof data !== "object") return null;
+
+  if (Array.isArray(data.collections) && Array.isArray(data.videos)) {
+    return withDefaults(
+      data,
+      data.collections,
+      data.videos.map((v: any) => ({ ...v, fileHandle: null, subtitles: withSubtitleInfo(v) }))
+    );
+  }
+
+  // Legacy saves used 'containers' / 'containerId'
+  if (Array.isArray(data.containers) && Array.isArray(data.videos)) {
+    return withDefaults(
+      data,
+      data.containers.map((c: any) => ({ ...c, id: c.id })),
+      data.videos.map((v: any) => ({ ...v, collectionId: v.containerId, fileHandle: null, subtitles: [] }))
+    );
+  }
+
+  return null;
+};
+
+export const loadLibrary = async (): Promise<AppState | null> => {
+  const db = await openDatabase();
+  try {
+    const [current, previous] = await new Promise<[unknown, unknown]>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, "readonly");
+      const store = tx.objectStore(STORE_NAME);
+      const currentReq = store.get(CURRENT_KEY);
+      const previousReq = store.get(PREVIOUS_KEY);
+      tx.oncomplete = () => resolve([currentReq.result, previousReq.result]);
+      tx.onerror = () => reject(tx.error);
+    });
+
+    const restored = parseLibraryData(current);
+    if (restored) return restored;
+    if (current) console.warn("Current library snapshot is unreadable, falling back to previous save.");
+    return parseLibraryData(previous);
+  } finally {
+    db.close();
+  }
+};
+
+export const saveLibrary = async (state: AppState): Promise<void> => {
+  const serialized = await serializeLibrary(state);
+  const snapshot: LibrarySnapshot = {
+    schemaVersion: SCHEMA_VERSION,
+    savedAt: Date.now(),
+    ...serialized
+  };
+
+  const db = await openDatabase();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, "readwrite");
+      const store = tx.objectStore(STORE_NAME);
+      // Rotate current -> previous and write the new snapshot in the same transaction
+      const currentReq = store.get(CURRENT_KEY);
+      currentReq.onsuccess = () => {
+        if (currentReq.result) store.put(currentReq.result, PREVIOUS_KEY);
+        store.put(snapshot, CURRENT_KEY);
+      };
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// --- Debounced writer ---
+
+let pendingState: AppState | null = null;
+let saveTimer: number | null = null;
+let saveChain: Promise<void> = Promise.resolve();
+
+export const flushLibrarySave = (): Promise<void> => {
+  if (saveTimer !== null) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+  const state = pendingState;
+  pendingState = null;
+  if (state) {
+    // Serialize writes so an older snapshot can never land after a newer one
+    saveChain = saveChain
+      .then(() => saveLibrary(state))
+      .catch(e => console.error("Library save failed:", e));
+  }
+  return saveChain;
+};
+
+export const scheduleLibrarySave = (state: AppState) => {
+  pendingState = state;
+  if (saveTimer !== null) clearTimeout(saveTimer);
+  saveTimer = window.setTimeout(flushLibrarySave, SAVE_DELAY_MS);
+};
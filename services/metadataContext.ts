@@ -0,0 +1,175 @@
+import { Collection, VideoAsset } from "../types";
+import { captureVideoFrames } from "./fileUtils";
+import { openVideoSource, readSubtitleText } from "./electronBridge";
+import { parseFileName } from "./filenameParser";
+
+// What we tell the model about a video besides its file name. Each part is optional because
+// it costs tokens (and frames cost a lot); the instructions can be set per collection.
+
+export interface MetadataContextOptions {
+  folder: boolean;
+  collection: boolean;
+  nfo: boolean; // Metadata we already have, usually read from an NFO
+  subtitles: boolean;
+  frames: number; // 0 = text only
+}
+
+export const DEFAULT_CONTEXT_OPTIONS: MetadataContextOptions = {
+  folder: true,
+  collection: true,
+  nfo: true,
+  subtitles: false,
+  frames: 0
+};
+
+export interface PromptPreset {
+  id: string;
+  label: string;
+  instructions: string;
+}
+
+export const PROMPT_PRESETS: PromptPreset[] = [
+  {
+    id: 'default',
+    label: 'General',
+    instructions: `Identify this video and describe it.
+  - title: A clean, professional title.
+  - plot: A short, professional synopsis (max 2 sentences).
+  - tags: An array of 3-5 relevant genres or categories (e.g., "Action", "Tutorial", "Family").
+  Do not guess specifics if unknown, keep it generic but professional.`
+  },
+  {
+    id: 'home',
+    label: 'Home videos',
+    instructions: `This is a personal home video.
+  - title: A short title naming the occasion and place if they can be told, e.g. "Beach day in Brighton".
+  - plot: One or two sentences on what happens. Never invent names of people.
+  - tags: 3-5 tags like "Family", "Holiday", "Birthday", "Pets", a season or a place.`
+  },
+  {
+    id: 'lecture',
+    label: 'Lectures',
+    instructions: `This is a recorded lecture, talk or tutorial.
+  - title: The topic of this session, prefixed with the course name if known, e.g. "Linear Algebra - Eigenvalues".
+  - plot: What is taught, in at most 2 sentences.
+  - tags: 3-5 subject areas or skills, e.g. "Mathematics", "Python", "Beginner".`
+  }
+];
+
+export const promptInstructionsOf = (collection?: Collection | null) =>
+  collection?.promptTemplate?.trim() || PROMPT_PRESETS[0].instructions;
+
+export interface MetadataContext {
+  prompt: string;
+  frames: string[]; // JPEG data URLs
+}
+
+const SUBTITLE_EXCERPT_CHARS = 1500;
+
+// Dialogue only: drops cue numbers, timings, headers and ASS override tags.
+// Starts a little way in so we skip opening credits and translator notes.
+export const subtitleExcerptOf = (text: string, maxChars = SUBTITLE_EXCERPT_CHARS): string => {
+  const isAss = /^\[Events\]/m.test(text);
+  const lines: string[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    let line = raw.trim();
+    if (isAss) {
+      if (!line.startsWith("Dialogue:")) continue;
+      line = line.split(",").slice(9).join(",");
+    }
+    line = line.replace(/\{[^}]*\}/g, "").replace(/\\N/gi, " ").replace(/<[^>]+>/g, "").trim();
+    if (!line || /^\d+$/.test(line) || line.includes("-->") || line === "WEBVTT") continue;
+    if (line !== lines[lines.length - 1]) lines.push(line);
+  }
+  const start = Math.min(Math.floor(lines.length * 0.1), 20);
+  let excerpt = "";
+  for (const line of lines.slice(start)) {
+    if (excerpt.length + line.length > maxChars) break;
+    excerpt += `${line}\n`;
+  }
+  return excerpt.trim();
+};
+
+const knownMetadataOf = (video: VideoAsset): string[] => {
+  const m = video.metadata;
+  // A title that was only cleaned up from the file name tells the model nothing new
+  const titleFromName = m.title === video.fileName || m.title === parseFileName(video.fileName).title;
+  return [
+    m.title && !titleFromName ? `Title: ${m.title}` : '',
+    m.originalTitle ? `Original title: ${m.originalTitle}` : '',
+    m.year ? `Year: ${m.year}` : '',
+    m.showTitle ? `Series: ${m.showTitle}${m.season !== undefined ? `, season ${m.season}` : ''}${m.episode !== undefined ? `, episode ${m.episode}` : ''}` : '',
+    m.plot ? `Plot: ${m.plot}` : '',
+    m.tags.length ? `Tags: ${m.tags.join(', ')}` : '',
+    m.directors?.length ? `Director: ${m.directors.join(', ')}` : '',
+    m.studios?.length ? `Studio: ${m.studios.join(', ')}` : '',
+    m.actors?.length ? `Cast: ${m.actors.slice(0, 8).map(a => a.name).join(', ')}` : ''
+  ].filter(Boolean);
+};
+
+const readSubtitleExcerpt = async (video: VideoAsset): Promise<string> => {
+  for (const track of video.subtitles) {
+    try {
+      const text = await readSubtitleText(video, track);
+      if (text) return subtitleExcerptOf(text);
+    } catch (e) {
+      console.error(`Could not read subtitles for ${video.relativePath}:`, e);
+    }
+  }
+  return "";
+};
+
+const captureFrames = async (video: VideoAsset, count: number): Promise<string[]> => {
+  const source = openVideoSource(video);
+  if (!source) return [];
+  try {
+    return await captureVideoFrames(source.url, count);
+  } finally {
+    source.release();
+  }
+};
+
+const composePrompt = (
+  video: VideoAsset,
+  collection: Collection | null | undefined,
+  options: MetadataContextOptions,
+  excerpt: string
+): string => {
+  const sections = [`Video file name: "${video.fileName}"`];
+
+  const folder = video.relativePath.split("/").slice(0, -1).join("/");
+  if (options.folder && folder) sections.push(`Folder: "${folder}"`);
+  if (options.collection && collection) sections.push(`Library collection: "${collection.name}"`);
+
+  const known = options.nfo ? knownMetadataOf(video) : [];
+  if (known.length > 0) sections.push(`Already known (prefer this over guessing):\n${known.join("\n")}`);
+
+  if (excerpt) sections.push(`Subtitle excerpt:\n${excerpt}`);
+  if (options.frames > 0) sections.push("Any images attached are frames from the video.");
+
+  return `${promptInstructionsOf(collection)}
+
+${sections.join("\n\n")}
+
+Answer with a single JSON object with the fields "title" (string), "plot" (string) and "tags" (array of strings), nothing else.`;
+};
+
+// Everything that decides what gets asked, without reading any file: the prompt minus the
+// subtitle excerpt, plus which file-based parts are wanted. Good enough to tell requests apart
+// for the cache, so a cache hit never reads subtitles or captures frames.
+export const metadataRequestOf = (
+  video: VideoAsset,
+  collection: Collection | null | undefined,
+  options: MetadataContextOptions
+): string => `${composePrompt(video, collection, options, "")}\nsubtitles: ${options.subtitles}, frames: ${options.frames}`;
+
+// Missing files or subtitles just leave their part out; the request still goes ahead
+export const buildMetadataContext = async (
+  video: VideoAsset,
+  collection: Collection | null | undefined,
+  options: MetadataContextOptions
+): Promise<MetadataContext> => {
+  const excerpt = options.subtitles ? await readSubtitleExcerpt(video) : "";
+  const frames = options.frames > 0 ? await captureFrames(video, options.frames) : [];
+  return { prompt: composePrompt(video, collection, options, excerpt), frames };
+};
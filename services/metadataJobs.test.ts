@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { VideoAsset } from '../types';
+import { runMetadataJob } from './metadataJobs';
+import { DEFAULT_PROVIDER_SETTINGS, METADATA_PROVIDERS, PermanentMetadataError } from './metadataProvider';
+
+const mock = METADATA_PROVIDERS.find(p => p.id === 'mock')!;
+
+const video = (fileName: string): VideoAsset => ({
+  id: fileName,
+  collectionId: 'c',
+  fileName,
+  relativePath: `Movies/${fileName}`,
+  fileHandle: null,
+  thumbnailUrl: null,
+  metadata: { title: fileName, plot: '', tags: [] },
+  size: 1234,
+  fingerprint: `fp-${fileName}`,
+  subtitles: []
+});
+
+const HEAT = video('Heat.1995.1080p.BluRay.x264.mkv');
+
+// Settings and the cache live in localStorage, which Node does not have
+beforeEach(() => {
+  const store = new Map([['vidmanager.metadataProvider', JSON.stringify({ ...DEFAULT_PROVIDER_SETTINGS, provider: 'mock' })]]);
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => { store.set(key, value); },
+    removeItem: (key: string) => { store.delete(key); }
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('runMetadataJob', () => {
+  it('retries failures with backoff', async () => {
+    vi.useFakeTimers();
+    const generate = vi.spyOn(mock, 'generate')
+      .mockRejectedValueOnce(new Error('Busy'))
+      .mockResolvedValueOnce('{"title": "Heat"}');
+    const job = runMetadataJob([HEAT]);
+    await vi.runAllTimersAsync();
+    expect(await job).toEqual([{ videoId: HEAT.id, generated: { title: 'Heat', plot: '', tags: [] } }]);
+    expect(generate).toHaveBeenCalledTimes(2);
+  });
+
+  it.each([
+    ['missing settings', () => Promise.reject(new PermanentMetadataError('Gemini API key is missing. Add it in Settings.'))],
+    ['an answer without a title', () => Promise.resolve('{"plot": "A heist."}')]
+  ])('does not retry %s', async (_, answer) => {
+    const generate = vi.spyOn(mock, 'generate').mockImplementation(answer);
+    const [result] = await runMetadataJob([HEAT], { retries: 2 });
+    expect(result.error).toBeTruthy();
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends nothing more once cancelled during a backoff', async () => {
+    const generate = vi.spyOn(mock, 'generate').mockRejectedValue(new Error('Busy'));
+    const controller = new AbortController();
+    const job = runMetadataJob([HEAT, video('Ronin.1998.mkv')], { concurrency: 1, signal: controller.signal });
+    setTimeout(() => controller.abort(), 20);
+    expect(await job).toEqual([{ videoId: HEAT.id, error: 'Busy' }]);
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,110 @@
+import { Collection, VideoAsset, VideoMetadata } from "../types";
+import { GeneratedMetadata, generateVideoMetadata, loadProviderSettings, PermanentMetadataError } from "./metadataProvider";
+
+// Batch metadata generation. Runs a few requests at a time, retries failures with backoff
+// and only collects results: nothing touches the library until the user has reviewed them.
+
+export interface MetadataJobProgress {
+  total: number;
+  done: number; // Finished, successfully or not
+  failed: number;
+}
+
+export interface MetadataJobResult {
+  videoId: string;
+  generated?: GeneratedMetadata;
+  error?: string;
+}
+
+export interface MetadataJobOptions {
+  collections?: Collection[]; // For per-collection prompts and context
+  concurrency?: number;
+  retries?: number;
+  refresh?: boolean; // Ask again even when a cached answer exists
+  signal?: AbortSignal;
+  onProgress?: (progress: MetadataJobProgress) => void;
+}
+
+const BACKOFF_MS = 1000;
+
+// Resolves early (instead of rejecting) when cancelled, the caller checks the signal
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener("abort", () => { clearTimeout(timer); resolve(); }, { once: true });
+});
+
+// Cancelling stops new requests; the ones already sent are still collected
+export const runMetadataJob = async (videos: VideoAsset[], options: MetadataJobOptions = {}): Promise<MetadataJobResult[]> => {
+  const { collections = [], concurrency = 2, retries = 2, refresh = false, signal, onProgress } = options;
+  const settings = loadProviderSettings();
+  const results: MetadataJobResult[] = [];
+  const progress: MetadataJobProgress = { total: videos.length, done: 0, failed: 0 };
+  let next = 0;
+
+  const generate = async (video: VideoAsset): Promise<MetadataJobResult> => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const collection = collections.find(c => c.id === video.collectionId);
+        return { videoId: video.id, generated: await generateVideoMetadata(video, settings, { refresh, collection }) };
+      } catch (e) {
+        const error = e instanceof Error ? e.message : String(e);
+        if (attempt >= retries || signal?.aborted || e instanceof PermanentMetadataError) return { videoId: video.id, error };
+        await wait(BACKOFF_MS * 2 ** attempt, signal);
+        // Cancelled during the backoff: don't send (and pay for) another request
+        if (signal?.aborted) return { videoId: video.id, error };
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (next < videos.length && !signal?.aborted) {
+      const result = await generate(videos[next++]);
+      results.push(result);
+      progress.done++;
+      if (result.error) progress.failed++;
+      onProgress?.({ ...progress });
+    }
+  };
+
+  onProgress?.({ ...progress });
+  await Promise.all(Array.from({ length: Math.min(concurrency, videos.length) }, worker));
+
+  // Back in library order, whichever worker finished first
+  const order = new Map(videos.map((v, i) => [v.id, i]));
+  return results.sort((a, b) => order.get(a.videoId)! - order.get(b.videoId)!);
+};
+
+// --- Review ---
+
+export type ReviewField = 'title' | 'plot' | 'tags';
+
+export interface FieldChange {
+  field: ReviewField;
+  before: string | string[];
+  after: string | string[];
+}
+
+// Generated tags are added to the existing ones, never replace them
+export const mergedTagsOf = (current: string[], generated: string[]) => {
+  const seen = new Set(current.map(t => t.toLowerCase()));
+  return [...current, ...generated.filter(t => !seen.has(t.toLowerCase()) && seen.add(t.toLowerCase()))];
+};
+
+// Only the fields that would actually change
+export const diffGeneratedMetadata = (current: VideoMetadata, generated: GeneratedMetadata): FieldChange[] => {
+  const changes: FieldChange[] = [];
+  if (generated.title && generated.title !== current.title) {
+    changes.push({ field: 'title', before: current.title, after: generated.title });
+  }
+  if (generated.plot && generated.plot !== current.plot) {
+    changes.push({ field: 'plot', before: current.plot, after: generated.plot });
+  }
+  const tags = mergedTagsOf(current.tags, generated.tags);
+  if (tags.length !== current.tags.length) {
+    changes.push({ field: 'tags', before: current.tags, after: tags });
+  }
+  return changes;
+};
+
+export const metadataUpdateOf = (changes: FieldChange[], accepted: Set<ReviewField>): Partial<VideoMetadata> =>
+  Object.fromEntries(changes.filter(c => accepted.has(c.field)).map(c => [c.field, c.after]));
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Collection, VideoAsset } from '../types';
+import { buildMetadataContext } from './metadataContext';
+import { DEFAULT_PROVIDER_SETTINGS, generateVideoMetadata, METADATA_PROVIDERS, MetadataProviderSettings, metadataCacheSize } from './metadataProvider';
+
+// Watched to make sure a cache hit reads no subtitles and captures no frames
+vi.mock('./metadataContext', async importOriginal => {
+  const actual = await importOriginal<typeof import('./metadataContext')>();
+  return { ...actual, buildMetadataContext: vi.fn(actual.buildMetadataContext) };
+});
+
+const mock = METADATA_PROVIDERS.find(p => p.id === 'mock')!;
+const SETTINGS: MetadataProviderSettings = { ...DEFAULT_PROVIDER_SETTINGS, provider: 'mock' };
+
+const video = (fileName: string): VideoAsset => ({
+  id: fileName,
+  collectionId: 'c',
+  fileName,
+  relativePath: `Movies/${fileName}`,
+  fileHandle: null,
+  thumbnailUrl: null,
+  metadata: { title: fileName, plot: '', tags: [] },
+  size: 1234,
+  fingerprint: `fp-${fileName}`,
+  subtitles: []
+});
+
+const MATRIX = video('The.Matrix.1999.1080p.BluRay.x264-FGT.mkv');
+
+// The cache lives in localStorage, which Node does not have
+beforeEach(() => {
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => { store.set(key, value); },
+    removeItem: (key: string) => { store.delete(key); }
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('generateVideoMetadata with the mock provider', () => {
+  it('derives the answer from the file name', async () => {
+    expect(await generateVideoMetadata(MATRIX, SETTINGS)).toEqual({
+      title: 'The Matrix',
+      plot: 'Mock description for The Matrix.',
+      tags: ['Mock', 'Matrix']
+    });
+  });
+
+  it('reuses the cached answer unless asked to refresh', async () => {
+    const generate = vi.spyOn(mock, 'generate');
+    await generateVideoMetadata(MATRIX, SETTINGS);
+    await generateVideoMetadata({ ...MATRIX, id: 'copy' }, SETTINGS);
+    expect(generate).toHaveBeenCalledTimes(1);
+
+    await generateVideoMetadata(MATRIX, SETTINGS, { refresh: true });
+    expect(generate).toHaveBeenCalledTimes(2);
+    expect(metadataCacheSize()).toBe(1);
+  });
+
+  it('answers from the cache without building the context', async () => {
+    const settings = { ...SETTINGS, context: { ...SETTINGS.context, subtitles: true } };
+    await generateVideoMetadata(MATRIX, settings);
+    await generateVideoMetadata(MATRIX, settings);
+    expect(buildMetadataContext).toHaveBeenCalledTimes(1);
+  });
+
+  it('asks again when the model, the prompt or the file name changes', async () => {
+    const generate = vi.spyOn(mock, 'generate');
+    const collection: Collection = { id: 'c', name: 'Lectures', thumbnailUrl: null, promptTemplate: 'Name the lecture topic.' };
+    await generateVideoMetadata(MATRIX, SETTINGS);
+    await generateVideoMetadata(MATRIX, { ...SETTINGS, model: 'other' });
+    await generateVideoMetadata(MATRIX, SETTINGS, { collection });
+    await generateVideoMetadata({ ...MATRIX, fileName: 'The.Matrix.Reloaded.2003.mkv' }, SETTINGS);
+    expect(generate).toHaveBeenCalledTimes(4);
+    expect(generate.mock.calls[2][0].prompt).toContain('Name the lecture topic.');
+  });
+});
+
+describe('generateVideoMetadata response handling', () => {
+  const answer = (text: string) => vi.spyOn(mock, 'generate').mockResolvedValue(text);
+
+  it('finds the JSON inside code fences and chatter', async () => {
+    answer('Sure! Here it is:\n```json\n{ "title": " Heat ", "plot": "A heist.", "tags": ["Crime", 3, " ", "Thriller "] }\n```\nEnjoy.');
+    expect(await generateVideoMetadata(MATRIX, SETTINGS)).toEqual({ title: 'Heat', plot: 'A heist.', tags: ['Crime', 'Thriller'] });
+  });
+
+  it('defaults a missing plot and tags', async () => {
+    answer('{"title": "Heat"}');
+    expect(await generateVideoMetadata(MATRIX, SETTINGS)).toEqual({ title: 'Heat', plot: '', tags: [] });
+  });
+
+  it.each([
+    ['no JSON object', 'I could not identify this video.', 'The response did not contain a JSON object.'],
+    ['broken JSON', '{"title": "Heat", }', 'The response was not valid JSON.'],
+    ['no title', '{"plot": "A heist."}', 'The response has no title.'],
+    ['a blank title', '{"title": "  "}', 'The response has no title.'],
+    ['a title that is not a string', '{"title": 42}', 'The response has no title.']
+  ])('rejects %s and caches nothing', async (_, text, message) => {
+    answer(text);
+    await expect(generateVideoMetadata(MATRIX, SETTINGS)).rejects.toThrow(message);
+    expect(metadataCacheSize()).toBe(0);
+  });
+});
@@ -0,0 +1,192 @@
+import { Collection, VideoAsset, VideoMetadata } from "../types";
+import { geminiProvider } from "./geminiService";
+import { openAiProvider } from "./openAiProvider";
+import { parseFileName } from "./filenameParser";
+import { buildMetadataContext, DEFAULT_CONTEXT_OPTIONS, MetadataContextOptions, metadataRequestOf } from "./metadataContext";
+
+// Pluggable metadata generation. Providers only do the transport (prompt in, JSON text out);
+// parsing, validation and caching live here so every backend behaves the same.
+// Settings, including API keys, are per machine and stay in localStorage, never in the library index.
+
+export type MetadataProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface MetadataProviderSettings {
+  provider: MetadataProviderId;
+  model: string; // Empty = the provider's default
+  apiKey: string;
+  baseUrl: string; // OpenAI-compatible endpoints only, e.g. http://localhost:11434/v1 for Ollama
+  context: MetadataContextOptions;
+}
+
+export interface MetadataRequest {
+  fileName: string;
+  prompt: string;
+  frames: string[]; // JPEG data URLs, only sent to providers that take images
+}
+
+export interface MetadataProvider {
+  id: MetadataProviderId;
+  label: string;
+  defaultModel: string;
+  usesBaseUrl: boolean;
+  supportsImages: boolean;
+  // Returns the raw JSON text of the answer, throws on any transport or API error
+  generate: (request: MetadataRequest, settings: MetadataProviderSettings) => Promise<string>;
+}
+
+export type GeneratedMetadata = Pick<VideoMetadata, 'title' | 'plot' | 'tags'>;
+
+// For failures that asking again cannot fix (missing settings, an answer without a title), so batch jobs don't retry them
+export class PermanentMetadataError extends Error {}
+
+// Deterministic, offline and free: for trying the UI and for tests
+const mockProvider: MetadataProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  defaultModel: 'mock',
+  usesBaseUrl: false,
+  supportsImages: false,
+  generate: async ({ fileName }) => {
+    const parsed = parseFileName(fileName);
+    const words = parsed.title.toLowerCase().split(/\s+/).filter(w => w.length > 3);
+    return JSON.stringify({
+      title: parsed.title,
+      plot: `Mock description for ${parsed.title}.`,
+      tags: ['Mock', ...words.slice(0, 2).map(w => w[0].toUpperCase() + w.slice(1))]
+    });
+  }
+};
+
+export const METADATA_PROVIDERS: MetadataProvider[] = [geminiProvider, openAiProvider, mockProvider];
+
+export const providerOf = (id: MetadataProviderId): MetadataProvider =>
+  METADATA_PROVIDERS.find(p => p.id === id) || geminiProvider;
+
+// --- Settings ---
+
+const SETTINGS_KEY = "vidmanager.metadataProvider";
+
+export const DEFAULT_PROVIDER_SETTINGS: MetadataProviderSettings = {
+  provider: 'gemini',
+  model: '',
+  apiKey: '',
+  baseUrl: 'http://localhost:11434/v1',
+  context: DEFAULT_CONTEXT_OPTIONS
+};
+
+export const loadProviderSettings = (): MetadataProviderSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || "null") || {};
+    return {
+      ...DEFAULT_PROVIDER_SETTINGS,
+      ...stored,
+      context: { ...DEFAULT_PROVIDER_SETTINGS.context, ...stored.context }
+    };
+  } catch {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: MetadataProviderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// --- Cache ---
+// Keyed by content fingerprint, provider, model and the request (the prompt before subtitles and
+// frames are read in): a new template, context option, model or file name asks again, while
+// identical requests are never paid for twice
+
+const CACHE_KEY = "vidmanager.metadataCache";
+
+// FNV-1a, only needs to tell requests apart
+const hashOf = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const cacheKeyOf = (video: VideoAsset, settings: MetadataProviderSettings, request: string) => {
+  const provider = providerOf(settings.provider);
+  const model = settings.model.trim() || provider.defaultModel;
+  return [video.fingerprint || `${video.size}:${video.fileName}`, provider.id, model, hashOf(request)].join("|");
+};
+
+const readCache = (): Record<string, GeneratedMetadata> => {
+  try {
+    return JSON.parse(localStorage.getItem(CACHE_KEY) || "{}") || {};
+  } catch {
+    return {};
+  }
+};
+
+export const metadataCacheSize = () => Object.keys(readCache()).length;
+
+export const clearMetadataCache = () => localStorage.removeItem(CACHE_KEY);
+
+const writeCache = (key: string, result: GeneratedMetadata) => {
+  const cache = readCache();
+  cache[key] = result;
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(cache));
+  } catch (e) {
+    // Quota exceeded: not worth failing the generation over
+    console.error("Could not cache generated metadata:", e);
+  }
+};
+
+// --- Generation ---
+
+// Local models like to wrap JSON in code fences or add a sentence around it
+const extractJson = (text: string): unknown => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = fenced ? fenced[1] : text;
+  const start = body.indexOf("{");
+  const end = body.lastIndexOf("}");
+  if (start === -1 || end <= start) throw new Error("The response did not contain a JSON object.");
+  try {
+    return JSON.parse(body.slice(start, end + 1));
+  } catch {
+    throw new Error("The response was not valid JSON.");
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isText = (value: unknown): value is string => typeof value === "string" && !!value.trim();
+
+const validate = (data: unknown): GeneratedMetadata => {
+  if (!isRecord(data) || !isText(data.title)) {
+    throw new PermanentMetadataError("The response has no title.");
+  }
+  return {
+    title: data.title.trim(),
+    plot: typeof data.plot === "string" ? data.plot.trim() : "",
+    tags: Array.isArray(data.tags) ? data.tags.filter(isText).map(t => t.trim()) : []
+  };
+};
+
+// Throws with a readable message on failure; never makes up a result.
+// refresh skips the cached answer for this exact request and replaces it.
+export const generateVideoMetadata = async (
+  video: VideoAsset,
+  settings: MetadataProviderSettings = loadProviderSettings(),
+  options: { refresh?: boolean; collection?: Collection | null } = {}
+): Promise<GeneratedMetadata> => {
+  const provider = providerOf(settings.provider);
+  // No point grabbing frames for a text-only provider
+  const contextOptions = provider.supportsImages ? settings.context : { ...settings.context, frames: 0 };
+
+  // Checked before reading subtitles or capturing frames, which can take seconds per video
+  const key = cacheKeyOf(video, settings, metadataRequestOf(video, options.collection, contextOptions));
+  const cached = options.refresh ? undefined : readCache()[key];
+  if (cached) return cached;
+
+  const { prompt, frames } = await buildMetadataContext(video, options.collection, contextOptions);
+  const text = await provider.generate({ fileName: video.fileName, prompt, frames }, settings);
+  const result = validate(extractJson(text));
+  writeCache(key, result);
+  return result;
+};
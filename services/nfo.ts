@@ -0,0 +1,247 @@
+import { NfoArtwork, NfoKind, NfoRating, VideoMetadata } from "../types";
+
+// Kodi NFO reading and writing for <movie>, <tvshow> and <episodedetails>.
+// Elements we don't model are kept as raw XML in `nfoExtra` and written back unchanged,
+// so exporting never destroys data other tools put in the file.
+
+const NFO_KINDS: NfoKind[] = ['movie', 'tvshow', 'episodedetails'];
+
+// Everything parseNFO maps to a field. Anything else ends up in nfoExtra.
+const KNOWN_ELEMENTS = new Set([
+  'title', 'originaltitle', 'sorttitle', 'showtitle', 'season', 'episode', 'set', 'ratings', 'userrating',
+  'year', 'plot', 'tagline', 'runtime', 'thumb', 'fanart', 'uniqueid', 'genre', 'tag', 'director',
+  'studio', 'premiered', 'aired', 'actor'
+]);
+
+// --- Reading ---
+
+const childElements = (parent: Element, name?: string): Element[] =>
+  Array.from(parent.children).filter(el => !name || el.tagName.toLowerCase() === name);
+
+const childText = (parent: Element, name: string): string | undefined => {
+  const text = childElements(parent, name)[0]?.textContent?.trim();
+  return text || undefined;
+};
+
+const childTexts = (parent: Element, name: string): string[] =>
+  childElements(parent, name).map(el => el.textContent?.trim() || '').filter(Boolean);
+
+const toNumber = (text: string | null | undefined): number | undefined => {
+  if (!text) return undefined;
+  const n = parseFloat(text);
+  return isNaN(n) ? undefined : n;
+};
+
+const parseArtwork = (el: Element): NfoArtwork | null => {
+  const url = el.textContent?.trim();
+  if (!url) return null;
+  return {
+    url,
+    aspect: el.getAttribute('aspect') || undefined,
+    preview: el.getAttribute('preview') || undefined
+  };
+};
+
+const parseRatings = (root: Element): NfoRating[] => {
+  const ratings: NfoRating[] = [];
+  const container = childElements(root, 'ratings')[0];
+  if (container) {
+    childElements(container, 'rating').forEach(el => {
+      const value = toNumber(childText(el, 'value'));
+      if (value === undefined) return;
+      ratings.push({
+        name: el.getAttribute('name') || 'default',
+        value,
+        max: toNumber(el.getAttribute('max')) ?? 10,
+        votes: toNumber(childText(el, 'votes')?.replace(/,/g, '')),
+        isDefault: el.getAttribute('default') === 'true' || undefined
+      });
+    });
+  }
+  // Old style: a bare <rating> (0-10) with optional <votes>
+  const legacy = toNumber(childText(root, 'rating'));
+  if (ratings.length === 0 && legacy !== undefined) {
+    ratings.push({ name: 'default', value: legacy, max: 10, votes: toNumber(childText(root, 'votes')?.replace(/,/g, '')), isDefault: true });
+  }
+  return ratings;
+};
+
+// NFOs often carry junk around the XML (a bare IMDb URL line, a BOM...). Try the whole text first,
+// then just the root element.
+const parseXml = (text: string): Element | null => {
+  const parser = new DOMParser();
+  const attempt = (xml: string) => {
+    const doc = parser.parseFromString(xml, "text/xml");
+    const root = doc.documentElement;
+    if (doc.getElementsByTagName('parsererror').length > 0 || !root) return null;
+    return NFO_KINDS.includes(root.tagName.toLowerCase() as NfoKind) ? root : null;
+  };
+  const cleaned = text.replace(/^\uFEFF/, '');
+  const direct = attempt(cleaned);
+  if (direct) return direct;
+  const match = /<(movie|tvshow|episodedetails)[\s>][\s\S]*<\/\1>/i.exec(cleaned);
+  return match ? attempt(match[0]) : null;
+};
+
+// Returns only the fields present in the file, so merging it over defaults never blanks anything
+export const parseNFO = (text: string): Partial<VideoMetadata> => {
+  const root = parseXml(text);
+  if (!root) return {};
+
+  const result: Partial<VideoMetadata> = { nfoKind: root.tagName.toLowerCase() as NfoKind };
+  const set = <K extends keyof VideoMetadata>(key: K, value: VideoMetadata[K] | undefined) => {
+    if (value !== undefined && !(Array.isArray(value) && value.length === 0)) result[key] = value;
+  };
+
+  set('title', childText(root, 'title'));
+  set('originalTitle', childText(root, 'originaltitle'));
+  set('sortTitle', childText(root, 'sorttitle'));
+  set('showTitle', childText(root, 'showtitle'));
+  set('plot', childText(root, 'plot') || childText(root, 'outline'));
+  set('tagline', childText(root, 'tagline'));
+  set('runtime', toNumber(childText(root, 'runtime')));
+  set('season', toNumber(childText(root, 'season')));
+  set('episode', toNumber(childText(root, 'episode')));
+
+  const premiered = childText(root, 'premiered') || childText(root, 'aired');
+  set('premiered', premiered);
+  set('year', toNumber(childText(root, 'year')) ?? toNumber(premiered?.slice(0, 4)));
+
+  // Kodi's userrating is 0-10, we keep 0-5
+  const userRating = toNumber(childText(root, 'userrating'));
+  if (userRating !== undefined && userRating > 0) result.rating = Math.min(5, Math.round(userRating) / 2);
+  set('ratings', parseRatings(root));
+
+  const genres = childTexts(root, 'genre');
+  const kodiTags = childTexts(root, 'tag');
+  set('tags', Array.from(new Set([...genres, ...kodiTags])));
+  set('kodiTags', kodiTags);
+
+  set('directors', childTexts(root, 'director'));
+  set('studios', childTexts(root, 'studio'));
+
+  set('actors', childElements(root, 'actor').map(el => ({
+    name: childText(el, 'name') || '',
+    role: childText(el, 'role'),
+    order: toNumber(childText(el, 'order')),
+    thumb: childText(el, 'thumb')
+  })).filter(actor => actor.name));
+
+  // <set><name>..</name></set> (Kodi 17+) or the older <set>name</set>
+  const setElement = childElements(root, 'set')[0];
+  if (setElement) set('set', childText(setElement, 'name') || (setElement.children.length === 0 ? setElement.textContent?.trim() : undefined));
+
+  set('uniqueIds', childElements(root, 'uniqueid').map(el => ({
+    type: el.getAttribute('type') || 'unknown',
+    value: el.textContent?.trim() || '',
+    isDefault: el.getAttribute('default') === 'true' || undefined
+  })).filter(id => id.value));
+
+  set('thumbs', childElements(root, 'thumb').map(parseArtwork).filter((a): a is NfoArtwork => !!a));
+  const fanart = childElements(root, 'fanart')[0];
+  if (fanart) set('fanart', childElements(fanart, 'thumb').map(parseArtwork).filter((a): a is NfoArtwork => !!a));
+
+  // Keep the rest verbatim. Old-style <rating>/<votes> were folded into ratings above.
+  const hasLegacyRating = !childElements(root, 'ratings')[0] && result.ratings?.[0]?.name === 'default';
+  const serializer = new XMLSerializer();
+  set('nfoExtra', childElements(root)
+    .filter(el => {
+      const name = el.tagName.toLowerCase();
+      if (KNOWN_ELEMENTS.has(name)) return false;
+      return !(hasLegacyRating && (name === 'rating' || name === 'votes'));
+    })
+    .map(el => serializer.serializeToString(el)));
+
+  return result;
+};
+
+// --- Writing ---
+
+export const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters are not allowed in XML 1.0 at all
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+const attributes = (attrs: Record<string, string | number | boolean | undefined>) =>
+  Object.entries(attrs)
+    .filter(([, v]) => v !== undefined && v !== false && v !== '')
+    .map(([k, v]) => ` ${k}="${escapeXml(String(v))}"`)
+    .join('');
+
+const element = (name: string, value: string | number | undefined, attrs: Record<string, string | number | boolean | undefined> = {}) =>
+  value === undefined || value === '' ? [] : [`<${name}${attributes(attrs)}>${escapeXml(String(value))}</${name}>`];
+
+const indent = (lines: string[], depth = 1) => lines.map(line => '  '.repeat(depth) + line);
+
+export const generateNFOContent = (metadata: VideoMetadata): string => {
+  const kind = metadata.nfoKind || (metadata.episode !== undefined ? 'episodedetails' : 'movie');
+  const kodiTags = new Set(metadata.kodiTags || []);
+  const runtime = metadata.runtime ?? (metadata.duration ? Math.round(metadata.duration / 60) : undefined);
+
+  const lines: string[] = [
+    ...element('title', metadata.title),
+    ...element('originaltitle', metadata.originalTitle),
+    ...element('sorttitle', metadata.sortTitle),
+    ...element('showtitle', metadata.showTitle),
+    ...element('season', metadata.season),
+    ...element('episode', metadata.episode),
+  ];
+
+  if (metadata.ratings && metadata.ratings.length > 0) {
+    lines.push('<ratings>');
+    metadata.ratings.forEach(r => {
+      lines.push(...indent([
+        `<rating${attributes({ name: r.name, max: r.max, default: r.isDefault ? 'true' : undefined })}>`,
+        ...indent([...element('value', r.value), ...element('votes', r.votes)]),
+        '</rating>'
+      ]));
+    });
+    lines.push('</ratings>');
+  }
+  if (metadata.rating) lines.push(...element('userrating', Math.round(metadata.rating * 2)));
+
+  lines.push(
+    ...element('year', metadata.year),
+    ...element('plot', metadata.plot),
+    ...element('tagline', metadata.tagline),
+    ...element('runtime', runtime),
+    ...(metadata.thumbs || []).flatMap(t => element('thumb', t.url, { aspect: t.aspect, preview: t.preview }))
+  );
+  if (metadata.fanart && metadata.fanart.length > 0) {
+    lines.push('<fanart>', ...indent(metadata.fanart.flatMap(t => element('thumb', t.url, { preview: t.preview }))), '</fanart>');
+  }
+  lines.push(
+    ...(metadata.uniqueIds || []).flatMap(id => element('uniqueid', id.value, { type: id.type, default: id.isDefault ? 'true' : undefined })),
+    ...metadata.tags.filter(t => !kodiTags.has(t)).flatMap(t => element('genre', t)),
+    ...metadata.tags.filter(t => kodiTags.has(t)).flatMap(t => element('tag', t))
+  );
+  if (metadata.set) {
+    lines.push('<set>', ...indent(element('name', metadata.set)), '</set>');
+  }
+  lines.push(
+    ...(metadata.directors || []).flatMap(d => element('director', d)),
+    ...(metadata.studios || []).flatMap(s => element('studio', s)),
+    ...element(kind === 'episodedetails' ? 'aired' : 'premiered', metadata.premiered)
+  );
+  (metadata.actors || []).forEach(actor => {
+    lines.push('<actor>', ...indent([
+      ...element('name', actor.name),
+      ...element('role', actor.role),
+      ...element('order', actor.order),
+      ...element('thumb', actor.thumb)
+    ]), '</actor>');
+  });
+  // Unknown elements go back exactly as they were read
+  lines.push(...(metadata.nfoExtra || []));
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes" ?>
+<${kind}>
+${indent(lines).join('\n')}
+</${kind}>
+`;
+};
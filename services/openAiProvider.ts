@@ -0,0 +1,54 @@
+import { MetadataProvider, PermanentMetadataError } from "./metadataProvider";
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, Ollama, llama.cpp, LM Studio...
+export const openAiProvider: MetadataProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible (Ollama, llama.cpp, ...)',
+  defaultModel: 'llama3.1',
+  usesBaseUrl: true,
+  supportsImages: true, // Needs a vision model (e.g. llava, gpt-4o) when frames are enabled
+  generate: async ({ prompt, frames }, settings) => {
+    if (!settings.baseUrl.trim()) {
+      throw new PermanentMetadataError("No endpoint URL set. Add it in Settings.");
+    }
+
+    const url = `${settings.baseUrl.trim().replace(/\/+$/, "")}/chat/completions`;
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          // Local servers usually don't need a key
+          ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: settings.model || openAiProvider.defaultModel,
+          messages: [
+            { role: "system", content: "You catalogue video files. Reply with a single JSON object." },
+            {
+              role: "user",
+              content: frames.length > 0
+                ? [{ type: "text", text: prompt }, ...frames.map(url => ({ type: "image_url", image_url: { url } }))]
+                : prompt
+            }
+          ],
+          response_format: { type: "json_object" },
+          temperature: 0.2
+        })
+      });
+    } catch (e) {
+      throw new Error(`Could not reach ${url}. Is the server running?`);
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new Error(`${url} answered ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ""}`);
+    }
+
+    const data = await response.json();
+    const text = data?.choices?.[0]?.message?.content;
+    if (typeof text !== "string" || !text.trim()) throw new Error("The server returned an empty response.");
+    return text;
+  }
+};
@@ -0,0 +1,90 @@
+import { FolderSelection, SourceFile, SubtitleTrack, VideoAsset } from "../types";
+import { isSubtitleFile, isVideoFile } from "./fileUtils";
+
+// Dry-run relinking: work out which picked file each video would be linked to, and how sure we are,
+// so the user can review the plan before anything changes.
+
+export type RelinkMatchKind = 'content' | 'path' | 'filename' | 'none';
+
+export interface RelinkRow {
+  videoId: string;
+  kind: RelinkMatchKind;
+  candidates: SourceFile[]; // Best first; empty when kind is 'none'
+  ambiguous: boolean; // More than one plausible file, the user should double-check
+}
+
+export interface RelinkResolution {
+  videoId: string;
+  source: SourceFile;
+  subtitles: SubtitleTrack[];
+}
+
+const fileNameOf = (relativePath: string) => relativePath.split('/').pop() || '';
+const dirOf = (relativePath: string) => relativePath.split('/').slice(0, -1).join('/');
+
+// Number of trailing path segments two paths share, used to rank filename-only candidates
+const commonSuffixLength = (a: string, b: string) => {
+  const pa = a.split('/').reverse();
+  const pb = b.split('/').reverse();
+  let n = 0;
+  while (n < pa.length && n < pb.length && pa[n] === pb[n]) n++;
+  return n;
+};
+
+export const planRelink = (videos: VideoAsset[], selection: FolderSelection, fingerprints: Map<string, string>): RelinkRow[] => {
+  const videoFiles = selection.files.filter(f => isVideoFile(f));
+  const byPath = new Map(videoFiles.map(f => [f.relativePath, f]));
+  const byName = new Map<string, SourceFile[]>();
+  const byContent = new Map<string, SourceFile[]>();
+  for (const file of videoFiles) {
+    byName.set(file.name, [...(byName.get(file.name) || []), file]);
+    const fingerprint = fingerprints.get(file.relativePath);
+    if (fingerprint) byContent.set(fingerprint, [...(byContent.get(fingerprint) || []), file]);
+  }
+
+  return videos.map(video => {
+    const sameContent = video.fingerprint ? byContent.get(video.fingerprint) || [] : [];
+    if (sameContent.length > 0) {
+      return { videoId: video.id, kind: 'content', candidates: sameContent, ambiguous: sameContent.length > 1 };
+    }
+
+    const samePath = byPath.get(video.relativePath);
+    if (samePath) {
+      return { videoId: video.id, kind: 'path', candidates: [samePath], ambiguous: false };
+    }
+
+    const sameName = (byName.get(fileNameOf(video.relativePath)) || [])
+      .map(file => ({ file, sizeMatches: file.size === video.size, suffix: commonSuffixLength(file.relativePath, video.relativePath) }))
+      .sort((a, b) => Number(b.sizeMatches) - Number(a.sizeMatches) || b.suffix - a.suffix);
+    if (sameName.length > 0) {
+      const plausible = sameName.filter(c => c.sizeMatches);
+      return {
+        videoId: video.id,
+        kind: 'filename',
+        candidates: sameName.map(c => c.file),
+        // Unsure unless exactly one candidate has the right size
+        ambiguous: plausible.length !== 1
+      };
+    }
+
+    return { videoId: video.id, kind: 'none', candidates: [], ambiguous: false };
+  });
+};
+
+// Relinks a video's subtitle tracks next to its new location: same relative path first,
+// then the same file name in the video's new folder, then a unique file name anywhere.
+export const relinkSubtitles = (video: VideoAsset, newVideo: SourceFile, selection: FolderSelection): SubtitleTrack[] => {
+  const subtitleFiles = selection.files.filter(f => isSubtitleFile(f));
+  const newDir = dirOf(newVideo.relativePath);
+
+  return video.subtitles.map(track => {
+    const name = track.relativePath ? fileNameOf(track.relativePath) : track.label;
+    const sameName = subtitleFiles.filter(f => f.name === name);
+    const match =
+      subtitleFiles.find(f => f.relativePath === track.relativePath) ??
+      sameName.find(f => dirOf(f.relativePath) === newDir) ??
+      (sameName.length === 1 ? sameName[0] : undefined);
+
+    return match ? { ...track, relativePath: match.relativePath, fileHandle: match.file } : track;
+  });
+};
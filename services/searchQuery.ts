@@ -0,0 +1,373 @@
+import { Collection, VideoAsset } from "../types";
+import { isTagOrChild } from "./tagService";
+import { CODEC_VALUES, RESOLUTION_VALUES, SOURCE_VALUES, releaseInfoOf, resolutionHeightOf } from "./filenameParser";
+
+// Search box query language.
+//
+//   dune "director's cut" tag:Action -tag:Kids collection:"Home Movies"
+//   duration:>30m size:<2GB year:1990..1999 rating:>=4 path:season1 is:favourite
+//   tag:Comedy OR tag:Drama
+//   resolution:>=1080p source:bluray codec:x265 lang:french edition:extended group:ntb
+//
+// Terms are ANDed, OR (or |) separates alternatives, a leading - negates a term.
+// Bare words match title, file name and note, with typo tolerance on titles;
+// quoted phrases must appear exactly.
+
+export type SearchField =
+  | 'tag' | 'collection' | 'duration' | 'size' | 'year' | 'rating' | 'path' | 'title' | 'is'
+  | 'resolution' | 'source' | 'codec' | 'edition' | 'lang' | 'group';
+
+export const SEARCH_FIELDS: Record<SearchField, string> = {
+  tag: 'Has tag',
+  collection: 'In collection',
+  duration: 'Length, e.g. >30m or 1h..2h',
+  size: 'File size, e.g. <2GB',
+  year: 'Year, e.g. 1990..1999',
+  rating: 'Rating, e.g. >=4',
+  path: 'Path contains',
+  title: 'Title contains',
+  is: 'favourite, watched, unwatched, missing',
+  resolution: 'Resolution, e.g. >=1080p or 4k',
+  source: 'Release source, e.g. bluray',
+  codec: 'Video or audio codec, e.g. x265',
+  edition: 'Edition, e.g. extended',
+  lang: 'Release language',
+  group: 'Release group',
+};
+
+const IS_VALUES = ['favourite', 'watched', 'unwatched', 'inprogress', 'missing'];
+
+interface TextTerm {
+  kind: 'text';
+  text: string;
+  exact: boolean; // Quoted phrase: no fuzzy matching
+  negated: boolean;
+}
+
+interface FieldTerm {
+  kind: 'field';
+  field: SearchField;
+  value: string;
+  negated: boolean;
+  test: (video: VideoAsset, context: SearchContext) => boolean;
+}
+
+type Term = TextTerm | FieldTerm;
+
+export interface ParsedQuery {
+  alternatives: Term[][]; // OR of ANDs; empty means "match everything"
+  errors: string[]; // Field terms that could not be understood (they are ignored)
+}
+
+export interface SearchContext {
+  collectionNames: Map<string, string>; // Collection id -> lower-cased name
+}
+
+export const createSearchContext = (collections: Collection[]): SearchContext => ({
+  collectionNames: new Map(collections.map(c => [c.id, c.name.toLowerCase()]))
+});
+
+// --- Tokenizer ---
+
+interface Token {
+  text: string; // Unquoted content
+  quoted: boolean; // The value part was quoted
+  negated: boolean;
+  field: string | null;
+}
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    if (/\s/.test(input[i])) { i++; continue; }
+
+    let negated = false;
+    if (input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      negated = true;
+      i++;
+    }
+
+    // Optional field prefix: letters followed by a colon
+    let field: string | null = null;
+    const fieldMatch = /^([a-zA-Z]+):/.exec(input.slice(i));
+    if (fieldMatch) {
+      field = fieldMatch[1].toLowerCase();
+      i += fieldMatch[0].length;
+    }
+
+    let text = '';
+    let quoted = false;
+    if (input[i] === '"') {
+      quoted = true;
+      const end = input.indexOf('"', i + 1);
+      text = input.slice(i + 1, end === -1 ? undefined : end);
+      i = end === -1 ? input.length : end + 1;
+    } else {
+      while (i < input.length && !/\s/.test(input[i])) text += input[i++];
+    }
+
+    tokens.push({ text, quoted, negated, field });
+  }
+  return tokens;
+};
+
+// --- Values with units and ranges ---
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, min: 60, h: 3600 };
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3, tb: 1024 ** 4 };
+
+// "90", "30m", "1h30m", "1.5h" -> seconds. Bare numbers are minutes.
+const parseDuration = (text: string): number | null => {
+  if (/^\d+(\.\d+)?$/.test(text)) return parseFloat(text) * 60;
+  const parts = text.toLowerCase().match(/\d+(\.\d+)?(min|s|m|h)/g);
+  if (!parts || parts.join('') !== text.toLowerCase()) return null;
+  return parts.reduce((total, part) => {
+    const [, num, , unit] = /^(\d+(\.\d+)?)(min|s|m|h)$/.exec(part)!;
+    return total + parseFloat(num) * DURATION_UNITS[unit];
+  }, 0);
+};
+
+// "700MB", "2gb", "1.5 GB" -> bytes. Bare numbers are megabytes.
+const parseSize = (text: string): number | null => {
+  const match = /^(\d+(\.\d+)?)\s*(b|kb|mb|gb|tb)?$/i.exec(text);
+  if (!match) return null;
+  return parseFloat(match[1]) * SIZE_UNITS[(match[3] || 'mb').toLowerCase()];
+};
+
+// "1080p", "1080", "4k" -> 1080 / 2160
+const parseResolution = (text: string): number | null => {
+  if (/^(4k|uhd)$/i.test(text)) return 2160;
+  const match = /^(\d{3,4})p?$/i.exec(text);
+  return match ? Number(match[1]) : null;
+};
+
+// "x265", "h265" and "hevc" all mean H.265
+const normalizeCodec = (text: string) => text.toLowerCase()
+  .replace(/^(?:[xh]\.?265|hevc)$/, 'h.265')
+  .replace(/^(?:[xh]\.?264|avc)$/, 'h.264')
+  .replace(/[\s.-]/g, '');
+
+const parseNumber = (text: string): number | null => {
+  const n = Number(text);
+  return text.trim() !== '' && !isNaN(n) ? n : null;
+};
+
+// Comparison (">x", ">=x", "<x", "<=x", "=x", "x") or range ("a..b", "a..", "..b").
+// Returns null if any bound does not parse.
+const parseComparison = (text: string, parseValue: (text: string) => number | null): ((n: number) => boolean) | null => {
+  const rangeIndex = text.indexOf('..');
+  if (rangeIndex !== -1) {
+    const lowText = text.slice(0, rangeIndex);
+    const highText = text.slice(rangeIndex + 2);
+    const low = lowText ? parseValue(lowText) : -Infinity;
+    const high = highText ? parseValue(highText) : Infinity;
+    if (low === null || high === null) return null;
+    return n => n >= low && n <= high;
+  }
+
+  const match = /^(>=|<=|>|<|=)?(.+)$/.exec(text);
+  if (!match) return null;
+  const value = parseValue(match[2]);
+  if (value === null) return null;
+  switch (match[1]) {
+    case '>': return n => n > value;
+    case '>=': return n => n >= value;
+    case '<': return n => n < value;
+    case '<=': return n => n <= value;
+    default: return n => n === value;
+  }
+};
+
+const numericTest = (compare: ((n: number) => boolean) | null, valueOf: (video: VideoAsset) => number | undefined) => {
+  if (!compare) return null;
+  // Unknown values (e.g. duration not probed yet) never match
+  return (video: VideoAsset) => {
+    const value = valueOf(video);
+    return value !== undefined && compare(value);
+  };
+};
+
+const buildFieldTest = (field: SearchField, value: string): FieldTerm['test'] | null => {
+  const lower = value.toLowerCase();
+  switch (field) {
+    case 'tag':
+      // tag:Sport also finds Sport/Football
+      return video => video.metadata.tags.some(t => isTagOrChild(t.toLowerCase(), lower));
+    case 'collection':
+      return (video, context) => context.collectionNames.get(video.collectionId) === lower;
+    case 'path':
+      return video => video.relativePath.toLowerCase().includes(lower);
+    case 'title':
+      return video => (video.metadata.title || video.fileName).toLowerCase().includes(lower);
+    case 'duration':
+      return numericTest(parseComparison(value, parseDuration), v => v.metadata.duration);
+    case 'size':
+      return numericTest(parseComparison(value, parseSize), v => v.size);
+    case 'year':
+      return numericTest(parseComparison(value, parseNumber), v => v.metadata.year);
+    case 'rating':
+      return numericTest(parseComparison(value, parseNumber), v => v.metadata.rating ?? 0);
+    case 'resolution':
+      return numericTest(parseComparison(value, parseResolution), v => resolutionHeightOf(releaseInfoOf(v).resolution) ?? v.metadata.height);
+    case 'source':
+      return video => (releaseInfoOf(video).source || '').toLowerCase().replace(/-/g, '').includes(lower.replace(/-/g, ''));
+    case 'codec': {
+      const codec = normalizeCodec(value);
+      return video => {
+        const release = releaseInfoOf(video);
+        return [release.videoCodec, release.audioCodec].some(c => c && normalizeCodec(c).includes(codec));
+      };
+    }
+    case 'edition':
+      return video => (releaseInfoOf(video).edition || '').toLowerCase().includes(lower);
+    case 'lang':
+      return video => (releaseInfoOf(video).languages || []).some(l => l.toLowerCase().startsWith(lower));
+    case 'group':
+      return video => (releaseInfoOf(video).group || '').toLowerCase() === lower;
+    case 'is':
+      switch (lower) {
+        case 'favourite': case 'favorite': return video => !!video.metadata.favourite;
+        case 'watched': return video => !!video.history?.completed;
+        case 'unwatched': return video => !video.history?.playCount && !video.history?.completed;
+        case 'inprogress': return video => (video.history?.lastPosition || 0) > 0;
+        case 'missing': return video => !!video.missing;
+        default: return null;
+      }
+    default:
+      return null;
+  }
+};
+
+// --- Parser ---
+
+const isOrToken = (token: Token) => !token.quoted && !token.field && !token.negated && (token.text === 'OR' || token.text === '|');
+
+export const parseSearchQuery = (input: string): ParsedQuery => {
+  const alternatives: Term[][] = [[]];
+  const errors: string[] = [];
+
+  for (const token of tokenize(input)) {
+    if (isOrToken(token)) {
+      if (alternatives[alternatives.length - 1].length > 0) alternatives.push([]);
+      continue;
+    }
+    const current = alternatives[alternatives.length - 1];
+
+    if (token.field && token.field in SEARCH_FIELDS) {
+      const field = token.field as SearchField;
+      if (!token.text) continue; // Still being typed
+      const test = buildFieldTest(field, token.text);
+      if (test) {
+        current.push({ kind: 'field', field, value: token.text, negated: token.negated, test });
+      } else {
+        errors.push(`${field}:${token.text}`);
+      }
+      continue;
+    }
+
+    // Unknown "field:" prefixes are just text
+    const text = token.field ? `${token.field}:${token.text}` : token.text;
+    if (text) current.push({ kind: 'text', text: text.toLowerCase(), exact: token.quoted, negated: token.negated });
+  }
+
+  return { alternatives: alternatives.filter(terms => terms.length > 0), errors };
+};
+
+// --- Matching ---
+
+// Optimal string alignment distance (Levenshtein plus adjacent swaps), capped for speed
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d = Math.min(d, prevPrev[j - 2] + 1);
+      row.push(d);
+      rowMin = Math.min(rowMin, d);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+// Short words must match exactly, longer ones may have a typo or two
+const allowedTypos = (word: string) => word.length < 4 ? 0 : word.length < 8 ? 1 : 2;
+
+const fuzzyWordMatch = (word: string, title: string): boolean => {
+  const max = allowedTypos(word);
+  if (max === 0) return false;
+  return title.split(/[^\p{L}\p{N}]+/u).some(titleWord =>
+    titleWord && (editDistance(word, titleWord, max) <= max ||
+      // Prefix typos, e.g. "intersteler" while the title word is longer
+      (titleWord.length > word.length && editDistance(word, titleWord.slice(0, word.length), max) <= max))
+  );
+};
+
+const matchesText = (video: VideoAsset, term: TextTerm): boolean => {
+  const title = (video.metadata.title || '').toLowerCase();
+  const haystacks = [title, video.fileName.toLowerCase(), (video.metadata.note || '').toLowerCase()];
+  if (haystacks.some(h => h.includes(term.text))) return true;
+  return !term.exact && fuzzyWordMatch(term.text, title || video.fileName.toLowerCase());
+};
+
+const matchesTerm = (video: VideoAsset, term: Term, context: SearchContext): boolean => {
+  const result = term.kind === 'text' ? matchesText(video, term) : term.test(video, context);
+  return term.negated ? !result : result;
+};
+
+export const matchesQuery = (video: VideoAsset, query: ParsedQuery, context: SearchContext): boolean => {
+  if (query.alternatives.length === 0) return true;
+  return query.alternatives.some(terms => terms.every(term => matchesTerm(video, term, context)));
+};
+
+// --- Autocomplete ---
+
+export interface SearchSuggestion {
+  label: string; // Shown in the dropdown
+  detail?: string;
+  value: string; // Full search box text after picking it
+}
+
+const MAX_SUGGESTIONS = 8;
+
+const quoteIfNeeded = (value: string) => /[\s"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+
+// Completes the last word of the query: field names, then known values for tag:, collection: and is:
+export const suggestCompletions = (input: string, tags: string[], collectionNames: string[]): SearchSuggestion[] => {
+  // Last word, allowing for an unfinished quoted value
+  const match = /(-?)(?:([a-zA-Z]+):)?("[^"]*|[^\s"]*)$/.exec(input);
+  if (!match || match[0] === '') return [];
+  const [whole, negation, field, rawValue] = match;
+  const before = input.slice(0, input.length - whole.length);
+  const partial = rawValue.replace(/^"/, '').toLowerCase();
+
+  if (!field) {
+    if (!partial) return [];
+    return (Object.keys(SEARCH_FIELDS) as SearchField[])
+      .filter(f => f.startsWith(partial) && f !== partial)
+      .map(f => ({ label: `${f}:`, detail: SEARCH_FIELDS[f], value: `${before}${negation}${f}:` }));
+  }
+
+  const values = field === 'tag' ? tags
+    : field === 'collection' ? collectionNames
+    : field === 'is' ? IS_VALUES
+    : field === 'resolution' ? RESOLUTION_VALUES
+    : field === 'source' ? SOURCE_VALUES
+    : field === 'codec' ? CODEC_VALUES
+    : [];
+  const lowerField = field.toLowerCase();
+  return values
+    .filter(v => v.toLowerCase().includes(partial) && v.toLowerCase() !== partial)
+    // Prefix matches first
+    .sort((a, b) => Number(!a.toLowerCase().startsWith(partial)) - Number(!b.toLowerCase().startsWith(partial)) || a.localeCompare(b))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(v => ({ label: `${lowerField}:${v}`, value: `${before}${negation}${lowerField}:${quoteIfNeeded(v)} ` }));
+};
@@ -0,0 +1,150 @@
+import { VideoAsset } from "../types";
+import { resumePositionOf } from "./watchHistory";
+
+// TV series: episodes are ordinary videos with a series title, season and episode number.
+// Those come from the NFO or are detected at import from the file name and folder layout
+// ("Show.S01E02.mkv", "1x02", "Show/Season 1/Episode 2.mkv"). Videos imported before detection
+// existed are recognised from their path on the fly.
+
+export interface EpisodeInfo {
+  series: string;
+  season: number;
+  episode: number;
+  episodeEnd?: number; // Multi-episode files, e.g. S01E01-E02
+}
+
+export interface Season {
+  number: number; // 0 = specials
+  episodes: VideoAsset[];
+  watched: number;
+}
+
+export interface Series {
+  key: string;
+  title: string;
+  thumbnailUrl: string | null;
+  episodes: VideoAsset[]; // Play order
+  seasons: Season[];
+  watched: number;
+  nextUp: VideoAsset | null; // null once everything is watched
+}
+
+const SEASON_FOLDER = /^(?:season|series|staffel|saison|temporada)[ ._-]*(\d{1,3})$|^s(\d{1,3})$/i;
+const SPECIALS_FOLDER = /^(?:specials?|extras?)$/i;
+
+// Name patterns, tried in order. Each captures season, episode and optionally a last episode.
+const EPISODE_PATTERNS = [
+  /\bS(\d{1,3})[ ._-]?E(\d{1,4})(?:[ ._-]?-?[ ._-]?E(\d{1,4}))?/i,
+  /\b(\d{1,2})x(\d{2,3})(?:-(?:\d{1,2}x)?(\d{2,3}))?\b/i,
+  /\bSeason[ ._-]*(\d{1,3})[ ._-]*Episode[ ._-]*(\d{1,4})/i
+];
+
+// Inside a season folder the file name only needs the episode number: "Episode 2", "E02", "02 - Pilot"
+const EPISODE_ONLY_PATTERN = /(?:^|[ ._-])(?:Episode|Ep|E)[ ._-]*(\d{1,4})\b|^(\d{1,3})(?=$|[ ._-])/i;
+
+// "The.Show.Name." -> "The Show Name"
+const cleanSeriesTitle = (text: string) =>
+  text.replace(/[._]+/g, ' ').replace(/\s+/g, ' ').replace(/^[\s\-–]+|[\s\-–([]+$/g, '').trim();
+
+export const seriesKeyOf = (title: string) => title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+export const parseEpisodeInfo = (relativePath: string): EpisodeInfo | null => {
+  const segments = relativePath.split('/');
+  const fileName = segments.pop() || '';
+  const name = fileName.includes('.') ? fileName.substring(0, fileName.lastIndexOf('.')) : fileName;
+  const parent = segments[segments.length - 1] || '';
+
+  // Folder layout: ".../Show/Season 1/file"
+  const seasonMatch = SEASON_FOLDER.exec(parent);
+  const folderSeason = seasonMatch ? Number(seasonMatch[1] ?? seasonMatch[2]) : SPECIALS_FOLDER.test(parent) ? 0 : undefined;
+  const folderSeries = folderSeason !== undefined ? cleanSeriesTitle(segments[segments.length - 2] || '') : '';
+
+  for (const pattern of EPISODE_PATTERNS) {
+    const match = pattern.exec(name);
+    if (!match) continue;
+    const series = folderSeries || cleanSeriesTitle(name.slice(0, match.index)) || cleanSeriesTitle(parent);
+    if (!series) return null;
+    const episode = Number(match[2]);
+    const episodeEnd = match[3] ? Number(match[3]) : undefined;
+    return { series, season: Number(match[1]), episode, episodeEnd: episodeEnd && episodeEnd > episode ? episodeEnd : undefined };
+  }
+
+  if (folderSeason !== undefined && folderSeries) {
+    const match = EPISODE_ONLY_PATTERN.exec(name);
+    if (match) return { series: folderSeries, season: folderSeason, episode: Number(match[1] ?? match[2]) };
+  }
+  return null;
+};
+
+// Metadata (NFO or edited) wins over what the path suggests
+export const episodeInfoOf = (video: VideoAsset): EpisodeInfo | null => {
+  const { showTitle, season, episode } = video.metadata;
+  if (showTitle && episode !== undefined) return { series: showTitle, season: season ?? 1, episode };
+  return parseEpisodeInfo(video.relativePath);
+};
+
+// "S01E02"
+export const episodeLabel = (info: Pick<EpisodeInfo, 'season' | 'episode' | 'episodeEnd'>) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `S${pad(info.season)}E${pad(info.episode)}${info.episodeEnd ? `-E${pad(info.episodeEnd)}` : ''}`;
+};
+
+const compareEpisodes = (a: EpisodeInfo, b: EpisodeInfo) => a.season - b.season || a.episode - b.episode;
+
+// Resume the last played episode if it was left unfinished, otherwise the first unwatched one after it
+const findNextUp = (episodes: VideoAsset[]): VideoAsset | null => {
+  let lastIndex = -1;
+  episodes.forEach((v, i) => {
+    if ((v.history?.lastPlayedAt || 0) > (episodes[lastIndex]?.history?.lastPlayedAt || 0)) lastIndex = i;
+  });
+  if (lastIndex !== -1 && !episodes[lastIndex].history?.completed && resumePositionOf(episodes[lastIndex]) !== null) {
+    return episodes[lastIndex];
+  }
+  const unwatched = (v: VideoAsset) => !v.history?.completed;
+  return episodes.slice(lastIndex + 1).find(unwatched) || episodes.find(unwatched) || null;
+};
+
+export const groupSeries = (videos: VideoAsset[]): Series[] => {
+  const groups = new Map<string, { title: string; entries: { video: VideoAsset; info: EpisodeInfo }[] }>();
+  for (const video of videos) {
+    const info = episodeInfoOf(video);
+    if (!info) continue;
+    const key = seriesKeyOf(info.series);
+    if (!key) continue;
+    if (!groups.has(key)) groups.set(key, { title: info.series, entries: [] });
+    groups.get(key)!.entries.push({ video, info });
+  }
+
+  return Array.from(groups.entries()).map(([key, { title, entries }]) => {
+    entries.sort((a, b) => compareEpisodes(a.info, b.info) || a.video.fileName.localeCompare(b.video.fileName));
+    const episodes = entries.map(e => e.video);
+
+    const seasons: Season[] = [];
+    entries.forEach(({ video, info }) => {
+      let season = seasons.find(s => s.number === info.season);
+      if (!season) {
+        season = { number: info.season, episodes: [], watched: 0 };
+        seasons.push(season);
+      }
+      season.episodes.push(video);
+      if (video.history?.completed) season.watched++;
+    });
+
+    return {
+      key,
+      title,
+      thumbnailUrl: episodes.find(v => v.thumbnailUrl)?.thumbnailUrl || null,
+      episodes,
+      seasons,
+      watched: seasons.reduce((sum, s) => sum + s.watched, 0),
+      nextUp: findNextUp(episodes)
+    };
+  }).sort((a, b) => a.title.localeCompare(b.title));
+};
+
+export const seriesOfVideo = (series: Series[], videoId: string): Series | undefined =>
+  series.find(s => s.episodes.some(v => v.id === videoId));
+
+// Episodes after the given one, in order: what plays next
+export const episodesAfter = (series: Series, videoId: string): VideoAsset[] =>
+  series.episodes.slice(series.episodes.findIndex(v => v.id === videoId) + 1);
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { ShuffleMode, VideoAsset } from '../types';
+import { buildShuffleQueue, createRandom } from './shuffleService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2024, 0, 1);
+
+const video = (id: string, rating?: number, lastPlayedAt?: number): VideoAsset => ({
+  id,
+  collectionId: 'c',
+  fileName: `${id}.mp4`,
+  relativePath: `videos/${id}.mp4`,
+  fileHandle: null,
+  thumbnailUrl: null,
+  metadata: { title: id, plot: '', tags: [], rating },
+  size: 0,
+  subtitles: [],
+  history: lastPlayedAt === undefined ? undefined : { lastPosition: 0, playCount: 1, lastPlayedAt, completed: true, watchedSeconds: 0 }
+});
+
+const SCOPE = ['a', 'b', 'c', 'd', 'e', 'f'].map(id => video(id));
+const idsOf = (videos: VideoAsset[]) => videos.map(v => v.id);
+
+// How often each video comes first over many seeded runs
+const firstCounts = (scope: VideoAsset[], mode: ShuffleMode, runs = 2000) => {
+  const counts: Record<string, number> = {};
+  for (let seed = 1; seed <= runs; seed++) {
+    const [first] = buildShuffleQueue(scope, { mode, random: createRandom(seed), now: NOW }).queue;
+    counts[first.id] = (counts[first.id] || 0) + 1;
+  }
+  return counts;
+};
+
+describe('buildShuffleQueue', () => {
+  it.each<ShuffleMode>(['random', 'rating', 'fresh', 'noRepeat'])('%s: the same seed gives the same queue', mode => {
+    const build = (seed: number) => idsOf(buildShuffleQueue(SCOPE, { mode, random: createRandom(seed), now: NOW }).queue);
+    expect(build(42)).toEqual(build(42));
+    expect([...build(42)].sort()).toEqual(idsOf(SCOPE));
+    expect(build(42)).not.toEqual(build(7));
+  });
+
+  it('rating: higher rated videos tend to come first but nothing is left out', () => {
+    const scope = [video('low', 0), video('unrated'), video('high', 5)];
+    const counts = firstCounts(scope, 'rating');
+    expect(counts.high).toBeGreaterThan(counts.unrated);
+    expect(counts.unrated).toBeGreaterThan(counts.low);
+    expect(counts.low).toBeGreaterThan(0);
+  });
+
+  it('fresh: never played beats played long ago beats played yesterday', () => {
+    const scope = [video('yesterday', undefined, NOW - DAY_MS), video('lastYear', undefined, NOW - 300 * DAY_MS), video('never')];
+    const counts = firstCounts(scope, 'fresh');
+    expect(counts.never).toBeGreaterThan(counts.lastYear);
+    expect(counts.lastYear).toBeGreaterThan(counts.yesterday || 0);
+  });
+
+  it('noRepeat: leaves out what was already played in this cycle', () => {
+    const { queue, exhausted } = buildShuffleQueue(SCOPE, { mode: 'noRepeat', random: createRandom(1), played: ['a', 'c', 'gone'] });
+    expect(idsOf(queue).sort()).toEqual(['b', 'd', 'e', 'f']);
+    expect(exhausted).toBe(false);
+  });
+
+  it('noRepeat: plays everything once, then reports the cycle exhausted and starts over', () => {
+    const random = createRandom(99);
+    let played: string[] = [];
+    const cycle: string[] = [];
+    for (let i = 0; i < SCOPE.length; i++) {
+      const { queue, exhausted } = buildShuffleQueue(SCOPE, { mode: 'noRepeat', random, played });
+      expect(exhausted).toBe(false);
+      cycle.push(queue[0].id);
+      played = [...played, queue[0].id];
+    }
+    expect([...cycle].sort()).toEqual(idsOf(SCOPE));
+
+    const next = buildShuffleQueue(SCOPE, { mode: 'noRepeat', random, played });
+    expect(next.exhausted).toBe(true);
+    expect(idsOf(next.queue).sort()).toEqual(idsOf(SCOPE));
+
+    // After the caller resets the history the new cycle excludes only what it plays
+    const restarted = buildShuffleQueue(SCOPE, { mode: 'noRepeat', random, played: [next.queue[0].id] });
+    expect(restarted.exhausted).toBe(false);
+    expect(restarted.queue).toHaveLength(SCOPE.length - 1);
+  });
+
+  it('noRepeat: an empty scope is not an exhausted cycle', () => {
+    expect(buildShuffleQueue([], { mode: 'noRepeat', random: createRandom(1), played: ['a'] })).toEqual({ queue: [], exhausted: false });
+  });
+});
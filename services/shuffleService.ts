@@ -0,0 +1,91 @@
+import { ShuffleMode, VideoAsset } from "../types";
+
+// Queue building for shuffle playback.
+// Every function takes its random source as a parameter, so passing a seeded generator
+// makes any mode fully reproducible.
+
+export const SHUFFLE_MODE_LABELS: Record<ShuffleMode, string> = {
+  random: 'Pure random',
+  rating: 'Favour high ratings',
+  fresh: 'Favour unwatched / least recent',
+  noRepeat: 'No repeats until all played',
+};
+
+export type RandomSource = () => number; // Uniform in [0, 1)
+
+// mulberry32: tiny, fast and good enough for shuffling. Unseeded calls draw a seed from Math.random.
+export const createRandom = (seed: number = Math.floor(Math.random() * 2 ** 32)): RandomSource => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Unbiased Fisher-Yates shuffle (returns a copy)
+export const shuffle = <T>(items: T[], random: RandomSource): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Weighted random order without replacement (Efraimidis-Spirakis): each item gets the key
+// u^(1/w) and items are sorted by key, so heavier items tend to come first but nothing is excluded.
+export const weightedShuffle = <T>(items: T[], weightOf: (item: T) => number, random: RandomSource): T[] => {
+  return items
+    .map(item => {
+      const weight = Math.max(weightOf(item), 1e-6);
+      return { item, key: Math.pow(random(), 1 / weight) };
+    })
+    .sort((a, b) => b.key - a.key)
+    .map(entry => entry.item);
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Unrated videos sit in the middle of the 0-5 scale
+const ratingWeight = (video: VideoAsset) => (video.metadata.rating ?? 2.5) + 0.5;
+
+// Never played is strongly preferred; otherwise the longer ago, the likelier (capped at a year)
+const freshnessWeight = (video: VideoAsset, now: number) => {
+  const lastPlayedAt = video.history?.lastPlayedAt;
+  if (!lastPlayedAt) return 400;
+  return 1 + Math.min(365, Math.max(0, (now - lastPlayedAt) / DAY_MS));
+};
+
+export interface ShuffleOptions {
+  mode: ShuffleMode;
+  random: RandomSource;
+  played?: string[]; // Video ids already played in the current no-repeat cycle
+  now?: number; // Injectable clock for 'fresh'
+}
+
+export interface ShuffleResult {
+  queue: VideoAsset[];
+  exhausted: boolean; // No-repeat cycle had nothing left and was restarted
+}
+
+export const buildShuffleQueue = (scope: VideoAsset[], options: ShuffleOptions): ShuffleResult => {
+  const { mode, random, played = [], now = Date.now() } = options;
+
+  switch (mode) {
+    case 'rating':
+      return { queue: weightedShuffle(scope, ratingWeight, random), exhausted: false };
+    case 'fresh':
+      return { queue: weightedShuffle(scope, v => freshnessWeight(v, now), random), exhausted: false };
+    case 'noRepeat': {
+      const playedIds = new Set(played);
+      const remaining = scope.filter(v => !playedIds.has(v.id));
+      if (remaining.length === 0) return { queue: shuffle(scope, random), exhausted: scope.length > 0 };
+      return { queue: shuffle(remaining, random), exhausted: false };
+    }
+    default:
+      return { queue: shuffle(scope, random), exhausted: false };
+  }
+};
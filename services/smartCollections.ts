@@ -0,0 +1,154 @@
+import { Collection, SmartCollection, SmartRule, SmartRuleField, SmartRuleOperator, VideoAsset } from "../types";
+import { generateUUID } from "./fileUtils";
+import { isTagOrChild } from "./tagService";
+import { describeRelease, releaseInfoOf, resolutionHeightOf } from "./filenameParser";
+
+// Rule evaluation for smart collections. Membership is never stored: it is recomputed from the
+// current library, so edits to metadata or history show up immediately.
+
+type ValueKind = 'text' | 'tag' | 'collection' | 'number' | 'none';
+
+interface FieldDefinition {
+  label: string;
+  kind: ValueKind;
+  operators: SmartRuleOperator[];
+  unit?: string; // Shown next to number inputs
+}
+
+export const SMART_RULE_FIELDS: Record<SmartRuleField, FieldDefinition> = {
+  tag: { label: 'Tag', kind: 'tag', operators: ['is', 'isNot'] },
+  title: { label: 'Title', kind: 'text', operators: ['contains', 'notContains', 'is', 'isNot'] },
+  path: { label: 'Path', kind: 'text', operators: ['contains', 'notContains'] },
+  collection: { label: 'Collection', kind: 'collection', operators: ['is', 'isNot'] },
+  duration: { label: 'Duration', kind: 'number', operators: ['gt', 'lt'], unit: 'min' },
+  size: { label: 'File size', kind: 'number', operators: ['gt', 'lt'], unit: 'MB' },
+  year: { label: 'Year', kind: 'number', operators: ['is', 'gt', 'lt'] },
+  rating: { label: 'Rating', kind: 'number', operators: ['gt', 'lt', 'is'], unit: '★' },
+  favourite: { label: 'Favourite', kind: 'none', operators: ['yes', 'no'] },
+  watched: { label: 'Watched', kind: 'none', operators: ['yes', 'no'] },
+  dateAdded: { label: 'Added', kind: 'number', operators: ['withinDays', 'notWithinDays'], unit: 'days' },
+  lastPlayed: { label: 'Last played', kind: 'number', operators: ['withinDays', 'notWithinDays'], unit: 'days' },
+  resolution: { label: 'Resolution', kind: 'number', operators: ['gt', 'lt', 'is'], unit: 'p' },
+  release: { label: 'Release info', kind: 'text', operators: ['contains', 'notContains'] },
+};
+
+export const SMART_RULE_OPERATOR_LABELS: Record<SmartRuleOperator, string> = {
+  is: 'is',
+  isNot: 'is not',
+  contains: 'contains',
+  notContains: 'does not contain',
+  gt: 'is more than',
+  lt: 'is less than',
+  yes: 'yes',
+  no: 'no',
+  withinDays: 'in the last',
+  notWithinDays: 'not in the last',
+};
+
+export const smartRuleValueKind = (field: SmartRuleField): ValueKind => SMART_RULE_FIELDS[field].kind;
+
+export const createSmartRule = (field: SmartRuleField = 'tag'): SmartRule => ({
+  id: generateUUID(),
+  field,
+  operator: SMART_RULE_FIELDS[field].operators[0],
+  value: ''
+});
+
+export const createSmartCollection = (name: string): SmartCollection => ({
+  id: generateUUID(),
+  name,
+  match: 'all',
+  rules: [createSmartRule()]
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Number each field is compared as, in the unit the editor uses
+const numericValueOf = (video: VideoAsset, field: SmartRuleField): number | undefined => {
+  switch (field) {
+    case 'duration': return video.metadata.duration !== undefined ? video.metadata.duration / 60 : undefined;
+    case 'size': return video.size / (1024 * 1024);
+    case 'year': return video.metadata.year;
+    case 'rating': return video.metadata.rating ?? 0;
+    case 'dateAdded': return video.metadata.dateAdded;
+    case 'lastPlayed': return video.history?.lastPlayedAt ?? undefined;
+    case 'resolution': return resolutionHeightOf(releaseInfoOf(video).resolution) ?? video.metadata.height;
+    default: return undefined;
+  }
+};
+
+const compareText = (actual: string, operator: SmartRuleOperator, expected: string): boolean => {
+  const a = actual.toLowerCase();
+  const e = expected.toLowerCase();
+  switch (operator) {
+    case 'is': return a === e;
+    case 'isNot': return a !== e;
+    case 'contains': return a.includes(e);
+    case 'notContains': return !a.includes(e);
+    default: return false;
+  }
+};
+
+// Rules still being filled in (empty or unparsable value) are skipped rather than matching nothing
+export const isRuleComplete = (rule: SmartRule): boolean => {
+  const kind = smartRuleValueKind(rule.field);
+  if (kind === 'none') return true;
+  if (!rule.value.trim()) return false;
+  return kind !== 'number' || !isNaN(parseFloat(rule.value));
+};
+
+export const matchesSmartRule = (video: VideoAsset, rule: SmartRule, collections: Collection[], now: number): boolean => {
+  const { field, operator, value } = rule;
+  switch (field) {
+    case 'tag': {
+      const hasTag = video.metadata.tags.some(t => isTagOrChild(t.toLowerCase(), value.toLowerCase()));
+      return operator === 'isNot' ? !hasTag : hasTag;
+    }
+    case 'title':
+      return compareText(video.metadata.title || video.fileName, operator, value);
+    case 'path':
+      return compareText(video.relativePath, operator, value);
+    case 'release':
+      // Source, codecs, edition, languages and group in one string
+      return compareText(describeRelease(releaseInfoOf(video)), operator, value);
+    case 'collection': {
+      const name = collections.find(c => c.id === video.collectionId)?.name || '';
+      return compareText(name, operator, value);
+    }
+    case 'favourite':
+      return operator === 'yes' ? !!video.metadata.favourite : !video.metadata.favourite;
+    case 'watched':
+      return operator === 'yes' ? !!video.history?.completed : !video.history?.completed;
+  }
+
+  const actual = numericValueOf(video, field);
+  const expected = parseFloat(value);
+  switch (operator) {
+    case 'withinDays':
+      return actual !== undefined && now - actual <= expected * DAY_MS;
+    case 'notWithinDays':
+      // Never played / unknown date counts as "not in the last N days"
+      return actual === undefined || now - actual > expected * DAY_MS;
+  }
+  // Unknown values (e.g. duration not probed yet) never match a comparison
+  if (actual === undefined) return false;
+  switch (operator) {
+    case 'gt': return actual > expected;
+    case 'lt': return actual < expected;
+    case 'is': return actual === expected;
+    default: return false;
+  }
+};
+
+export const matchesSmartCollection = (video: VideoAsset, smart: SmartCollection, collections: Collection[], now: number = Date.now()): boolean => {
+  const rules = smart.rules.filter(isRuleComplete);
+  if (rules.length === 0) return false;
+  return smart.match === 'all'
+    ? rules.every(rule => matchesSmartRule(video, rule, collections, now))
+    : rules.some(rule => matchesSmartRule(video, rule, collections, now));
+};
+
+export const smartCollectionVideos = (videos: VideoAsset[], smart: SmartCollection, collections: Collection[]): VideoAsset[] => {
+  const now = Date.now();
+  return videos.filter(v => matchesSmartCollection(v, smart, collections, now));
+};
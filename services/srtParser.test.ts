@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { cleanCueText, cuesToSrt, formatVttTime, parseSrt, parseVtt } from './srtParser';
+
+describe('parseSrt', () => {
+  it.each<[string, string, { start: number; end: number; text: string; settings?: string }[]]>([
+    ['a plain file', '1\n00:00:01,000 --> 00:00:02,500\nHello\n\n2\n00:00:03,000 --> 00:00:04,000\nTwo\nlines\n', [
+      { start: 1, end: 2.5, text: 'Hello' },
+      { start: 3, end: 4, text: 'Two\nlines' }
+    ]],
+    ['a BOM and CRLF line ends', '\uFEFF1\r\n00:00:01,000 --> 00:00:02,000\r\nHello\r\n', [
+      { start: 1, end: 2, text: 'Hello' }
+    ]],
+    ['sloppy timestamps', '1\n0:1:2,3 --> 0:1:4,35\nLoose\n\n2\n01:02.5 --> 01:03.005\nNo hours\n', [
+      { start: 62.3, end: 64.35, text: 'Loose' },
+      { start: 62.5, end: 63.005, text: 'No hours' }
+    ]],
+    ['missing cue numbers', '00:00:01,000 --> 00:00:02,000\nOne\n\n00:00:03,000 --> 00:00:04,000\nTwo\n', [
+      { start: 1, end: 2, text: 'One' },
+      { start: 3, end: 4, text: 'Two' }
+    ]],
+    ['a missing blank line between cues', '1\n00:00:01,000 --> 00:00:02,000\nOne\n2\n00:00:03,000 --> 00:00:04,000\nTwo\n', [
+      { start: 1, end: 2, text: 'One' },
+      { start: 3, end: 4, text: 'Two' }
+    ]],
+    ['extra blank lines and a timestamp that looks like a number', '\n\n1\n00:00:01,000 --> 00:00:02,000\n1984\n\n\n\n2\n00:00:03,000 --> 00:00:04,000\nTwo\n\n\n', [
+      { start: 1, end: 2, text: '1984' },
+      { start: 3, end: 4, text: 'Two' }
+    ]],
+    ['<font> tags and upper case markup', '1\n00:00:01,000 --> 00:00:02,000\n<font color="#ffff00"><I>Yellow</I></font> and <B>bold</B>\n', [
+      { start: 1, end: 2, text: '<i>Yellow</i> and <b>bold</b>' }
+    ]],
+    ['{\\an8} placement', '1\n00:00:01,000 --> 00:00:02,000\n{\\an8}On top\n', [
+      { start: 1, end: 2, text: 'On top', settings: 'line:0' }
+    ]],
+    ['characters WebVTT would read as markup', '1\n00:00:01,000 --> 00:00:02,000\nTom & Jerry <3 a --> b\n', [
+      { start: 1, end: 2, text: 'Tom &amp; Jerry &lt;3 a → b' }
+    ]],
+    ['cues out of order', '2\n00:00:05,000 --> 00:00:06,000\nLater\n\n1\n00:00:01,000 --> 00:00:02,000\nEarlier\n', [
+      { start: 1, end: 2, text: 'Earlier' },
+      { start: 5, end: 6, text: 'Later' }
+    ]],
+    ['cues left empty once the tags are gone', '1\n00:00:01,000 --> 00:00:02,000\n<font color="red"></font>\n\n2\n00:00:03,000 --> 00:00:04,000\nKept\n', [
+      { start: 3, end: 4, text: 'Kept' }
+    ]]
+  ])('reads %s', (_, content, cues) => {
+    const result = parseSrt(content);
+    expect(result.errors).toEqual([]);
+    expect(result.cues).toHaveLength(cues.length);
+    result.cues.forEach((cue, i) => {
+      expect(cue.start).toBeCloseTo(cues[i].start, 6);
+      expect(cue.end).toBeCloseTo(cues[i].end, 6);
+      expect(cue.text).toBe(cues[i].text);
+      expect(cue.settings).toBe(cues[i].settings);
+    });
+  });
+
+  it('reports blocks without a timestamp line and carries on', () => {
+    const { cues, errors } = parseSrt('1\n00:00:01,000 --> 00:00:02,000\nOne\n\n2\n00:00:03,000 -> oops\nBroken\n\n3\n00:00:05,000 --> 00:00:06,000\nThree\n');
+    expect(cues.map(c => c.text)).toEqual(['One', 'Three']);
+    expect(errors).toEqual([{ line: 5, text: '2 00:00:03,000 -> oops Broken', reason: 'No valid timestamp line' }]);
+  });
+
+  it('reports cues that end before they start', () => {
+    const { cues, errors } = parseSrt('1\n00:00:05,000 --> 00:00:04,000\nBackwards\n');
+    expect(cues).toEqual([]);
+    expect(errors).toEqual([{ line: 1, text: 'Backwards', reason: 'End time is not after start time' }]);
+  });
+
+  it('reports stray text after a cue instead of gluing it on', () => {
+    const { cues, errors } = parseSrt('1\n00:00:01,000 --> 00:00:02,000\nOne\n\nstray line\n\n2\n00:00:03,000 --> 00:00:04,000\nTwo\n');
+    expect(cues.map(c => c.text)).toEqual(['One', 'Two']);
+    expect(errors).toEqual([{ line: 5, text: 'stray line', reason: 'No valid timestamp line' }]);
+  });
+});
+
+describe('cleanCueText', () => {
+  it.each([
+    ['<font face="Arial">plain</font>', { text: 'plain' }],
+    ['<u>under</u>\n  <i>two</i>  ', { text: '<u>under</u>\n<i>two</i>' }],
+    ['{\\an5}{\\b1}middle', { text: 'middle', settings: 'line:50%' }],
+    ['{\\an2}bottom', { text: 'bottom' }],
+    ['Q&amp;A stays', { text: 'Q&amp;A stays' }]
+  ])('%j', (raw, expected) => {
+    expect(cleanCueText(raw)).toEqual(expected);
+  });
+});
+
+describe('formatVttTime', () => {
+  it.each([
+    [0, '00:00:00.000'],
+    [62.3, '00:01:02.300'],
+    [3723.0049, '01:02:03.005'],
+    [-1, '00:00:00.000']
+  ])('%d', (seconds, expected) => {
+    expect(formatVttTime(seconds)).toBe(expected);
+  });
+});
+
+describe('parseVtt', () => {
+  it('skips the header, NOTE and STYLE blocks and keeps identifiers out of the text', () => {
+    const { cues, errors } = parseVtt('\uFEFFWEBVTT - Title\n\nNOTE a comment\n\nSTYLE\n::cue { color: red }\n\nintro\n00:01.000 --> 00:02.000 line:0 align:start\n<v Anna>Hi <b>there</b>\n\n00:00:03.000 --> 00:00:04.000\nTwo\n');
+    expect(errors).toEqual([]);
+    expect(cues).toEqual([
+      { start: 1, end: 2, text: '<v Anna>Hi <b>there</b>', settings: 'line:0 align:start' },
+      { start: 3, end: 4, text: 'Two' }
+    ]);
+  });
+
+  it('reports broken and backwards cues', () => {
+    const { cues, errors } = parseVtt('WEBVTT\n\n00:05.000 --> 00:04.000\nBackwards\n\nno timing here\n\n00:06.000 --> 00:07.000\nFine\n');
+    expect(cues.map(c => c.text)).toEqual(['Fine']);
+    expect(errors).toEqual([
+      { line: 3, text: '00:05.000 --> 00:04.000 Backwards', reason: 'End time is not after start time' },
+      { line: 6, text: 'no timing here', reason: 'No valid timestamp line' }
+    ]);
+  });
+});
+
+describe('cuesToSrt', () => {
+  it('writes numbered SRT, keeps b/i/u, decodes entities and marks top cues with {\\an8}', () => {
+    expect(cuesToSrt([
+      { start: 1, end: 2.5, text: '<v Anna><i>Tom &amp; Jerry</i> &lt;3</v>' },
+      { start: 3723.005, end: 3724, text: 'Top', settings: 'line:0' }
+    ])).toBe('1\n00:00:01,000 --> 00:00:02,500\n<i>Tom & Jerry</i> <3\n\n2\n01:02:03,005 --> 01:02:04,000\n{\\an8}Top\n\n');
+  });
+
+  it('round-trips through parseSrt', () => {
+    const cues = parseSrt('1\n0:0:1,5 --> 0:0:2,25\n<font color="red"><b>Bold</b></font>\n').cues;
+    expect(parseSrt(cuesToSrt(cues)).cues).toEqual(cues);
+  });
+});
@@ -0,0 +1,155 @@
+// Tolerant SRT parser. Real-world files have BOMs, missing or extra blank lines, missing cue
+// numbers, sloppy timestamps like "0:1:2,3" and HTML-ish <font> tags; we accept all of that and
+// normalize it to WebVTT style cues. Blocks we cannot make sense of are reported, not guessed.
+
+export interface SubtitleCue {
+  start: number; // Seconds
+  end: number;
+  text: string; // WebVTT cue payload: only <b>, <i>, <u>, escaped otherwise
+  settings?: string; // WebVTT cue settings, e.g. "line:0" for {\an8}
+}
+
+export interface SubtitleParseError {
+  line: number; // 1-based line where the block starts
+  text: string; // The offending block, shortened
+  reason: string;
+}
+
+export interface SubtitleParseResult {
+  cues: SubtitleCue[];
+  errors: SubtitleParseError[];
+}
+
+// H:M:S,ms with any number of digits per part; hours optional; "," "." or ":" before the fraction
+const TIME = String.raw`(?:(\d+):)?(\d+):(\d+)(?:[,.:](\d+))?`;
+const TIMING_LINE = new RegExp(String.raw`^\s*${TIME}\s*-+>\s*${TIME}(.*)$`);
+
+const toSeconds = (h: string | undefined, m: string, s: string, fraction: string | undefined) =>
+  (h ? parseInt(h, 10) * 3600 : 0) + parseInt(m, 10) * 60 + parseInt(s, 10)
+  // "3" is 300ms, "03" 30ms, "003" 3ms
+  + (fraction ? parseInt(fraction, 10) / Math.pow(10, fraction.length) : 0);
+
+// settings is whatever follows the end time (WebVTT cue settings)
+export const parseTimingLine = (line: string): { start: number; end: number; settings: string } | null => {
+  const m = line.match(TIMING_LINE);
+  if (!m) return null;
+  return { start: toSeconds(m[1], m[2], m[3], m[4]), end: toSeconds(m[5], m[6], m[7], m[8]), settings: m[9].trim() };
+};
+
+const escapeVtt = (text: string) => text.replace(/&(?![a-z]+;|#\d+;)/gi, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// Keeps <b>, <i> and <u>, drops <font> and anything else, turns {\an8}-style tags into cue settings
+export const cleanCueText = (raw: string): { text: string; settings?: string } => {
+  let settings: string | undefined;
+  const withoutAss = raw.replace(/\{\\([^}]*)\}/g, (_, tags: string) => {
+    const an = tags.match(/an(\d)/);
+    if (an && Number(an[1]) >= 7) settings = "line:0";
+    else if (an && Number(an[1]) >= 4) settings = "line:50%";
+    return "";
+  });
+  const parts = withoutAss.split(/(<\/?[a-z][^>]*>)/i);
+  const text = parts.map((part, i) => {
+    if (i % 2 === 0) return escapeVtt(part);
+    const tag = part.match(/^<(\/?)([biu])\b[^>]*>$/i);
+    return tag ? `<${tag[1]}${tag[2].toLowerCase()}>` : "";
+  }).join("")
+    // "-->" is not allowed inside a cue payload
+    .replace(/--&gt;/g, "→")
+    .split("\n").map(l => l.trim()).filter(Boolean).join("\n");
+  return { text, settings };
+};
+
+export const parseSrt = (content: string): SubtitleParseResult => {
+  const lines = content.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").split("\n");
+  const cues: SubtitleCue[] = [];
+  const errors: SubtitleParseError[] = [];
+
+  const isCueNumber = (i: number) => /^\s*\d+\s*$/.test(lines[i] || "") && !!parseTimingLine(lines[i + 1] || "");
+  const startsCue = (i: number) => !!parseTimingLine(lines[i] || "") || isCueNumber(i);
+
+  let i = 0;
+  while (i < lines.length) {
+    if (!lines[i].trim()) { i++; continue; }
+    const blockStart = i;
+    if (isCueNumber(i)) i++;
+
+    const timing = parseTimingLine(lines[i]);
+    if (!timing) {
+      // Skip to the next thing that looks like a cue and report what we skipped
+      let end = i + 1;
+      while (end < lines.length && !startsCue(end)) end++;
+      const text = lines.slice(blockStart, end).join(" ").trim();
+      errors.push({ line: blockStart + 1, text: text.slice(0, 80), reason: "No valid timestamp line" });
+      i = end;
+      continue;
+    }
+    i++;
+
+    // Text runs until a blank line, or straight into the next cue when the blank line is missing
+    const textLines: string[] = [];
+    while (i < lines.length && lines[i].trim() && !startsCue(i)) textLines.push(lines[i++]);
+
+    if (timing.end <= timing.start) {
+      errors.push({ line: blockStart + 1, text: textLines.join(" ").slice(0, 80), reason: "End time is not after start time" });
+      continue;
+    }
+    const { text, settings } = cleanCueText(textLines.join("\n"));
+    if (!text) continue; // Empty cues are harmless, just drop them
+    cues.push({ start: timing.start, end: timing.end, text, ...(settings ? { settings } : {}) });
+  }
+
+  cues.sort((a, b) => a.start - b.start);
+  return { cues, errors };
+};
+
+export const formatVttTime = (seconds: number): string => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+};
+
+// WebVTT is strict about blank lines between blocks, so this is a lighter pass: the header,
+// NOTE/STYLE/REGION blocks and cue identifiers are skipped and payloads are kept as they are.
+export const parseVtt = (content: string): SubtitleParseResult => {
+  const lines = content.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").split("\n");
+  const cues: SubtitleCue[] = [];
+  const errors: SubtitleParseError[] = [];
+
+  let i = 0;
+  while (i < lines.length) {
+    if (!lines[i].trim()) { i++; continue; }
+    const blockStart = i;
+    const block: string[] = [];
+    while (i < lines.length && lines[i].trim()) block.push(lines[i++]);
+
+    if (/^(WEBVTT|NOTE|STYLE|REGION)\b/.test(block[0])) continue;
+    const timingAt = block.findIndex(l => l.includes("-->"));
+    const timing = timingAt >= 0 && timingAt <= 1 ? parseTimingLine(block[timingAt]) : null;
+    if (!timing || timing.end <= timing.start) {
+      errors.push({
+        line: blockStart + 1,
+        text: block.join(" ").slice(0, 80),
+        reason: timing ? "End time is not after start time" : "No valid timestamp line"
+      });
+      continue;
+    }
+    const text = block.slice(timingAt + 1).join("\n");
+    if (text) cues.push({ start: timing.start, end: timing.end, text, ...(timing.settings ? { settings: timing.settings } : {}) });
+  }
+
+  cues.sort((a, b) => a.start - b.start);
+  return { cues, errors };
+};
+
+export const formatSrtTime = (seconds: number): string => formatVttTime(seconds).replace(".", ",");
+
+// SRT only knows <b>, <i>, <u> and <font>; other WebVTT spans are dropped and entities decoded.
+// A cue placed at the top keeps that through the {\an8} tag most players understand.
+export const cuesToSrt = (cues: SubtitleCue[]): string =>
+  cues.map((c, i) => {
+    const text = c.text
+      .replace(/<(?!\/?[biu]>)[^>]*>/g, "")
+      .replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&nbsp;/g, " ").replace(/&amp;/g, "&");
+    const top = /\bline:0\b/.test(c.settings || "") ? "{\\an8}" : "";
+    return `${i + 1}\n${formatSrtTime(c.start)} --> ${formatSrtTime(c.end)}\n${top}${text}\n\n`;
+  }).join("");
@@ -0,0 +1,53 @@
+// How text subtitles are drawn when two tracks are shown together (e.g. the original language
+// at the top, a translation at the bottom). A per-machine viewing preference, so it lives in
+// localStorage like the metadata provider settings rather than in the library.
+
+export type SubtitleSlot = 'primary' | 'secondary';
+
+export interface SubtitleAppearance {
+  position: 'top' | 'bottom';
+  size: number; // Percent of the default size
+  colour: string; // CSS colour
+}
+
+export interface SubtitleDisplaySettings {
+  primary: SubtitleAppearance;
+  secondary: SubtitleAppearance;
+  studyMode: boolean; // Pause at the end of every primary line
+}
+
+export const SUBTITLE_SIZES = [60, 75, 100, 125, 150, 200];
+
+export const SUBTITLE_COLOURS = [
+  { label: 'White', value: '#ffffff' },
+  { label: 'Yellow', value: '#ffe066' },
+  { label: 'Cyan', value: '#7fdbff' },
+  { label: 'Green', value: '#a3e635' },
+  { label: 'Pink', value: '#f9a8d4' }
+];
+
+export const DEFAULT_SUBTITLE_DISPLAY: SubtitleDisplaySettings = {
+  primary: { position: 'bottom', size: 100, colour: '#ffffff' },
+  secondary: { position: 'top', size: 75, colour: '#ffe066' },
+  studyMode: false
+};
+
+const SETTINGS_KEY = "vidmanager.subtitleDisplay";
+
+export const loadSubtitleDisplay = (): SubtitleDisplaySettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || "null") || {};
+    return {
+      ...DEFAULT_SUBTITLE_DISPLAY,
+      ...stored,
+      primary: { ...DEFAULT_SUBTITLE_DISPLAY.primary, ...stored.primary },
+      secondary: { ...DEFAULT_SUBTITLE_DISPLAY.secondary, ...stored.secondary }
+    };
+  } catch {
+    return DEFAULT_SUBTITLE_DISPLAY;
+  }
+};
+
+export const saveSubtitleDisplay = (settings: SubtitleDisplaySettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { parseSubtitleFileName, SubtitleNameInfo } from './subtitleLanguage';
+
+const info = (language: string | null, flags: Partial<SubtitleNameInfo> = {}): SubtitleNameInfo =>
+  ({ language, forced: false, sdh: false, isDefault: false, ...flags });
+
+describe('parseSubtitleFileName', () => {
+  // [subtitle file, video base name, expected]
+  it.each<[string, string, SubtitleNameInfo]>([
+    ['Movie.2019.en.srt', 'Movie.2019', info('en')],
+    ['Movie.2019.English.srt', 'Movie.2019', info('en')],
+    ['Movie.2019.pt-BR.forced.srt', 'Movie.2019', info('pt-BR', { forced: true })],
+    ['Movie.2019.pt_br.srt', 'Movie.2019', info('pt-BR')],
+    ['Movie.2019.zh_CN.ass', 'Movie.2019', info('zh-Hans')],
+    ['Movie.2019.chs.srt', 'Movie.2019', info('zh-Hans')],
+    ['Movie.2019.en.hi.srt', 'Movie.2019', info('en', { sdh: true })],
+    ['Movie.2019.en_hi.srt', 'Movie.2019', info('en', { sdh: true })],
+    ['Movie.2019.hi.srt', 'Movie.2019', info('hi')],
+    ['Movie.2019.eng.sdh.default.srt', 'Movie.2019', info('en', { sdh: true, isDefault: true })],
+    ['movie_ger.srt', 'movie', info('de')],
+    ['Movie.2019.srt', 'Movie.2019', info(null)],
+
+    // Underscore, & and + separate languages and track numbers
+    ['2_English.srt', 'Movie', info('en')],
+    ['Show.S01E01.chs&eng.ass', 'Show.S01E01', info('en')],
+    ['Show.S01E01.chs&eng.ass', 'Other', info('en')],
+    ['Show.S01E01.chs+eng.ass', 'Show.S01E01', info('en')],
+
+    // Title words that happen to be language codes
+    ['No.Time.To.Die.2021.srt', 'No.Time.To.Die.2021', info(null)],
+    ['No.Time.To.Die.2021.srt', 'Other', info(null)],
+    ['It.Follows.2014.srt', 'Other', info(null)],
+    ['Who.Is.America.S01E01.srt', 'Other', info(null)],
+    ['Id.Invaders.2011.srt', 'Other', info(null)],
+    ['Hi.Mom.2021.srt', 'Other', info(null)],
+    ['No.Time.To.Die.2021.English.forced.srt', 'Other', info('en', { forced: true })],
+    ['es.srt', 'Other', info('es')]
+  ])('%s (video %s)', (fileName, videoBaseName, expected) => {
+    expect(parseSubtitleFileName(fileName, videoBaseName)).toEqual(expected);
+  });
+});
@@ -0,0 +1,330 @@
+import { SubtitleTrack, VideoAsset } from "../types";
+import { releaseInfoOf } from "./filenameParser";
+import { COMMON_SIMPLIFIED, COMMON_TRADITIONAL } from "./textEncoding";
+
+// Subtitle languages as BCP 47 tags ("en", "pt-BR", "zh-Hans"), worked out from the file name
+// (ISO 639-1/2/3 codes, English and native names, common release tags, region variants and
+// forced/SDH/default flags) or, failing that, from the text itself. Also picks which track the
+// player turns on by default from a per-machine preference list.
+
+export const UNKNOWN_LANGUAGE = 'und';
+
+// Tag first, then everything that means it (compared lower-cased)
+const LANGUAGE_ALIASES = [
+  'en|eng|english|anglais|inglés|ingles|englisch',
+  'es|spa|spanish|español|espanol|castellano|esp',
+  'es-419|latino|lat|latam|spanish latin america|latin american spanish|spa-la',
+  'fr|fre|fra|french|français|francais|vf|vff',
+  'de|ger|deu|german|deutsch',
+  'it|ita|italian|italiano',
+  'pt|por|portuguese|português|portugues',
+  'pt-BR|pob|pb|ptbr|brazilian|brazilian portuguese|português brasileiro',
+  'nl|dut|nld|dutch|nederlands|flemish',
+  'sv|swe|swedish|svenska',
+  'da|dan|danish|dansk',
+  'no|nor|nb|nob|nn|nno|norwegian|norsk|bokmål',
+  'fi|fin|finnish|suomi',
+  'is|ice|isl|icelandic|íslenska',
+  'pl|pol|polish|polski',
+  'cs|cze|ces|czech|čeština|cestina',
+  'sk|slo|slk|slovak|slovenčina',
+  'sl|slv|slovenian|slovene|slovenščina',
+  'hu|hun|hungarian|magyar',
+  'ro|rum|ron|romanian|română|romana',
+  'bg|bul|bulgarian|български',
+  'hr|hrv|croatian|hrvatski',
+  'sr|srp|serbian|srpski|српски',
+  'bs|bos|bosnian|bosanski',
+  'el|gre|ell|greek|ελληνικά',
+  'tr|tur|turkish|türkçe|turkce',
+  'ru|rus|russian|русский',
+  'uk|ukr|ukrainian|українська',
+  'et|est|estonian|eesti',
+  'lv|lav|latvian|latviešu',
+  'lt|lit|lithuanian|lietuvių',
+  'ca|cat|catalan|català',
+  'eu|baq|eus|basque|euskara',
+  'gl|glg|galician|galego',
+  'ar|ara|arabic|العربية',
+  'he|heb|hebrew|עברית',
+  'fa|per|fas|persian|farsi|فارسی',
+  'hi|hin|hindi|हिन्दी',
+  'bn|ben|bengali|বাংলা',
+  'ta|tam|tamil|தமிழ்',
+  'te|tel|telugu|తెలుగు',
+  'ur|urd|urdu|اردو',
+  'th|tha|thai|ไทย',
+  'vi|vie|vietnamese|tiếng việt',
+  'id|ind|indonesian|bahasa indonesia',
+  'ms|may|msa|malay|bahasa melayu',
+  'tl|tgl|fil|tagalog|filipino',
+  'ja|jpn|jp|japanese|日本語',
+  'ko|kor|kr|korean|한국어',
+  'zh|chi|zho|chinese|mandarin|中文',
+  'zh-Hans|chs|sc|zhs|gb|cn|simplified chinese|chinese simplified|简体|简中|简体中文',
+  'zh-Hant|cht|tc|zht|big5|tw|traditional chinese|chinese traditional|繁體|繁中|繁體中文',
+  'yue|cantonese|粵語|粤语'
+];
+
+const ALIAS_TO_TAG = new Map<string, string>(LANGUAGE_ALIASES.flatMap(entry => {
+  const [tag, ...aliases] = entry.split('|');
+  return [tag, ...aliases].map(alias => [alias.toLowerCase(), tag] as [string, string]);
+}));
+
+// Chinese is usually tagged by region in file names but what matters is the script
+const CHINESE_SCRIPT_BY_REGION: Record<string, string> = { cn: 'Hans', sg: 'Hans', my: 'Hans', tw: 'Hant', hk: 'Hant', mo: 'Hant' };
+
+// "English", "eng", "pt-BR", "pt_br", "zh-CN", "chs" -> a tag; null when it is not a language
+export const parseLanguageTag = (value: string): string | null => {
+  const lower = value.trim().toLowerCase().replace(/_/g, '-');
+  if (!lower) return null;
+  const direct = ALIAS_TO_TAG.get(lower);
+  if (direct) return direct;
+
+  const [base, subtag, ...rest] = lower.split('-');
+  const language = ALIAS_TO_TAG.get(base);
+  if (!language || !subtag || rest.length > 0 || language.includes('-')) return null;
+  if (subtag === 'hans' || subtag === 'hant') return `${language}-${subtag[0].toUpperCase()}${subtag.slice(1)}`;
+  if (language === 'zh' && CHINESE_SCRIPT_BY_REGION[subtag]) return `zh-${CHINESE_SCRIPT_BY_REGION[subtag]}`;
+  if (/^([a-z]{2}|\d{3})$/.test(subtag)) return `${language}-${subtag.toUpperCase()}`;
+  return null;
+};
+
+const displayNames = (() => {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' });
+  } catch {
+    return null;
+  }
+})();
+
+// "pt-BR" -> "Brazilian Portuguese", "zh-Hans" -> "Simplified Chinese"
+export const languageLabelOf = (tag: string): string => {
+  if (tag === UNKNOWN_LANGUAGE) return 'Unknown';
+  try {
+    return displayNames?.of(tag) || tag;
+  } catch {
+    return tag;
+  }
+};
+
+// --- File names ---
+
+export interface SubtitleNameInfo {
+  language: string | null;
+  forced: boolean;
+  sdh: boolean;
+  isDefault: boolean;
+}
+
+const FORCED = new Set(['forced', 'foreign', 'force']);
+const SDH = new Set(['sdh', 'cc', 'hoh', 'hearingimpaired']);
+
+const isFlag = (segment: string) => {
+  const lower = segment.toLowerCase();
+  return FORCED.has(lower) || SDH.has(lower) || lower === 'default' || lower === 'hi';
+};
+
+// "Movie.pt_BR.forced&eng" -> ["pt_BR", "forced", "eng"]. An underscore only joins a
+// language and its region ("pt_BR", "zh_CN"); otherwise it separates ("2_English", "en_hi").
+const segmentsOf = (text: string) => text
+  .split(/[.\s&+[\]()]+/)
+  .flatMap(chunk => {
+    const trimmed = chunk.replace(/^[-_]+|[-_]+$/g, '');
+    const parts = trimmed.split('_');
+    return parts.length > 1 && !parts.some(isFlag) && parseLanguageTag(trimmed) ? [trimmed] : parts;
+  })
+  .map(s => s.replace(/^-+|-+$/g, ''))
+  .filter(Boolean);
+
+// Looks at the parts between the video's name and the extension, e.g. "movie.pt-BR.forced.srt".
+// Without the video's name in front only the trailing run of tags counts, so "No.Time.To.Die.2021.srt"
+// is not Norwegian. "hi" is Hindi on its own but the hearing-impaired flag next to another language.
+export const parseSubtitleFileName = (fileName: string, videoBaseName: string): SubtitleNameInfo => {
+  const withoutExt = fileName.substring(0, fileName.lastIndexOf('.')) || fileName;
+  const hasBaseName = !!videoBaseName && withoutExt.toLowerCase().startsWith(videoBaseName.toLowerCase());
+  let segments = segmentsOf(hasBaseName ? withoutExt.slice(videoBaseName.length) : withoutExt);
+  if (!hasBaseName) {
+    let first = segments.length;
+    while (first > 0 && (isFlag(segments[first - 1]) || parseLanguageTag(segments[first - 1]))) first--;
+    segments = segments.slice(first);
+  }
+
+  const info: SubtitleNameInfo = { language: null, forced: false, sdh: false, isDefault: false };
+  const languages: string[] = [];
+  let hi = false;
+  for (const segment of segments) {
+    const lower = segment.toLowerCase();
+    if (FORCED.has(lower)) info.forced = true;
+    else if (lower === 'default') info.isDefault = true;
+    else if (lower === 'hi') hi = true;
+    else if (SDH.has(lower)) info.sdh = true;
+    else {
+      const tag = parseLanguageTag(segment);
+      if (tag) languages.push(tag);
+    }
+  }
+  if (hi) {
+    if (languages.length > 0) info.sdh = true;
+    else languages.push('hi');
+  }
+  // The segment closest to the extension is usually the language ("Show.S01E01.720p.en.srt")
+  info.language = languages[languages.length - 1] ?? null;
+  return info;
+};
+
+// --- Content ---
+
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'you', 'and', 'that', 'what', 'this', "i'm", "don't", 'have', 'are', 'was', 'with', 'not', 'for', 'your', 'know', 'just', 'it', 'is', 'to'],
+  es: ['que', 'qué', 'no', 'el', 'la', 'es', 'lo', 'los', 'por', 'una', 'está', 'para', 'pero', 'con', 'muy', 'sí', 'yo', 'tu', 'y', 'se'],
+  fr: ['je', 'est', 'pas', 'vous', 'le', 'tu', 'les', 'il', 'et', 'ne', 'ce', 'ça', 'on', 'pour', 'une', 'des', 'mais', 'moi', 'qui', 'au'],
+  de: ['ich', 'sie', 'das', 'ist', 'du', 'nicht', 'die', 'und', 'es', 'der', 'wir', 'was', 'ein', 'mir', 'mit', 'ja', 'auf', 'hier', 'den', 'zu'],
+  it: ['che', 'non', 'di', 'è', 'il', 'sono', 'mi', 'per', 'ti', 'ho', 'ma', 'cosa', 'questo', 'sei', 'lo', 'gli', 'io', 'della', 'bene', 'tu'],
+  pt: ['não', 'você', 'é', 'eu', 'um', 'uma', 'para', 'com', 'isso', 'está', 'do', 'da', 'mas', 'ele', 'tem', 'meu', 'aqui', 'o', 'os', 'se'],
+  nl: ['ik', 'je', 'het', 'is', 'dat', 'een', 'niet', 'wat', 'van', 'we', 'ze', 'hij', 'op', 'zijn', 'maar', 'met', 'er', 'die', 'dit', 'naar'],
+  sv: ['jag', 'det', 'du', 'är', 'inte', 'att', 'och', 'som', 'har', 'vi', 'på', 'med', 'han', 'för', 'vad', 'kan', 'så', 'här', 'mig', 'ett'],
+  pl: ['nie', 'to', 'się', 'jest', 'że', 'na', 'co', 'ja', 'tak', 'mnie', 'ale', 'jak', 'ty', 'już', 'mi', 'czy', 'tu', 'jestem', 'go', 'tylko'],
+  tr: ['bir', 'bu', 'ne', 've', 'ben', 'sen', 'için', 'çok', 'var', 'değil', 'ama', 'ile', 'gibi', 'şey', 'evet', 'hayır', 'mi', 'da', 'o', 'beni']
+};
+
+const countMatches = (text: string, pattern: RegExp) => (text.match(pattern) || []).length;
+
+// Script first; Latin text by its most common short words. Null when there is too little to go on.
+export const detectTextLanguage = (text: string): string | null => {
+  const letters = countMatches(text, /\p{L}/gu);
+  if (letters < 40) return null;
+  const share = (pattern: RegExp) => countMatches(text, pattern) / letters;
+
+  if (share(/[\u3040-\u30FF]/g) > 0.05) return 'ja';
+  if (share(/[\uAC00-\uD7AF]/g) > 0.3) return 'ko';
+  if (share(/\p{Script=Han}/gu) > 0.3) {
+    let simplified = 0;
+    let traditional = 0;
+    for (const ch of text) {
+      if (COMMON_SIMPLIFIED.has(ch) && !COMMON_TRADITIONAL.has(ch)) simplified++;
+      else if (COMMON_TRADITIONAL.has(ch) && !COMMON_SIMPLIFIED.has(ch)) traditional++;
+    }
+    return simplified === traditional ? 'zh' : simplified > traditional ? 'zh-Hans' : 'zh-Hant';
+  }
+  if (share(/\p{Script=Cyrillic}/gu) > 0.3) {
+    if (countMatches(text, /[ђћџљњј]/gi) > 2) return 'sr';
+    if (countMatches(text, /[іїєґ]/gi) > 2) return 'uk';
+    if (countMatches(text, /[ыэ]/gi) === 0 && countMatches(text, /ъ/gi) > 2) return 'bg';
+    return 'ru';
+  }
+  if (share(/\p{Script=Arabic}/gu) > 0.3) return countMatches(text, /[پچژگ]/g) > 2 ? 'fa' : 'ar';
+  if (share(/\p{Script=Hebrew}/gu) > 0.3) return 'he';
+  if (share(/\p{Script=Greek}/gu) > 0.3) return 'el';
+  if (share(/\p{Script=Thai}/gu) > 0.3) return 'th';
+  if (share(/\p{Script=Devanagari}/gu) > 0.3) return 'hi';
+
+  const words = (text.toLowerCase().match(/[\p{L}']+/gu) || []).slice(0, 2000);
+  if (words.length < 20) return null;
+  const scores = Object.entries(STOPWORDS).map(([tag, list]) => {
+    const set = new Set(list);
+    return { tag, hits: words.filter(w => set.has(w)).length };
+  }).sort((a, b) => b.hits - a.hits);
+  const [best, second] = scores;
+  // Languages share a few words ("de", "que"), so the winner has to be clearly ahead
+  if (best.hits < words.length * 0.1 || best.hits < second.hits * 1.3) return null;
+  return best.tag;
+};
+
+// --- Default track ---
+
+export type ForcedSubtitlePolicy = 'native-audio' | 'always' | 'never';
+
+export interface SubtitlePreferences {
+  languages: string[]; // In order, e.g. ['zh-Hans', 'en']
+  forced: ForcedSubtitlePolicy; // When a forced (foreign parts only) track may be picked
+  sdh: boolean; // Prefer SDH tracks over plain ones
+}
+
+export const DEFAULT_SUBTITLE_PREFERENCES: SubtitlePreferences = { languages: [], forced: 'native-audio', sdh: false };
+
+const PREFERENCES_KEY = "vidmanager.subtitlePreferences";
+
+export const loadSubtitlePreferences = (): SubtitlePreferences => {
+  try {
+    return { ...DEFAULT_SUBTITLE_PREFERENCES, ...JSON.parse(localStorage.getItem(PREFERENCES_KEY) || "null") };
+  } catch {
+    return DEFAULT_SUBTITLE_PREFERENCES;
+  }
+};
+
+export const saveSubtitlePreferences = (preferences: SubtitlePreferences) => {
+  localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+};
+
+// "zh-Hans, then en; English" -> ['zh-Hans', 'en']; unknown entries are reported back
+export const parseLanguageList = (value: string): { languages: string[]; unknown: string[] } => {
+  const languages: string[] = [];
+  const unknown: string[] = [];
+  for (const part of value.split(/[,;]|\bthen\b|>/i).map(p => p.trim()).filter(Boolean)) {
+    const tag = parseLanguageTag(part);
+    if (!tag) unknown.push(part);
+    else if (!languages.includes(tag)) languages.push(tag);
+  }
+  return { languages, unknown };
+};
+
+// 3 exact, 2 when a plain preference covers a regional track ("en" for "en-GB"), 1 when the
+// track is only tagged with the base language ("zh" for "zh-Hans"); 0 otherwise
+export const languageMatch = (trackLanguage: string, wanted: string): number => {
+  const a = trackLanguage.toLowerCase();
+  const b = wanted.toLowerCase();
+  if (a === b) return 3;
+  if (a.split('-')[0] !== b.split('-')[0]) return 0;
+  if (!b.includes('-')) return 2;
+  if (!a.includes('-')) return 1;
+  return 0;
+};
+
+// Index of the track to turn on, or -1. When the audio is already in a preferred language only a
+// forced track for it makes sense (to translate the foreign bits); otherwise the first preferred
+// language with a full track wins. Tracks flagged default are the fallback.
+export const pickDefaultSubtitle = (
+  tracks: Array<Pick<SubtitleTrack, 'language' | 'forced' | 'sdh' | 'isDefault'>>,
+  preferences: SubtitlePreferences,
+  audioLanguage: string | null
+): number => {
+  const indexes = tracks.map((_, i) => i);
+  const audioIsNative = !!audioLanguage && preferences.languages.some(l => languageMatch(audioLanguage, l) > 0);
+
+  if (audioIsNative) {
+    if (preferences.forced === 'never') return -1;
+    const forced = indexes.filter(i => tracks[i].forced && (languageMatch(tracks[i].language, audioLanguage!) > 0 || tracks[i].language === UNKNOWN_LANGUAGE));
+    return forced[0] ?? -1;
+  }
+
+  for (const wanted of preferences.languages) {
+    const candidates = indexes
+      .filter(i => languageMatch(tracks[i].language, wanted) > 0 && (!tracks[i].forced || preferences.forced === 'always'))
+      .sort((a, b) => {
+        const ta = tracks[a];
+        const tb = tracks[b];
+        return languageMatch(tb.language, wanted) - languageMatch(ta.language, wanted)
+          || Number(!!ta.forced) - Number(!!tb.forced)
+          || Number(!!tb.sdh === preferences.sdh) - Number(!!ta.sdh === preferences.sdh)
+          || Number(!!tb.isDefault) - Number(!!ta.isDefault);
+      });
+    if (candidates.length > 0) return candidates[0];
+  }
+
+  return indexes.find(i => tracks[i].isDefault && !tracks[i].forced) ?? -1;
+};
+
+// The enabled audio track's language when the browser exposes it, otherwise a single language
+// named in the release name ("Movie.2019.FRENCH.1080p"); null when unknown or mixed
+export const audioLanguageOf = (video: VideoAsset, element?: HTMLVideoElement | null): string | null => {
+  // @ts-ignore - audioTracks is not in standard TS lib for HTMLVideoElement
+  const tracks = element?.audioTracks;
+  if (tracks) {
+    for (let i = 0; i < tracks.length; i++) {
+      if (tracks[i].enabled && tracks[i].language) return parseLanguageTag(tracks[i].language);
+    }
+  }
+  const named = (releaseInfoOf(video).languages || []).map(parseLanguageTag).filter((l): l is string => !!l);
+  return new Set(named).size === 1 ? named[0] : null;
+};
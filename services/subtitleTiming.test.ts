@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { describeTiming, NO_TIMING, retimeCues, SyncPoint, timingFromSyncPoints } from './subtitleTiming';
+
+const PAL_TO_FILM = 25 / 23.976;
+const FILM_TO_PAL = 23.976 / 25;
+
+// Where a line timed at cueTime lands with the given correction, give or take the hand-marking error
+const point = (cueTime: number, rate: number, offset: number, error = 0): SyncPoint =>
+  ({ cueTime, actualTime: cueTime * rate + offset + error });
+
+describe('timingFromSyncPoints', () => {
+  it.each([
+    ['a plain delay', point(60, 1, 2.5), point(3000, 1, 2.5), { offset: 2.5, rate: 1 }],
+    ['a delay marked a little off', point(60, 1, -1.2, 0.08), point(3000, 1, -1.2, -0.05), { offset: -1.185, rate: 1 }],
+    ['25 fps subtitles on a 23.976 fps video', point(120, PAL_TO_FILM, 0.4, 0.06), point(5400, PAL_TO_FILM, 0.4, -0.09), { offset: 0.385, rate: PAL_TO_FILM }],
+    ['23.976 fps subtitles on a 25 fps video', point(120, FILM_TO_PAL, -3, -0.1), point(5400, FILM_TO_PAL, -3, 0.05), { offset: -3.025, rate: FILM_TO_PAL }],
+    ['23.976 fps subtitles on a 24 fps video', point(300, 23.976 / 24, 0), point(6000, 23.976 / 24, 0), { offset: 0, rate: 23.976 / 24 }]
+  ])('%s', (_, a, b, expected) => {
+    const timing = timingFromSyncPoints(a, b)!;
+    expect(timing.rate).toBe(expected.rate);
+    expect(timing.offset).toBeCloseTo(expected.offset, 3);
+  });
+
+  it('keeps a rate that is not close to any framerate ratio', () => {
+    const timing = timingFromSyncPoints(point(100, 1.01, 0), point(2000, 1.01, 0))!;
+    expect(timing.rate).toBeCloseTo(1.01, 6);
+    expect(timing.offset).toBeCloseTo(0, 3);
+  });
+
+  it.each([
+    ['points less than a second apart', point(100, 1, 0), point(100.5, 1, 0)],
+    ['a rate no framerate mix-up could cause', point(100, 3, 0), point(200, 3, 0)],
+    ['the points marked the wrong way round', { cueTime: 100, actualTime: 200 }, { cueTime: 200, actualTime: 100 }]
+  ])('gives up on %s', (_, a, b) => {
+    expect(timingFromSyncPoints(a, b)).toBeNull();
+  });
+});
+
+describe('retimeCues', () => {
+  const cues = [{ start: 1, end: 2, text: 'a' }, { start: 3, end: 5, text: 'b' }];
+
+  it('returns the same cues when there is nothing to correct', () => {
+    expect(retimeCues(cues, NO_TIMING)).toBe(cues);
+  });
+
+  it('applies rate then offset, clips at zero and drops what ends before it', () => {
+    expect(retimeCues(cues, { offset: -2.5, rate: 1 })).toEqual([{ start: 0.5, end: 2.5, text: 'b' }]);
+    expect(retimeCues(cues, { offset: -1.5, rate: 1 })).toEqual([{ start: 0, end: 0.5, text: 'a' }, { start: 1.5, end: 3.5, text: 'b' }]);
+    expect(retimeCues(cues, { offset: 1, rate: 2 })).toEqual([{ start: 3, end: 5, text: 'a' }, { start: 7, end: 11, text: 'b' }]);
+  });
+});
+
+describe('describeTiming', () => {
+  it.each([
+    [{ offset: 1.2, rate: 1 }, '+1.20s'],
+    [{ offset: -0.5, rate: PAL_TO_FILM }, '-0.50s, 25 → 23.976 fps'],
+    [{ offset: 3, rate: 1.0021 }, '+3.00s, ×1.0021']
+  ])('%j', (timing, expected) => {
+    expect(describeTiming(timing)).toBe(expected);
+  });
+});
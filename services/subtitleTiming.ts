@@ -0,0 +1,60 @@
+import { SubtitleTiming } from "../types";
+import { AssScript } from "./assParser";
+import { SubtitleCue } from "./srtParser";
+
+// Subtitle delay and framerate correction. Cues keep their original times; the correction is
+// applied on the way to the player (or to an exported file) so it can be changed or undone.
+
+export const NO_TIMING: SubtitleTiming = { offset: 0, rate: 1 };
+
+export const isDefaultTiming = (timing: SubtitleTiming) => timing.offset === 0 && timing.rate === 1;
+
+export const retime = (seconds: number, timing: SubtitleTiming) => seconds * timing.rate + timing.offset;
+
+// Cues pushed before the start are clipped, or dropped when nothing of them is left
+export const retimeCues = (cues: SubtitleCue[], timing: SubtitleTiming): SubtitleCue[] => {
+  if (isDefaultTiming(timing)) return cues;
+  return cues
+    .map(c => ({ ...c, start: Math.max(0, retime(c.start, timing)), end: retime(c.end, timing) }))
+    .filter(c => c.end > c.start);
+};
+
+// Fades, moves and karaoke are relative to the line's start, so only start and end move
+export const retimeAssScript = (script: AssScript, timing: SubtitleTiming): AssScript => {
+  if (isDefaultTiming(timing)) return script;
+  return { ...script, events: script.events.map(e => ({ ...e, start: retime(e.start, timing), end: retime(e.end, timing) })) };
+};
+
+// --- Two-point sync ---
+
+export interface SyncPoint {
+  cueTime: number; // When the line is in the file
+  actualTime: number; // When it is actually spoken in the video
+}
+
+const FRAMERATES = [23.976, 24, 25, 29.97, 30];
+
+// Subtitles timed for one framerate and played against another drift by a fixed ratio
+const FRAMERATE_RATIOS = FRAMERATES.flatMap(from => FRAMERATES.filter(to => to !== from).map(to => ({ from, to, rate: from / to })));
+
+// Hand-marked points are a fraction of a second off; a rate this close to a known ratio is that ratio
+const SNAP_TOLERANCE = 0.0004;
+
+export const timingFromSyncPoints = (a: SyncPoint, b: SyncPoint): SubtitleTiming | null => {
+  if (Math.abs(b.cueTime - a.cueTime) < 1) return null; // Too close together to tell the rate
+  let rate = (b.actualTime - a.actualTime) / (b.cueTime - a.cueTime);
+  if (!(rate > 0.5 && rate < 2)) return null;
+  const snapped = [1, ...FRAMERATE_RATIOS.map(r => r.rate)].find(r => Math.abs(rate / r - 1) < SNAP_TOLERANCE);
+  if (snapped) rate = snapped;
+  // Fit the offset to the middle of the two points so any rounding is split between them
+  const offset = (a.actualTime + b.actualTime) / 2 - rate * (a.cueTime + b.cueTime) / 2;
+  return { offset: Math.round(offset * 1000) / 1000, rate };
+};
+
+// "+1.20s", "-0.50s, 25 → 23.976 fps" or "+3.00s, ×1.0021"
+export const describeTiming = (timing: SubtitleTiming): string => {
+  const offset = `${timing.offset >= 0 ? '+' : ''}${timing.offset.toFixed(2)}s`;
+  if (timing.rate === 1) return offset;
+  const ratio = FRAMERATE_RATIOS.find(r => r.rate === timing.rate);
+  return `${offset}, ${ratio ? `${ratio.from} → ${ratio.to} fps` : `×${timing.rate.toFixed(4)}`}`;
+};
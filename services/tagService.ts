@@ -0,0 +1,127 @@
+import { TagFilter, VideoAsset } from "../types";
+
+// Library-wide tag helpers.
+// Tags can be hierarchical with "/" (e.g. "Sport/Football"): a parent tag matches all of its children.
+// Aliases map variant spellings to one canonical tag and are applied whenever tags enter the library.
+
+export const TAG_SEPARATOR = '/';
+
+// Loose key used to spot variants: "Sci-Fi", "SciFi" and "sci fi" all become "scifi"
+export const tagKey = (tag: string) =>
+  tag.split(TAG_SEPARATOR).map(part => part.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '')).join(TAG_SEPARATOR);
+
+// Trims whitespace around the tag and each hierarchy level, dropping empty levels
+export const cleanTag = (tag: string) =>
+  tag.split(TAG_SEPARATOR).map(part => part.trim()).filter(Boolean).join(TAG_SEPARATOR);
+
+export const isTagOrChild = (tag: string, parent: string) =>
+  tag === parent || tag.startsWith(parent + TAG_SEPARATOR);
+
+export const hasTag = (tags: string[], filterTag: string) => tags.some(t => isTagOrChild(t, filterTag));
+
+// "A/B/C" -> ["A", "A/B", "A/B/C"]
+export const tagAncestry = (tag: string): string[] => {
+  const parts = tag.split(TAG_SEPARATOR);
+  return parts.map((_, i) => parts.slice(0, i + 1).join(TAG_SEPARATOR));
+};
+
+// Every tag in use plus the parents implied by hierarchical tags, sorted
+export const collectTags = (videos: VideoAsset[]): string[] => {
+  const tags = new Set<string>();
+  videos.forEach(v => v.metadata.tags.forEach(t => tagAncestry(t).forEach(a => tags.add(a))));
+  return Array.from(tags).sort();
+};
+
+// Videos carrying each tag directly or through a child tag
+export const countTags = (videos: VideoAsset[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const video of videos) {
+    const seen = new Set(video.metadata.tags.flatMap(tagAncestry));
+    seen.forEach(t => counts.set(t, (counts.get(t) || 0) + 1));
+  }
+  return counts;
+};
+
+// --- Filtering ---
+
+export const EMPTY_TAG_FILTER: TagFilter = { include: [], exclude: [], mode: 'all' };
+
+export const isTagFilterActive = (filter: TagFilter) => filter.include.length > 0 || filter.exclude.length > 0;
+
+export const matchesTagFilter = (tags: string[], filter: TagFilter): boolean => {
+  if (filter.exclude.some(t => hasTag(tags, t))) return false;
+  if (filter.include.length === 0) return true;
+  return filter.mode === 'all'
+    ? filter.include.every(t => hasTag(tags, t))
+    : filter.include.some(t => hasTag(tags, t));
+};
+
+export type TagFilterState = 'include' | 'exclude' | 'off';
+
+export const tagFilterStateOf = (filter: TagFilter, tag: string): TagFilterState =>
+  filter.include.includes(tag) ? 'include' : filter.exclude.includes(tag) ? 'exclude' : 'off';
+
+// Chip clicks cycle off -> include -> exclude -> off
+export const cycleTagFilter = (filter: TagFilter, tag: string): TagFilter => {
+  const include = filter.include.filter(t => t !== tag);
+  const exclude = filter.exclude.filter(t => t !== tag);
+  switch (tagFilterStateOf(filter, tag)) {
+    case 'off': return { ...filter, include: [...include, tag], exclude };
+    case 'include': return { ...filter, include, exclude: [...exclude, tag] };
+    default: return { ...filter, include, exclude };
+  }
+};
+
+// Applies a tag rename/delete to the filter. `rename` returns null for tags that no longer exist.
+export const mapTagFilter = (filter: TagFilter, rename: (tag: string) => string | null): TagFilter => {
+  const map = (tags: string[]) => Array.from(new Set(tags.map(rename).filter((t): t is string => !!t)));
+  return { ...filter, include: map(filter.include), exclude: map(filter.exclude) };
+};
+
+// --- Aliases ---
+
+export const resolveAlias = (tag: string, aliases: Record<string, string>): string => {
+  const cleaned = cleanTag(tag);
+  const key = tagKey(cleaned);
+  for (const [alias, canonical] of Object.entries(aliases)) {
+    if (tagKey(alias) === key) return canonical;
+  }
+  return cleaned;
+};
+
+export const normalizeTags = (tags: string[], aliases: Record<string, string>): string[] =>
+  Array.from(new Set(tags.map(t => resolveAlias(t, aliases)).filter(Boolean)));
+
+// --- Library-wide edits ---
+
+// Rewrites `from` (and its children) to `to`, e.g. renaming "Sport" to "Sports" turns "Sport/Football"
+// into "Sports/Football". Renaming several tags to the same name merges them.
+export const renameTagPath = (tag: string, from: string, to: string) =>
+  isTagOrChild(tag, from) ? to + tag.slice(from.length) : tag;
+
+export const renameTagsInVideos = (videos: VideoAsset[], from: string[], to: string): VideoAsset[] =>
+  videos.map(video => {
+    if (!from.some(f => hasTag(video.metadata.tags, f))) return video;
+    const rename = (t: string) => from.reduce((tag, f) => renameTagPath(tag, f, to), t);
+    const tags = video.metadata.tags.map(rename);
+    // Keep NFO <tag> entries as <tag> after the rename
+    const kodiTags = video.metadata.kodiTags?.map(rename);
+    return { ...video, metadata: { ...video.metadata, tags: Array.from(new Set(tags)), kodiTags } };
+  });
+
+// Removes the tag and its children
+export const deleteTagInVideos = (videos: VideoAsset[], tag: string): VideoAsset[] =>
+  videos.map(video => {
+    if (!hasTag(video.metadata.tags, tag)) return video;
+    const keep = (t: string) => !isTagOrChild(t, tag);
+    // NFO <tag> entries go too, so a re-added tag with the same name is not written back as <tag>
+    const kodiTags = video.metadata.kodiTags?.filter(keep);
+    return { ...video, metadata: { ...video.metadata, tags: video.metadata.tags.filter(keep), kodiTags } };
+  });
+
+// Groups of tags that only differ by case, spacing or punctuation: merge candidates
+export const findSimilarTags = (tags: string[]): string[][] => {
+  const groups = new Map<string, string[]>();
+  tags.forEach(tag => groups.set(tagKey(tag), [...(groups.get(tagKey(tag)) || []), tag]));
+  return Array.from(groups.values()).filter(group => group.length > 1);
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { decodeText, detectEncoding } from './textEncoding';
+
+const hex = (value: string) => Uint8Array.from(value.match(/../g) || [], h => parseInt(h, 16));
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+const concat = (...parts: Uint8Array[]) => Uint8Array.from(parts.flatMap(p => Array.from(p)));
+
+// A two-cue SRT with ASCII numbers and timings and the dialogue bytes as given
+const srtWith = (first: Uint8Array, second: Uint8Array) => concat(
+  ascii('1\n00:00:01,000 --> 00:00:03,000\n'), first,
+  ascii('\n\n2\n00:00:04,000 --> 00:00:06,000\n'), second, ascii('\n')
+);
+
+const SAMPLES: [string, Uint8Array, string][] = [
+  // 我们现在就去学校，你要不要一起来？ / 他说这个地方没有人知道。
+  ['gbk', srtWith(
+    hex('ced2c3c7cfd6d4dabecdc8a5d1a7d0a3a3acc4e3d2aab2bbd2aad2bbc6f0c0b4a3bf'),
+    hex('cbfbcbb5d5e2b8f6b5d8b7bdc3bbd3d0c8cbd6aab5c0a1a3')
+  ), '我们现在就去学校'],
+  // 我們現在就去學校，你要不要一起來？ / 他說這個地方沒有人知道。
+  ['big5', srtWith(
+    hex('a7daadccb27ba662b44ea568bec7aed5a141a741ad6ea4a3ad6ea440b05fa8d3a148'),
+    hex('a54cbba1b36fadd3a661a4e8a853a6b3a448aabeb944a143')
+  ), '我們現在就去學校'],
+  // おはようございます。今日はいい天気ですね。 / ありがとう、また明日。
+  ['shift_jis', srtWith(
+    hex('82a882cd82e682a482b282b482a282dc82b781428da193fa82cd82a282a293568b4382c582b782cb8142'),
+    hex('82a082e882aa82c682a4814182dc82bd96be93fa8142')
+  ), 'おはようございます'],
+  // Latin-1 letters are the same bytes in Windows-1252
+  ['windows-1252', srtWith(
+    ascii('Je suis désolé, ça ne marchera pas.'),
+    ascii('Où est le café? Très bien, à demain.')
+  ), 'Je suis désolé, ça']
+];
+
+describe('detectEncoding', () => {
+  it.each(SAMPLES)('recognises %s', (encoding, bytes, excerpt) => {
+    expect(detectEncoding(bytes)).toBe(encoding);
+    expect(decodeText(bytes).text).toContain(excerpt);
+  });
+
+  it.each([
+    ['a UTF-8 BOM', hex('efbbbf31'), 'utf-8'],
+    ['a UTF-16 LE BOM', hex('fffe3100'), 'utf-16le'],
+    ['a UTF-16 BE BOM', hex('feff0031'), 'utf-16be']
+  ])('trusts %s', (_, bytes, encoding) => {
+    expect(detectEncoding(bytes)).toBe(encoding);
+  });
+
+  it('takes valid UTF-8 as UTF-8', () => {
+    expect(detectEncoding(new TextEncoder().encode('1\n00:00:01,000 --> 00:00:02,000\nDéjà vu 我们\n'))).toBe('utf-8');
+  });
+
+  it('spots UTF-16 without a BOM from the zero bytes', () => {
+    const le = Uint8Array.from(Array.from('1\n00:00:01,000 --> 00:00:02,000\nHello\n').flatMap(c => [c.charCodeAt(0), 0]));
+    expect(detectEncoding(le)).toBe('utf-16le');
+    expect(detectEncoding(Uint8Array.from(le.slice(1)))).toBe('utf-16be');
+  });
+});
+
+describe('decodeText', () => {
+  it('drops the BOM from the text', () => {
+    expect(decodeText(hex('efbbbf4869'))).toEqual({ text: 'Hi', encoding: 'utf-8' });
+  });
+
+  it('uses the encoding it is given instead of guessing', () => {
+    expect(decodeText(ascii('café'), 'windows-1252')).toEqual({ text: 'café', encoding: 'windows-1252' });
+  });
+});
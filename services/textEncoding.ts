@@ -0,0 +1,129 @@
+// Character-encoding detection for subtitle files. A BOM wins; otherwise valid UTF-8 is taken
+// as UTF-8, and anything else is decoded with each legacy candidate and scored on how much of
+// the result looks like real text in that script.
+
+export interface EncodingOption {
+  id: string; // TextDecoder label
+  label: string;
+}
+
+// Offered for the manual override; the first group is also what detection chooses from
+export const SUBTITLE_ENCODINGS: EncodingOption[] = [
+  { id: 'utf-8', label: 'UTF-8' },
+  { id: 'gbk', label: 'Chinese Simplified (GBK)' },
+  { id: 'big5', label: 'Chinese Traditional (Big5)' },
+  { id: 'shift_jis', label: 'Japanese (Shift-JIS)' },
+  { id: 'windows-1252', label: 'Western (Windows-1252)' },
+  { id: 'euc-kr', label: 'Korean (EUC-KR)' },
+  { id: 'windows-1251', label: 'Cyrillic (Windows-1251)' },
+  { id: 'windows-1250', label: 'Central European (Windows-1250)' },
+  { id: 'windows-1256', label: 'Arabic (Windows-1256)' },
+  { id: 'iso-8859-7', label: 'Greek (ISO-8859-7)' },
+  { id: 'utf-16le', label: 'UTF-16 LE' },
+  { id: 'utf-16be', label: 'UTF-16 BE' }
+];
+
+const LEGACY_CANDIDATES = ['gbk', 'big5', 'shift_jis', 'euc-kr', 'windows-1251', 'windows-1252'];
+
+// The most frequent characters in each script; mis-decoded bytes rarely land on them
+export const COMMON_SIMPLIFIED = new Set("的一是不了在人有我他这个们中来上大为和国地到以说时要就出会可也你对生能而子那得于着下自之年过发后作里用道行所然家种事成方多经么去法学如都同现当没动面起看定天分还进好小部其些主样理心她本前开但因只从想实吗呢吧啊什谁");
+export const COMMON_TRADITIONAL = new Set("的一是不了在人有我他這個們中來上大為和國地到以說時要就出會可也你對生能而子那得於著下自之年過發後作裡用道行所然家種事成方多經麼去法學如都同現當沒動面起看定天分還進好小部其些主樣理心她本前開但因只從想實嗎呢吧啊什誰");
+const COMMON_HANGUL = new Set("이다는의에하고가을지서나요한기로어리도사를게면수해그있것안아니말내네");
+
+const countWhere = (text: string, test: (ch: string, i: number) => boolean) => {
+  let n = 0;
+  for (let i = 0; i < text.length; i++) if (test(text[i], i)) n++;
+  return n;
+};
+
+const isAsciiLetter = (ch: string | undefined) => !!ch && /[A-Za-z]/.test(ch);
+
+const scoreOf = (encoding: string, text: string): number => {
+  // Replacement characters and C1 controls mean the bytes did not fit this encoding
+  const bad = countWhere(text, ch => ch === "\uFFFD" || (ch >= "\u0080" && ch <= "\u009F"));
+  let good = 0;
+  switch (encoding) {
+    case 'gbk': good = countWhere(text, ch => COMMON_SIMPLIFIED.has(ch)) * 3; break;
+    case 'big5': good = countWhere(text, ch => COMMON_TRADITIONAL.has(ch)) * 3; break;
+    case 'shift_jis':
+      good = countWhere(text, ch => ch >= "\u3040" && ch <= "\u30FF") * 2
+        + countWhere(text, ch => COMMON_SIMPLIFIED.has(ch) || COMMON_TRADITIONAL.has(ch));
+      break;
+    case 'euc-kr': good = countWhere(text, ch => COMMON_HANGUL.has(ch)) * 3; break;
+    case 'windows-1251': {
+      // Cyrillic words are runs of letters; count lowercase ones next to each other
+      good = countWhere(text, (ch, i) => /[а-я]/.test(ch) && /[а-я]/.test(text[i + 1] || ""));
+      break;
+    }
+    default: {
+      // Western text: accented letters sit inside otherwise ASCII words. Bytes of other
+      // encodings read as 1252 show up as runs of symbols and accented capitals instead.
+      const accented = (ch: string | undefined) => !!ch && ch >= "\u00C0" && ch <= "\u00FF";
+      good = countWhere(text, (ch, i) => accented(ch) && (isAsciiLetter(text[i - 1]) || isAsciiLetter(text[i + 1])) && !accented(text[i + 1]));
+      good -= countWhere(text, (ch, i) => ch >= "\u00A0" && text[i + 1] >= "\u00A0");
+    }
+  }
+  return good - bad * 5;
+};
+
+const decodeWith = (encoding: string, bytes: Uint8Array, fatal = false): string | null => {
+  try {
+    return new TextDecoder(encoding, { fatal }).decode(bytes);
+  } catch {
+    return null;
+  }
+};
+
+const bomOf = (bytes: Uint8Array): string | null => {
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return 'utf-8';
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) return 'utf-16le';
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) return 'utf-16be';
+  return null;
+};
+
+// Subtitles are mostly ASCII digits and punctuation, so UTF-16 without a BOM has zero bytes
+// in every other position
+const utf16Of = (bytes: Uint8Array): string | null => {
+  const sample = bytes.subarray(0, 4096);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenZeros++; else oddZeros++;
+    }
+  }
+  const half = sample.length / 2;
+  if (oddZeros > half * 0.3 && evenZeros < half * 0.05) return 'utf-16le';
+  if (evenZeros > half * 0.3 && oddZeros < half * 0.05) return 'utf-16be';
+  return null;
+};
+
+export const detectEncoding = (bytes: Uint8Array): string => {
+  const bom = bomOf(bytes);
+  if (bom) return bom;
+  const utf16 = utf16Of(bytes);
+  if (utf16) return utf16;
+  if (decodeWith('utf-8', bytes, true) !== null) return 'utf-8';
+
+  let best = 'windows-1252';
+  let bestScore = -Infinity;
+  for (const encoding of LEGACY_CANDIDATES) {
+    const text = decodeWith(encoding, bytes);
+    if (text === null) continue;
+    const score = scoreOf(encoding, text);
+    if (score > bestScore) {
+      best = encoding;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+export const encodingLabelOf = (id: string) => SUBTITLE_ENCODINGS.find(e => e.id === id)?.label || id;
+
+// Decodes with the given encoding, or the detected one. The BOM is never part of the text.
+export const decodeText = (bytes: Uint8Array, encoding?: string): { text: string; encoding: string } => {
+  const used = encoding || detectEncoding(bytes);
+  const text = decodeWith(used, bytes) ?? new TextDecoder().decode(bytes);
+  return { text: text.replace(/^\uFEFF/, ""), encoding: used };
+};
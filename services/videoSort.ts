@@ -0,0 +1,58 @@
+import { SortKey, VideoAsset, VideoFieldFilter, VideoSort } from "../types";
+
+// Sorting and field filters for the grid. Playback uses the same filter so what you see is what plays.
+
+export const SORT_KEY_LABELS: Record<SortKey, string> = {
+  title: 'Title',
+  year: 'Year',
+  rating: 'Rating',
+  dateAdded: 'Date added',
+  lastPlayed: 'Last played',
+  duration: 'Duration',
+  size: 'File size',
+};
+
+export const NO_FIELD_FILTER: VideoFieldFilter = { favouritesOnly: false, minRating: 0 };
+
+const titleOf = (video: VideoAsset) => (video.metadata.title || video.fileName).toLowerCase();
+
+// Undefined means "unknown", which always sorts last regardless of direction
+const sortValueOf = (video: VideoAsset, key: SortKey): number | undefined => {
+  switch (key) {
+    case 'year': return video.metadata.year;
+    case 'rating': return video.metadata.rating;
+    case 'dateAdded': return video.metadata.dateAdded;
+    case 'lastPlayed': return video.history?.lastPlayedAt ?? undefined;
+    case 'duration': return video.metadata.duration;
+    case 'size': return video.size;
+    default: return undefined;
+  }
+};
+
+// A null sort keeps the view's own order (import order, playlist order, most recent first...)
+export const sortVideos = (videos: VideoAsset[], sort: VideoSort | null): VideoAsset[] => {
+  if (!sort) return videos;
+  const direction = sort.descending ? -1 : 1;
+  const byTitle = (a: VideoAsset, b: VideoAsset) => titleOf(a).localeCompare(titleOf(b), undefined, { numeric: true });
+
+  if (sort.key === 'title') {
+    return [...videos].sort((a, b) => direction * byTitle(a, b));
+  }
+  return [...videos].sort((a, b) => {
+    const va = sortValueOf(a, sort.key);
+    const vb = sortValueOf(b, sort.key);
+    if (va === undefined || vb === undefined) {
+      if (va !== vb) return va === undefined ? 1 : -1;
+      return byTitle(a, b);
+    }
+    return direction * (va - vb) || byTitle(a, b);
+  });
+};
+
+export const matchesFieldFilter = (video: VideoAsset, filter: VideoFieldFilter): boolean => {
+  if (filter.favouritesOnly && !video.metadata.favourite) return false;
+  if (filter.minRating > 0 && (video.metadata.rating ?? 0) < filter.minRating) return false;
+  return true;
+};
+
+export const isFieldFilterActive = (filter: VideoFieldFilter) => filter.favouritesOnly || filter.minRating > 0;
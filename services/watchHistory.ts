@@ -0,0 +1,62 @@
+import { VideoAsset, WatchHistory } from "../types";
+
+// Past this fraction (or within the last minute) a video counts as watched
+const COMPLETED_FRACTION = 0.92;
+const COMPLETED_REMAINING_SECONDS = 60;
+// Don't offer to resume for the first few seconds
+export const MIN_RESUME_SECONDS = 10;
+const RECENT_LIMIT = 50;
+
+export interface PlaybackProgress {
+  videoId: string;
+  position: number;
+  duration: number;
+  watchedDelta: number; // Seconds played since the last report
+  started?: boolean; // First report of a new playback session
+}
+
+export const emptyHistory = (): WatchHistory => ({
+  lastPosition: 0,
+  playCount: 0,
+  lastPlayedAt: null,
+  completed: false,
+  watchedSeconds: 0
+});
+
+export const applyProgress = (history: WatchHistory | undefined, progress: PlaybackProgress): WatchHistory => {
+  const current = history || emptyHistory();
+  const { position, duration, watchedDelta, started } = progress;
+  const reachedEnd = duration > 0 &&
+    (position / duration >= COMPLETED_FRACTION || duration - position <= Math.min(COMPLETED_REMAINING_SECONDS, duration * 0.1));
+
+  return {
+    lastPosition: reachedEnd ? 0 : position,
+    playCount: current.playCount + (started ? 1 : 0),
+    lastPlayedAt: Date.now(),
+    // Once watched, stays watched even if rewatched partially
+    completed: current.completed || reachedEnd,
+    watchedSeconds: current.watchedSeconds + Math.max(0, watchedDelta)
+  };
+};
+
+export const resumePositionOf = (video: VideoAsset): number | null => {
+  const position = video.history?.lastPosition || 0;
+  return position >= MIN_RESUME_SECONDS ? position : null;
+};
+
+// 0..1, or null when there is nothing to show
+export const progressFractionOf = (video: VideoAsset): number | null => {
+  const position = resumePositionOf(video);
+  const duration = video.metadata.duration;
+  if (position === null || !duration) return null;
+  return Math.min(1, position / duration);
+};
+
+const byLastPlayed = (a: VideoAsset, b: VideoAsset) =>
+  (b.history?.lastPlayedAt || 0) - (a.history?.lastPlayedAt || 0);
+
+export const recentlyPlayed = (videos: VideoAsset[]): VideoAsset[] =>
+  videos.filter(v => v.history?.lastPlayedAt).sort(byLastPlayed).slice(0, RECENT_LIMIT);
+
+export const continueWatching = (videos: VideoAsset[]): VideoAsset[] =>
+  videos.filter(v => resumePositionOf(v) !== null).sort(byLastPlayed);
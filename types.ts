@@ -1,16 +1,104 @@
+// Kodi NFO details (https://kodi.wiki/view/NFO_files)
+export type NfoKind = 'movie' | 'tvshow' | 'episodedetails';
+
+export interface NfoRating {
+  name: string; // Source, e.g. "imdb", "themoviedb"
+  value: number;
+  max: number;
+  votes?: number;
+  isDefault?: boolean;
+}
+
+export interface NfoActor {
+  name: string;
+  role?: string;
+  order?: number;
+  thumb?: string;
+}
+
+export interface NfoUniqueId {
+  type: string; // e.g. "imdb", "tmdb", "tvdb"
+  value: string;
+  isDefault?: boolean;
+}
+
+export interface NfoArtwork {
+  url: string;
+  aspect?: string; // e.g. "poster", "banner", "landscape"
+  preview?: string;
+}
+
+// Technical details parsed from release-style file names
+export interface ReleaseInfo {
+  resolution?: string; // "1080p", "2160p"...
+  source?: string; // "BluRay", "WEB-DL", "BluRay Remux"...
+  videoCodec?: string; // "H.264", "H.265", "AV1"...
+  audioCodec?: string; // "DTS-HD MA 5.1", "E-AC-3"...
+  hdr?: string; // "HDR10", "Dolby Vision HDR10"...
+  edition?: string; // "Extended", "Director's Cut"...
+  languages?: string[];
+  group?: string; // Release group
+}
+
 export interface VideoMetadata {
   title: string;
   plot: string;
   tags: string[];
+  year?: number; // Release year
+  rating?: number; // 0-5 user rating (halves allowed, NFO userrating is 0-10)
+  favourite?: boolean;
+  dateAdded?: number; // Epoch ms, set on import
+  note?: string; // Personal note, never written to NFO
   duration?: number;
   width?: number;
   height?: number;
+  release?: ReleaseInfo; // From the file name
+  // From / for NFO files
+  nfoKind?: NfoKind;
+  originalTitle?: string;
+  sortTitle?: string;
+  tagline?: string;
+  premiered?: string; // YYYY-MM-DD; "aired" for episodes
+  runtime?: number; // Minutes, as written in the NFO (duration is probed from the file)
+  ratings?: NfoRating[]; // Community ratings; the user's own is `rating`
+  directors?: string[];
+  studios?: string[];
+  actors?: NfoActor[];
+  set?: string; // Movie collection name, e.g. "Alien Collection"
+  uniqueIds?: NfoUniqueId[];
+  thumbs?: NfoArtwork[];
+  fanart?: NfoArtwork[];
+  showTitle?: string; // Episodes: series title
+  season?: number;
+  episode?: number;
+  kodiTags?: string[]; // Tags that came from <tag> rather than <genre>, written back the same way
+  nfoExtra?: string[]; // Serialized elements we don't understand, re-emitted untouched on export
+}
+
+// Shown at cueTime * rate + offset; rate fixes subtitles timed for another framerate
+export interface SubtitleTiming {
+  offset: number; // Seconds, positive shows subtitles later
+  rate: number;
 }
 
 export interface SubtitleTrack {
   label: string;
-  language: string;
-  fileHandle: File;
+  language: string; // BCP 47 tag: "en", "pt-BR", "zh-Hans"; "und" when unknown
+  forced?: boolean; // Only the foreign-language parts
+  sdh?: boolean; // For the deaf and hard of hearing
+  isDefault?: boolean; // Flagged as the default track in its file name
+  relativePath?: string; // Relative to the owning video's libraryRoot
+  fileHandle: File | null; // Not serializable, lost on reload
+  encoding?: string; // Manual override (TextDecoder label); detected when unset
+  timing?: SubtitleTiming; // Saved delay/sync correction
+}
+
+export interface WatchHistory {
+  lastPosition: number; // Seconds; reset to 0 once completed
+  playCount: number;
+  lastPlayedAt: number | null; // Epoch ms
+  completed: boolean;
+  watchedSeconds: number; // Total time actually spent playing (seeks excluded)
 }
 
 export interface VideoAsset {
@@ -18,31 +106,135 @@ export interface VideoAsset {
   collectionId: string; // Renamed from containerId
   fileName: string; // Original filename e.g. "movie.mp4"
   relativePath: string; // "folder/movie.mp4" - crucial for relinking
+  libraryRoot?: string | null; // Absolute folder relativePath is resolved against (Electron only)
   fileHandle: File | null; // The actual file object (not serializable)
   thumbnailUrl: string | null; // Blob URL
   metadata: VideoMetadata;
   size: number;
+  fingerprint?: string; // Size + sampled content hash, stable across renames and moves
   subtitles: SubtitleTrack[];
+  missing?: boolean; // File was not found by the last rescan
+  history?: WatchHistory;
+}
+
+// A folder a collection was imported from; rescans and watchers work per source
+export interface CollectionSource {
+  folderName: string; // Top folder name, the first segment of every relativePath imported from it
+  folderPath: string | null; // Absolute path (Electron), null for browser picks
 }
 
 export interface Collection { // Renamed from Container
   id: string;
   name: string;
   thumbnailUrl: string | null; // Derived from one of its videos
+  sources?: CollectionSource[];
+  promptTemplate?: string; // Instructions for metadata generation, empty = the general preset
+}
+
+// Smart collections: contents computed from rules instead of stored
+export type SmartRuleField =
+  | 'tag' | 'title' | 'path' | 'collection'
+  | 'duration' | 'size' | 'year' | 'rating'
+  | 'favourite' | 'watched'
+  | 'dateAdded' | 'lastPlayed'
+  | 'resolution' | 'release';
+
+export type SmartRuleOperator =
+  | 'is' | 'isNot' | 'contains' | 'notContains' // Text
+  | 'gt' | 'lt' // Numbers
+  | 'yes' | 'no' // Flags
+  | 'withinDays' | 'notWithinDays'; // Dates
+
+export interface SmartRule {
+  id: string;
+  field: SmartRuleField;
+  operator: SmartRuleOperator;
+  value: string; // Raw editor input, interpreted per field (minutes, MB, days...)
+}
+
+export interface SmartCollection {
+  id: string;
+  name: string;
+  match: 'all' | 'any';
+  rules: SmartRule[];
+}
+
+// What the main grid is showing
+export type LibraryView =
+  | { kind: 'all' }
+  | { kind: 'collection'; id: string }
+  | { kind: 'smart'; id: string }
+  | { kind: 'recent' }
+  | { kind: 'continue' }
+  | { kind: 'playlist'; id: string }
+  | { kind: 'series' } // Overview of every series
+  | { kind: 'show'; id: string }; // One series, id is its series key
+
+export type ShuffleMode = 'random' | 'rating' | 'fresh' | 'noRepeat';
+
+export type RepeatMode = 'off' | 'one' | 'all';
+
+export type SortKey = 'title' | 'year' | 'rating' | 'dateAdded' | 'lastPlayed' | 'duration' | 'size';
+
+export interface VideoSort {
+  key: SortKey;
+  descending: boolean;
+}
+
+// Sidebar tag chips: each tag is included, excluded or off
+export interface TagFilter {
+  include: string[];
+  exclude: string[];
+  mode: 'all' | 'any'; // How included tags combine; excluded tags always rule a video out
+}
+
+// Filters on the user fields; tags and search are handled separately
+export interface VideoFieldFilter {
+  favouritesOnly: boolean;
+  minRating: number; // 0 = no rating filter
+}
+
+export interface Playlist {
+  id: string;
+  name: string;
+  videoIds: string[]; // Play order; videos can come from any collection
+  repeat: RepeatMode;
+  shuffle: boolean;
 }
 
 export interface AppState {
   collections: Collection[];
   videos: VideoAsset[];
+  shuffleMode: ShuffleMode;
+  shuffleHistory: Record<string, string[]>; // Playback scope key -> ids played in the current no-repeat cycle
+  playlists: Playlist[];
+  smartCollections: SmartCollection[];
+  tagAliases: Record<string, string>; // Variant spelling -> canonical tag, applied when tags are added
 }
 
 export interface PlaybackState {
-  isPlaying: boolean;
   currentVideoId: string | null;
-  queue: string[]; // List of Video IDs in current shuffle scope
-  isShuffling: boolean;
-  volume: number;
+  queue: string[]; // Upcoming Video IDs (shuffled scope or playlist order)
+  scopeKey: string | null; // Library scope the queue was built from, for no-repeat bookkeeping
+  playlistId: string | null; // Set while playing a playlist
+  seriesKey: string | null; // Set while playing episodes of a series in order
+  session: number; // Bumped on every start, so the same video coming up again still restarts the player
+}
+
+// A file found while importing or relinking, either from the browser folder picker or an Electron folder scan
+export interface SourceFile {
+  name: string;
+  relativePath: string; // Always includes the picked folder's name, e.g. "Movies/a/movie.mp4"
+  size: number;
+  file: File | null; // Only set for browser picks
+}
+
+export interface FolderSelection {
+  root: string | null; // Absolute parent of the picked folder (Electron), null for browser picks
+  folderPath: string | null; // Absolute picked folder (Electron), null for browser picks
+  files: SourceFile[];
 }
 
 export const SUPPORTED_EXTENSIONS = ['.mp4', '.mkv', '.ts', '.rmvb', '.avi', '.flv', '.webm'];
-export const SUBTITLE_EXTENSIONS = ['.srt', '.vtt', '.ass', '.ssa'];
\ No newline at end of file
+export const SUBTITLE_EXTENSIONS = ['.srt', '.vtt', '.ass', '.ssa'];
+export const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp', '.gif'];